@@ -10,16 +10,39 @@ import { RouterOutlet } from '@angular/router';
 
 import {MatButtonModule} from '@angular/material/button';
 import {MatIconModule} from '@angular/material/icon';
+import {MatMenuModule} from '@angular/material/menu';
+import {MatSidenavModule} from '@angular/material/sidenav';
+import {MatSnackBarModule} from '@angular/material/snack-bar';
 import {MatToolbarModule} from '@angular/material/toolbar';
+import {MatTooltipModule} from '@angular/material/tooltip';
 import { ThreeSceneService } from './services/tree-scene.service';
 import { TopologyStateService } from './services/topology-state.service';
+import { DEFAULT_TOPOLOGY_API_URL, TOPOLOGY_DATA_SOURCE_CONFIG } from './services/topology-data-source';
 import { TopologyViewerMockComponent } from './pages/topology-viewer-mock/topology-viewer-mock.component';
+import { SceneTooltipComponent } from './components/scene-tooltip/scene-tooltip.component';
+import { PortStatusLegendComponent } from './components/port-status-legend/port-status-legend.component';
+import { ValidationReportComponent } from './components/validation-report/validation-report.component';
+import { LiveFeedIndicatorComponent } from './components/live-feed-indicator/live-feed-indicator.component';
+import { ImportReportComponent } from './components/import-report/import-report.component';
+import { ModelPaletteComponent } from './components/model-palette/model-palette.component';
+import { SearchPanelComponent } from './components/search-panel/search-panel.component';
+import { InspectorPanelComponent } from './components/inspector-panel/inspector-panel.component';
+import { PathTracePanelComponent } from './components/path-trace-panel/path-trace-panel.component';
 
 @NgModule({
     declarations: [
         AppComponent,
         TopologyViewerComponent,
         TopologyViewerMockComponent,
+        SceneTooltipComponent,
+        PortStatusLegendComponent,
+        ValidationReportComponent,
+        LiveFeedIndicatorComponent,
+        ImportReportComponent,
+        ModelPaletteComponent,
+        SearchPanelComponent,
+        InspectorPanelComponent,
+        PathTracePanelComponent,
     ],
     imports: [
         BrowserModule,            
@@ -28,10 +51,20 @@ import { TopologyViewerMockComponent } from './pages/topology-viewer-mock/topolo
         AppRoutingModule,   
         MatButtonModule, 
         MatIconModule,
+        MatMenuModule,
+        MatSidenavModule,
+        MatSnackBarModule,
         MatToolbarModule,
+        MatTooltipModule,
         RouterOutlet,   
     ],
-    providers: [ThreeSceneService, TopologyStateService, provideAnimations()],
+    providers: [
+        ThreeSceneService,
+        TopologyStateService,
+        // Where layouts live; e.g. { type: 'local-storage', seed: { type: 'asset', baseUrl: 'layouts' } } for offline demos
+        { provide: TOPOLOGY_DATA_SOURCE_CONFIG, useValue: { type: 'http', apiUrl: DEFAULT_TOPOLOGY_API_URL } },
+        provideAnimations()
+    ],
     bootstrap: [AppComponent],
     schemas: [CUSTOM_ELEMENTS_SCHEMA]
 })
@@ -2,11 +2,12 @@ import { NgModule } from '@angular/core';
 import { RouterModule, Routes } from '@angular/router';
 import { TopologyViewerComponent } from './pages/topology-viewer/topology-viewer.component'; 
 import { TopologyViewerMockComponent } from './pages/topology-viewer-mock/topology-viewer-mock.component';
+import { unsavedChangesGuard } from './guards/unsaved-changes.guard';
 
 const routes: Routes = [
   { path: 'mock', component: TopologyViewerMockComponent },
-  { path: 'topology', component: TopologyViewerComponent },
-  { path: '', component: TopologyViewerComponent, pathMatch: 'full' },
+  { path: 'topology', component: TopologyViewerComponent, canDeactivate: [unsavedChangesGuard] },
+  { path: '', component: TopologyViewerComponent, pathMatch: 'full', canDeactivate: [unsavedChangesGuard] },
 ];
 
 @NgModule({
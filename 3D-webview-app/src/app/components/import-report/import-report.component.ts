@@ -0,0 +1,43 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { ThreeSceneService } from '../../services/tree-scene.service';
+import { TopologyStateService } from '../../services/topology-state.service';
+import { NetworkImportIssue, NetworkImportReport } from '../../services/network-mapping';
+
+/**
+ * Summary of a network import (LLDP, DOT, NetBox): what was imported and what couldn't be mapped.
+ * Clicking an issue about an imported device selects and focuses it.
+ */
+@Component({
+  selector: 'app-import-report',
+  standalone: false,
+  templateUrl: './import-report.component.html',
+  styleUrls: ['./import-report.component.scss']
+})
+export class ImportReportComponent {
+  @Input() report: NetworkImportReport | null = null;
+  @Output() closed = new EventEmitter<void>();
+
+  readonly formatLabels: Record<NetworkImportReport['format'], string> = {
+    'lldp-csv': 'LLDP/CDP neighbor table',
+    'dot': 'Graphviz DOT',
+    'netbox': 'NetBox export'
+  };
+
+  constructor(
+    private threeSceneService: ThreeSceneService,
+    private topologyStateService: TopologyStateService
+  ) { }
+
+  // Skipped devices and cables are errors; devices imported with the fallback model only warnings
+  isError(issue: NetworkImportIssue): boolean {
+    return issue.kind !== 'fallback-device' && issue.kind !== 'parse';
+  }
+
+  showIssue(issue: NetworkImportIssue): void {
+    if (!issue.modelId) {
+      return;
+    }
+    this.topologyStateService.setSelectedObject(issue.modelId, issue.modelId, 'device');
+    this.threeSceneService.focusOnModel(issue.modelId);
+  }
+}
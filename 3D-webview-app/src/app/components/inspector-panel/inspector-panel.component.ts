@@ -0,0 +1,177 @@
+import { Component, EventEmitter, OnDestroy, OnInit, Output } from '@angular/core';
+import { Observable, Subscription, combineLatest } from 'rxjs';
+import { ThreeSceneService } from '../../services/tree-scene.service';
+import {
+  CableConnection, EulerRotation, ModelInstance, PortState, SelectedObjectInfo, TopologyLayout, TopologyStateService, Vector3D
+} from '../../services/topology-state.service';
+import { PortStatusStyle, PortStatusThemeService } from '../../services/port-status-theme.service';
+import { ModelCatalogService, ModelDefinition } from '../../services/model-catalog.service';
+import { attachToIndicatorName, getPortBaseName, indicatorToAttachName } from '../../services/port-naming';
+
+// One end of a cable, resolved against the topology
+interface CableEnd {
+  modelId: string;
+  portName: string; // `_Indicator` name
+  label: string; // 'Device name Port01'
+}
+
+interface DeviceDetails {
+  model: ModelInstance;
+  definition?: ModelDefinition;
+  rackLabel?: string; // 'Rack A1, U12'
+}
+
+interface PortDetails {
+  model: ModelInstance;
+  port: PortState;
+  listed: boolean; // False for a port of the GLB that the layout doesn't list (shown as inactive)
+  style: PortStatusStyle;
+  statusInTheme: boolean; // Else the status select needs an extra option for it
+  cable?: CableConnection;
+  peer?: CableEnd; // Far end of the cable
+}
+
+interface CableDetails {
+  cable: CableConnection;
+  ends: CableEnd[]; // Source, target
+}
+
+/**
+ * Details of the selected device, port or cable. Device names and port states can be edited here;
+ * like every other edit they go through TopologyStateService and can be undone.
+ */
+@Component({
+  selector: 'app-inspector-panel',
+  standalone: false,
+  templateUrl: './inspector-panel.component.html',
+  styleUrls: ['./inspector-panel.component.scss']
+})
+export class InspectorPanelComponent implements OnInit, OnDestroy {
+  @Output() closed = new EventEmitter<void>();
+
+  readonly styles$: Observable<PortStatusStyle[]>;
+  device: DeviceDetails | null = null;
+  port: PortDetails | null = null;
+  cable: CableDetails | null = null;
+  missing: SelectedObjectInfo | null = null; // Selected, but no longer in the topology
+  private subscriptions: Subscription = new Subscription();
+
+  constructor(
+    private threeSceneService: ThreeSceneService,
+    private topologyStateService: TopologyStateService,
+    private portStatusTheme: PortStatusThemeService,
+    private modelCatalog: ModelCatalogService
+  ) {
+    this.styles$ = portStatusTheme.styles$;
+  }
+
+  ngOnInit(): void {
+    this.subscriptions.add(
+      combineLatest([this.topologyStateService.selectedObject$, this.topologyStateService.currentTopology$])
+        .subscribe(([selected, topology]) => {
+          this.device = selected?.objectType === 'device' && topology ? this.describeDevice(selected.modelId, topology) : null;
+          this.port = selected?.objectType === 'port' && topology ? this.describePort(selected.modelId, selected.objectName, topology) : null;
+          this.cable = selected?.objectType === 'cable' && topology ? this.describeCable(selected.objectName, topology) : null;
+          this.missing = selected && !this.device && !this.port && !this.cable ? selected : null;
+        })
+    );
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.unsubscribe();
+  }
+
+  rename(model: ModelInstance, displayName: string): void {
+    this.topologyStateService.renameModel(model.id, displayName);
+  }
+
+  setPortState(details: PortDetails, status: string, blinking: boolean): void {
+    this.topologyStateService.updatePortState(details.model.id, details.port.name, status, blinking, details.port.blinkPattern);
+  }
+
+  selectDevice(modelId: string): void {
+    this.topologyStateService.setSelectedObject(modelId, modelId, 'device');
+  }
+
+  selectCable(cable: CableConnection): void {
+    this.topologyStateService.setSelectedObject(cable.source.modelId, cable.id, 'cable');
+  }
+
+  selectPort(modelId: string, portName: string): void {
+    this.topologyStateService.setSelectedObject(modelId, portName, 'port');
+  }
+
+  // Selects a port on another device, e.g. the far end of a cable, and flies there
+  goToPort(end: CableEnd): void {
+    this.selectPort(end.modelId, end.portName);
+    this.threeSceneService.focusOnModel(end.modelId);
+  }
+
+  focus(modelId: string): void {
+    this.threeSceneService.focusOnModel(modelId);
+  }
+
+  portLabel(portName: string): string {
+    return getPortBaseName(portName);
+  }
+
+  portColor(port: PortState): string {
+    return this.portStatusTheme.getStyle(port.status).color;
+  }
+
+  formatPosition(position: Vector3D): string {
+    return [position.x, position.y, position.z].map(value => value.toFixed(2)).join(', ');
+  }
+
+  formatRotation(rotation: EulerRotation): string {
+    return [rotation.x, rotation.y, rotation.z].map(value => `${Math.round(value * 180 / Math.PI)}°`).join(', ');
+  }
+
+  private describeDevice(modelId: string, topology: TopologyLayout): DeviceDetails | null {
+    const model = topology.models.find(m => m.id === modelId);
+    if (!model) {
+      return null;
+    }
+    const rack = model.mount && topology.racks?.find(r => r.id === model.mount!.rackId);
+    return {
+      model,
+      definition: this.modelCatalog.getDefinition(model.modelDefinitionId),
+      rackLabel: model.mount ? `${rack?.displayName || model.mount.rackId}, U${model.mount.uIndex}` : undefined
+    };
+  }
+
+  private describePort(modelId: string, portName: string, topology: TopologyLayout): PortDetails | null {
+    const model = topology.models.find(m => m.id === modelId);
+    if (!model) {
+      return null;
+    }
+    const listedPort = model.ports.find(p => p.name === portName);
+    const port: PortState = listedPort ?? { name: portName, status: 'inactive', blinking: false };
+    const cable = this.topologyStateService.getCableAtPort({ modelId, portName });
+    const attachName = indicatorToAttachName(portName);
+    const farEnd = cable && (cable.source.modelId === modelId && cable.source.portAttachName === attachName ? cable.target : cable.source);
+    return {
+      model,
+      port,
+      listed: !!listedPort,
+      style: this.portStatusTheme.getStyle(port.status),
+      statusInTheme: this.portStatusTheme.getStyles().some(style => style.status === port.status),
+      cable,
+      peer: farEnd ? this.resolveEnd(farEnd, topology) : undefined
+    };
+  }
+
+  private describeCable(cableId: string, topology: TopologyLayout): CableDetails | null {
+    const cable = topology.connections.find(c => c.id === cableId);
+    return cable ? { cable, ends: [this.resolveEnd(cable.source, topology), this.resolveEnd(cable.target, topology)] } : null;
+  }
+
+  private resolveEnd(end: CableConnection['source'], topology: TopologyLayout): CableEnd {
+    const model = topology.models.find(m => m.id === end.modelId);
+    return {
+      modelId: end.modelId,
+      portName: attachToIndicatorName(end.portAttachName),
+      label: `${model?.displayName || end.modelId} ${getPortBaseName(end.portAttachName)}`
+    };
+  }
+}
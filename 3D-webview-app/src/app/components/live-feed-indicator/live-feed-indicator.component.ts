@@ -0,0 +1,66 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { LiveFeedConnectionState, LiveFeedTransport, LiveStatusFeedService } from '../../services/live-status-feed.service';
+import { TopologyStateService } from '../../services/topology-state.service';
+
+/**
+ * Toolbar button showing the live status feed's connection state, with a menu to
+ * connect the current layout over WebSocket, SSE or the mock generator.
+ */
+@Component({
+  selector: 'app-live-feed-indicator',
+  standalone: false,
+  templateUrl: './live-feed-indicator.component.html',
+  styleUrls: ['./live-feed-indicator.component.scss']
+})
+export class LiveFeedIndicatorComponent implements OnInit, OnDestroy {
+  state: LiveFeedConnectionState = 'disconnected';
+  transport: LiveFeedTransport | null = null;
+  lastEventAt: number | null = null;
+  private subscriptions: Subscription = new Subscription();
+
+  readonly transports: { transport: LiveFeedTransport, label: string }[] = [
+    { transport: 'websocket', label: 'WebSocket' },
+    { transport: 'sse', label: 'Server-Sent Events' },
+    { transport: 'mock', label: 'Mock events (local)' }
+  ];
+
+  constructor(
+    private liveStatusFeed: LiveStatusFeedService,
+    private topologyStateService: TopologyStateService
+  ) { }
+
+  ngOnInit(): void {
+    this.subscriptions.add(
+      this.liveStatusFeed.connectionState$.subscribe(state => {
+        this.state = state;
+        this.transport = this.liveStatusFeed.getTransport();
+      })
+    );
+    this.subscriptions.add(this.liveStatusFeed.lastEventAt$.subscribe(at => this.lastEventAt = at));
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.unsubscribe();
+  }
+
+  get label(): string {
+    switch (this.state) {
+      case 'connected': return 'Live';
+      case 'connecting': return 'Connecting…';
+      case 'reconnecting': return 'Reconnecting…';
+      default: return 'Offline';
+    }
+  }
+
+  connect(transport: LiveFeedTransport): void {
+    const topology = this.topologyStateService.getCurrentTopologyValue();
+    if (topology) {
+      this.liveStatusFeed.connect(topology.id, transport);
+    }
+  }
+
+  disconnect(): void {
+    this.liveStatusFeed.disconnect();
+  }
+}
@@ -0,0 +1,79 @@
+import { Component, EventEmitter, OnDestroy, OnInit, Output } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { ModelCatalogService, ModelDefinition } from '../../services/model-catalog.service';
+
+// dataTransfer type of a palette item being dragged; its value is the model definition ID
+export const MODEL_DEFINITION_DRAG_TYPE = 'application/x-model-definition-id';
+
+interface PortSummary {
+    text: string; // e.g. '24 ports'
+    warning?: string; // Shown as tooltip, e.g. ports without attach points
+    unavailable?: boolean; // The GLB could not be loaded
+}
+
+/**
+ * Catalog devices grouped by category. Drag one onto the scene to place it there, or click it
+ * to place it in the middle of the view.
+ */
+@Component({
+  selector: 'app-model-palette',
+  standalone: false,
+  templateUrl: './model-palette.component.html',
+  styleUrls: ['./model-palette.component.scss']
+})
+export class ModelPaletteComponent implements OnInit, OnDestroy {
+  @Output() picked = new EventEmitter<string>(); // Model definition ID
+  @Output() closed = new EventEmitter<void>();
+
+  groups: { category: string, definitions: ModelDefinition[] }[] = [];
+  portSummaries: { [modelDefinitionId: string]: PortSummary | undefined } = {};
+  private subscriptions: Subscription = new Subscription();
+
+  constructor(private modelCatalog: ModelCatalogService) { }
+
+  ngOnInit(): void {
+    this.subscriptions.add(
+      this.modelCatalog.definitions$.subscribe(definitions => {
+        const byCategory = new Map<string, ModelDefinition[]>();
+        [...definitions]
+          .sort((a, b) => `${a.vendor} ${a.name}`.localeCompare(`${b.vendor} ${b.name}`))
+          .forEach(definition => {
+            const category = definition.category || 'Other';
+            byCategory.set(category, [...(byCategory.get(category) ?? []), definition]);
+          });
+        this.groups = [...byCategory.entries()]
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([category, items]) => ({ category, definitions: items }));
+        definitions.forEach(definition => this.summarizePorts(definition));
+      })
+    );
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.unsubscribe();
+  }
+
+  onDragStart(event: DragEvent, definition: ModelDefinition): void {
+    if (!event.dataTransfer) {
+      return;
+    }
+    event.dataTransfer.setData(MODEL_DEFINITION_DRAG_TYPE, definition.id);
+    event.dataTransfer.effectAllowed = 'copy';
+  }
+
+  private summarizePorts(definition: ModelDefinition): void {
+    if (this.portSummaries[definition.id]) {
+      return;
+    }
+    this.portSummaries[definition.id] = { text: 'Reading ports…' };
+    this.modelCatalog.discoverPorts(definition.assetUrl).then(ports => {
+      this.portSummaries[definition.id] = {
+        text: `${definition.uHeight}U, ${ports.indicatorNames.length} ports`,
+        warning: ports.withoutAttach.length > 0 ? `No cable attach point for ${ports.withoutAttach.join(', ')}` : undefined
+      };
+    }).catch(error => {
+      console.warn(`Could not load ${definition.assetUrl} for the palette:`, error);
+      this.portSummaries[definition.id] = { text: 'Model file not found', unavailable: true };
+    });
+  }
+}
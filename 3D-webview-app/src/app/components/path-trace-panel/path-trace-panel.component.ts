@@ -0,0 +1,173 @@
+import { Component, EventEmitter, OnDestroy, OnInit, Output } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { SceneHighlightTarget, ThreeSceneService } from '../../services/tree-scene.service';
+import { ModelInstance, SelectedObjectInfo, TopologyLayout, TopologyStateService } from '../../services/topology-state.service';
+import { PathEndpoint, TopologyGraphService, TopologyPath } from '../../services/topology-graph.service';
+import { attachToIndicatorName, getPortBaseName } from '../../services/port-naming';
+
+const MAX_PATHS = 5; // The shortest path and up to four alternatives
+
+/**
+ * Traces paths between two devices or ports: the shortest one and alternatives, each with its hop list.
+ * The devices, ports and cables of the shown path are outlined and everything else is dimmed (until the panel closes).
+ * Endpoints start out as the first and last selected item, so Shift-clicking two ports and opening the panel traces them.
+ */
+@Component({
+  selector: 'app-path-trace-panel',
+  standalone: false,
+  templateUrl: './path-trace-panel.component.html',
+  styleUrls: ['./path-trace-panel.component.scss']
+})
+export class PathTracePanelComponent implements OnInit, OnDestroy {
+  @Output() closed = new EventEmitter<void>();
+
+  readonly ends = ['from', 'to'] as const;
+  from: PathEndpoint | null = null;
+  to: PathEndpoint | null = null;
+  devices: ModelInstance[] = []; // By name
+  paths: TopologyPath[] = [];
+  activeIndex = 0;
+
+  private layout: TopologyLayout | null = null;
+  private cabledPorts = new Map<string, string[]>(); // `_Indicator` names of the ports with a cable, per device
+  private appliedPath = ''; // Key of the path last shown in the scene, so status updates don't redo it
+  private subscriptions: Subscription = new Subscription();
+
+  constructor(
+    private threeSceneService: ThreeSceneService,
+    private topologyStateService: TopologyStateService,
+    private topologyGraph: TopologyGraphService
+  ) { }
+
+  ngOnInit(): void {
+    const selection = this.topologyStateService.getSelectionValue().filter(item => item.objectType !== 'cable');
+    if (selection.length > 0) {
+      this.from = toEndpoint(selection[0]);
+      this.to = selection.length > 1 ? toEndpoint(selection[selection.length - 1]) : null;
+    }
+
+    this.subscriptions.add(
+      this.topologyStateService.displayedTopology$.subscribe(topology => {
+        this.layout = topology;
+        this.devices = [...(topology?.models ?? [])].sort((a, b) => this.modelLabel(a).localeCompare(this.modelLabel(b)));
+        this.cabledPorts = new Map();
+        topology?.connections.forEach(cable => [cable.source, cable.target].forEach(end => {
+          this.cabledPorts.set(end.modelId, [...(this.cabledPorts.get(end.modelId) ?? []), attachToIndicatorName(end.portAttachName)]);
+        }));
+        this.update();
+      })
+    );
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.unsubscribe();
+    this.threeSceneService.setSceneFilter(null);
+    this.threeSceneService.setPathHighlights([]);
+  }
+
+  get activePath(): TopologyPath | null {
+    return this.paths[this.activeIndex] ?? null;
+  }
+
+  // Ports with a cable, plus the endpoint's own port (which may have none)
+  getPortOptions(endpoint: PathEndpoint | null): string[] {
+    if (!endpoint) {
+      return [];
+    }
+    const ports = new Set(this.cabledPorts.get(endpoint.modelId));
+    if (endpoint.portName) {
+      ports.add(endpoint.portName);
+    }
+    return [...ports].sort();
+  }
+
+  setDevice(end: 'from' | 'to', modelId: string): void {
+    this[end] = modelId ? { modelId } : null;
+    this.activeIndex = 0;
+    this.update();
+  }
+
+  setPort(end: 'from' | 'to', portName: string): void {
+    const endpoint = this[end];
+    if (endpoint) {
+      this[end] = portName ? { modelId: endpoint.modelId, portName } : { modelId: endpoint.modelId };
+      this.activeIndex = 0;
+      this.update();
+    }
+  }
+
+  // The selected device or port becomes the endpoint; a selected cable can't be one
+  useSelection(end: 'from' | 'to'): void {
+    const selected = this.topologyStateService.getSelectedObjectValue();
+    if (selected && selected.objectType !== 'cable') {
+      this[end] = toEndpoint(selected);
+      this.activeIndex = 0;
+      this.update();
+    }
+  }
+
+  swap(): void {
+    [this.from, this.to] = [this.to, this.from];
+    this.activeIndex = 0;
+    this.update();
+  }
+
+  showPath(index: number): void {
+    this.activeIndex = index;
+    this.update();
+  }
+
+  showHop(modelId: string): void {
+    this.topologyStateService.setSelectedObject(modelId, modelId, 'device');
+    this.threeSceneService.focusOnModel(modelId);
+  }
+
+  showCable(cableId: string): void {
+    const cable = this.layout?.connections.find(c => c.id === cableId);
+    if (cable) {
+      this.topologyStateService.setSelectedObject(cable.source.modelId, cable.id, 'cable');
+    }
+  }
+
+  deviceLabel(modelId: string): string {
+    const model = this.layout?.models.find(m => m.id === modelId);
+    return model ? this.modelLabel(model) : modelId;
+  }
+
+  portLabel(portName: string): string {
+    return getPortBaseName(portName);
+  }
+
+  private modelLabel(model: ModelInstance): string {
+    return model.displayName || model.id;
+  }
+
+  private update(): void {
+    this.paths = this.layout && this.from && this.to ? this.topologyGraph.findPaths(this.layout, this.from, this.to, MAX_PATHS) : [];
+    this.activeIndex = Math.min(this.activeIndex, Math.max(this.paths.length - 1, 0));
+
+    const path = this.activePath;
+    const key = path ? path.cableIds.join('\u0000') : '';
+    if (key === this.appliedPath) {
+      return;
+    }
+    this.appliedPath = key;
+    if (!path) {
+      this.threeSceneService.setSceneFilter(null);
+      this.threeSceneService.setPathHighlights([]);
+      return;
+    }
+    this.threeSceneService.setSceneFilter({ modelIds: path.hops.map(hop => hop.modelId), cableIds: path.cableIds, mode: 'dim' });
+    const targets: SceneHighlightTarget[] = path.cableIds.map(cableId => ({ cableId }));
+    path.hops.forEach(hop => [hop.inPort, hop.outPort].forEach(portName => {
+      if (portName) {
+        targets.push({ modelId: hop.modelId, portName });
+      }
+    }));
+    this.threeSceneService.setPathHighlights(targets);
+  }
+}
+
+function toEndpoint(item: SelectedObjectInfo): PathEndpoint {
+  return item.objectType === 'port' ? { modelId: item.modelId, portName: item.objectName } : { modelId: item.modelId };
+}
@@ -0,0 +1,31 @@
+import { Component } from '@angular/core';
+import { Observable } from 'rxjs';
+import { PortStatusStyle, PortStatusThemeService } from '../../services/port-status-theme.service';
+import { describeBlinkPattern } from '../../services/blink-patterns';
+
+/**
+ * On-screen legend of the port statuses in the current theme. Place it inside the element
+ * that wraps the canvas (positioned relative); it sits in the bottom-left corner.
+ */
+@Component({
+  selector: 'app-port-status-legend',
+  standalone: false,
+  templateUrl: './port-status-legend.component.html',
+  styleUrls: ['./port-status-legend.component.scss']
+})
+export class PortStatusLegendComponent {
+  readonly styles$: Observable<PortStatusStyle[]>;
+  expanded = true;
+
+  constructor(portStatusTheme: PortStatusThemeService) {
+    this.styles$ = portStatusTheme.styles$;
+  }
+
+  describePattern(style: PortStatusStyle): string {
+    return describeBlinkPattern(style.blinkPattern);
+  }
+
+  toggle(): void {
+    this.expanded = !this.expanded;
+  }
+}
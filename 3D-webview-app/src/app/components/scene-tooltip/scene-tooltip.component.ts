@@ -0,0 +1,93 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { Subscription, combineLatest } from 'rxjs';
+import { startWith } from 'rxjs/operators';
+import { HoveredObjectInfo, ThreeSceneService } from '../../services/tree-scene.service';
+import { CableConnection, ModelInstance, PortState, TopologyLayout, TopologyStateService } from '../../services/topology-state.service';
+import { PortStatusStyle, PortStatusThemeService } from '../../services/port-status-theme.service';
+import { describeBlinkPattern } from '../../services/blink-patterns';
+import { getPortBaseName } from '../../services/port-naming';
+
+// What the tooltip shows for the device, port or cable under the pointer
+interface TooltipContent {
+  x: number;
+  y: number;
+  title: string;
+  model?: ModelInstance;
+  port?: PortState;
+  portStyle?: PortStatusStyle;
+  blinkDescription?: string; // Set when the port is blinking
+  cableEnds?: string[]; // 'Device name Port01' for source and target
+}
+
+/**
+ * Tooltip for the device, port or cable under the pointer. Place it inside the element that
+ * wraps the canvas (positioned relative, with the canvas at its top-left corner).
+ */
+@Component({
+  selector: 'app-scene-tooltip',
+  standalone: false,
+  templateUrl: './scene-tooltip.component.html',
+  styleUrls: ['./scene-tooltip.component.scss']
+})
+export class SceneTooltipComponent implements OnInit, OnDestroy {
+  content: TooltipContent | null = null;
+  private subscriptions: Subscription = new Subscription();
+
+  constructor(
+    private threeSceneService: ThreeSceneService,
+    private topologyStateService: TopologyStateService,
+    private portStatusTheme: PortStatusThemeService
+  ) { }
+
+  ngOnInit(): void {
+    this.subscriptions.add(
+      combineLatest([
+        this.threeSceneService.onObjectHovered.pipe(startWith(null)),
+        this.topologyStateService.currentTopology$
+      ]).subscribe(([hovered, topology]) => {
+        this.content = hovered ? this.buildContent(hovered, topology) : null;
+      })
+    );
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.unsubscribe();
+  }
+
+  private buildContent(hovered: HoveredObjectInfo, topology: TopologyLayout | null): TooltipContent {
+    if (hovered.objectType === 'cable') {
+      const cable = topology?.connections.find(c => c.id === hovered.objectName);
+      const describeEnd = (end: CableConnection['source']) => {
+        const device = topology?.models.find(m => m.id === end.modelId);
+        return `${device?.displayName || end.modelId} ${getPortBaseName(end.portAttachName)}`;
+      };
+      return {
+        x: hovered.canvasX,
+        y: hovered.canvasY,
+        title: `Cable ${hovered.objectName}`,
+        cableEnds: cable ? [describeEnd(cable.source), describeEnd(cable.target)] : undefined
+      };
+    }
+    const model = topology?.models.find(m => m.id === hovered.modelId);
+    if (hovered.objectType === 'port') {
+      const port = model?.ports.find(p => p.name === hovered.objectName);
+      const portStyle = port && this.portStatusTheme.getStyle(port.status);
+      const blinking = port && portStyle && this.portStatusTheme.shouldBlink(portStyle, port.blinking);
+      return {
+        x: hovered.canvasX,
+        y: hovered.canvasY,
+        title: hovered.objectName,
+        model,
+        port,
+        portStyle,
+        blinkDescription: blinking ? describeBlinkPattern(port.blinkPattern ?? portStyle.blinkPattern) : undefined
+      };
+    }
+    return {
+      x: hovered.canvasX,
+      y: hovered.canvasY,
+      title: model?.displayName || hovered.modelId,
+      model
+    };
+  }
+}
@@ -0,0 +1,122 @@
+import { AfterViewInit, Component, ElementRef, EventEmitter, OnDestroy, OnInit, Output, ViewChild } from '@angular/core';
+import { Observable, Subscription } from 'rxjs';
+import { SceneFilterMode, ThreeSceneService } from '../../services/tree-scene.service';
+import { TopologyLayout, TopologyStateService } from '../../services/topology-state.service';
+import { PortStatusStyle, PortStatusThemeService } from '../../services/port-status-theme.service';
+import { EMPTY_SEARCH_QUERY, TopologySearchMatch, TopologySearchQuery, isEmptySearchQuery, searchTopology } from '../../services/topology-search';
+import { getPortBaseName } from '../../services/port-naming';
+
+const MAX_LISTED_MATCHES = 100; // The scene filter still covers every match
+const MAX_LISTED_PORTS = 8; // Per match
+
+/**
+ * Finds devices by id, name, model or port name, optionally only those with ports in given statuses.
+ * While a search is active, everything else is dimmed or hidden in the scene (until the panel closes).
+ * Clicking a match selects and focuses the device, clicking one of its ports selects the port.
+ */
+@Component({
+  selector: 'app-search-panel',
+  standalone: false,
+  templateUrl: './search-panel.component.html',
+  styleUrls: ['./search-panel.component.scss']
+})
+export class SearchPanelComponent implements OnInit, AfterViewInit, OnDestroy {
+  @Output() closed = new EventEmitter<void>();
+  @ViewChild('searchInput') private searchInput?: ElementRef<HTMLInputElement>;
+
+  readonly styles$: Observable<PortStatusStyle[]>;
+  readonly maxListedMatches = MAX_LISTED_MATCHES;
+  readonly maxListedPorts = MAX_LISTED_PORTS;
+
+  query: TopologySearchQuery = EMPTY_SEARCH_QUERY;
+  filterMode: SceneFilterMode | 'off' = 'dim';
+  matches: TopologySearchMatch[] = [];
+  deviceCount = 0;
+
+  private layout: TopologyLayout | null = null;
+  private appliedFilter = ''; // Key of the filter last sent to the scene, so status updates don't redo it
+  private subscriptions: Subscription = new Subscription();
+
+  constructor(
+    private threeSceneService: ThreeSceneService,
+    private topologyStateService: TopologyStateService,
+    portStatusTheme: PortStatusThemeService
+  ) {
+    this.styles$ = portStatusTheme.styles$;
+  }
+
+  ngOnInit(): void {
+    // Port statuses change with live updates, so matches are kept current
+    this.subscriptions.add(
+      this.topologyStateService.displayedTopology$.subscribe(topology => {
+        this.layout = topology;
+        this.deviceCount = topology?.models.length ?? 0;
+        this.update();
+      })
+    );
+  }
+
+  ngAfterViewInit(): void {
+    this.searchInput?.nativeElement.focus();
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.unsubscribe();
+    this.threeSceneService.setSceneFilter(null);
+  }
+
+  get isSearching(): boolean {
+    return !isEmptySearchQuery(this.query);
+  }
+
+  setText(text: string): void {
+    this.query = { ...this.query, text };
+    this.update();
+  }
+
+  toggleStatus(status: string): void {
+    const portStatuses = this.query.portStatuses.includes(status)
+      ? this.query.portStatuses.filter(s => s !== status)
+      : [...this.query.portStatuses, status];
+    this.query = { ...this.query, portStatuses };
+    this.update();
+  }
+
+  setFilterMode(mode: SceneFilterMode | 'off'): void {
+    this.filterMode = mode;
+    this.update();
+  }
+
+  clear(): void {
+    this.query = EMPTY_SEARCH_QUERY;
+    this.update();
+    this.searchInput?.nativeElement.focus();
+  }
+
+  showMatch(match: TopologySearchMatch): void {
+    this.topologyStateService.setSelectedObject(match.modelId, match.modelId, 'device');
+    this.threeSceneService.focusOnModel(match.modelId);
+  }
+
+  showPort(match: TopologySearchMatch, portName: string, event: Event): void {
+    event.stopPropagation();
+    this.topologyStateService.setSelectedObject(match.modelId, portName, 'port');
+    this.threeSceneService.focusOnModel(match.modelId);
+  }
+
+  portLabel(portName: string): string {
+    return getPortBaseName(portName);
+  }
+
+  private update(): void {
+    this.matches = this.layout && this.isSearching ? searchTopology(this.layout, this.query) : [];
+    const filter = this.layout && this.isSearching && this.filterMode !== 'off'
+      ? { modelIds: this.matches.map(match => match.modelId), mode: this.filterMode }
+      : null;
+    const key = filter ? `${filter.mode}:${filter.modelIds.join('\u0000')}` : '';
+    if (key !== this.appliedFilter) {
+      this.appliedFilter = key;
+      this.threeSceneService.setSceneFilter(filter);
+    }
+  }
+}
@@ -0,0 +1,57 @@
+import { Component, EventEmitter, OnDestroy, OnInit, Output } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { ThreeSceneService } from '../../services/tree-scene.service';
+import { TopologyStateService } from '../../services/topology-state.service';
+import { ValidationIssue, ValidationReport } from '../../services/topology-validator.service';
+
+/**
+ * Lists the issues of the latest validation report and outlines them in the scene while open.
+ * Clicking an issue selects and focuses the device it is about.
+ */
+@Component({
+  selector: 'app-validation-report',
+  standalone: false,
+  templateUrl: './validation-report.component.html',
+  styleUrls: ['./validation-report.component.scss']
+})
+export class ValidationReportComponent implements OnInit, OnDestroy {
+  @Output() closed = new EventEmitter<void>();
+
+  report: ValidationReport | null = null;
+  private subscriptions: Subscription = new Subscription();
+
+  constructor(
+    private threeSceneService: ThreeSceneService,
+    private topologyStateService: TopologyStateService
+  ) { }
+
+  ngOnInit(): void {
+    this.subscriptions.add(
+      this.topologyStateService.validationReport$.subscribe(report => {
+        this.report = report;
+        this.threeSceneService.setIssueHighlights(report?.issues ?? []);
+      })
+    );
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.unsubscribe();
+    this.threeSceneService.setIssueHighlights([]);
+  }
+
+  revalidate(): void {
+    this.topologyStateService.validateCurrentTopology();
+  }
+
+  showIssue(issue: ValidationIssue): void {
+    if (!issue.modelId) {
+      return;
+    }
+    if (issue.portName) {
+      this.topologyStateService.setSelectedObject(issue.modelId, issue.portName, 'port');
+    } else {
+      this.topologyStateService.setSelectedObject(issue.modelId, issue.modelId, 'device');
+    }
+    this.threeSceneService.focusOnModel(issue.modelId);
+  }
+}
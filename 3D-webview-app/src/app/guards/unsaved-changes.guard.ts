@@ -0,0 +1,11 @@
+import { inject } from '@angular/core';
+import { CanDeactivateFn } from '@angular/router';
+import { TopologyStateService } from '../services/topology-state.service';
+
+/**
+ * Asks for confirmation before leaving a page while the topology has unsaved edits.
+ */
+export const unsavedChangesGuard: CanDeactivateFn<unknown> = () => {
+    const topologyStateService = inject(TopologyStateService);
+    return !topologyStateService.isDirty() || window.confirm('The topology has unsaved changes. Leave anyway?');
+};
@@ -1,7 +1,24 @@
-import { Component, ElementRef, OnInit, OnDestroy, ViewChild, NgZone } from '@angular/core';
-import { ThreeSceneService } from '../../services/tree-scene.service'; // Make sure path is correct
-import { TopologyStateService, ModelInstance } from '../../services/topology-state.service'; // Adjust path & import ModelInstance
-import { Subscription } from 'rxjs';
+import { Component, ElementRef, HostListener, OnInit, OnDestroy, ViewChild } from '@angular/core';
+import { ActivatedRoute } from '@angular/router';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { CameraViewPreset, SceneObjectInfo, ThreeSceneService, TransformGizmoMode } from '../../services/tree-scene.service'; // Make sure path is correct
+import { TopologyStateService, ModelInstance, Viewpoint, RackDefinition, RackInstance, TopologyEditError, PortRef, SaveStatus, Vector3D } from '../../services/topology-state.service'; // Adjust path & import ModelInstance
+import { TopologySceneReconcilerService } from '../../services/topology-scene-reconciler.service';
+import { LiveStatusFeedService } from '../../services/live-status-feed.service';
+import { TopologyFileService } from '../../services/topology-file.service';
+import { TOPOLOGY_SCHEMA_VERSION, TopologyFileError } from '../../services/topology-file-format';
+import { NetworkImportService } from '../../services/network-import.service';
+import { NetworkImportError } from '../../services/network-importers';
+import { NetworkImportReport } from '../../services/network-mapping';
+import { downloadBlob, toSafeFileName } from '../../services/file-download';
+import { ModelCatalogService } from '../../services/model-catalog.service';
+import { MODEL_DEFINITION_DRAG_TYPE } from '../../components/model-palette/model-palette.component';
+import { LayoutStrategy } from '../../services/layout-strategies';
+import { indicatorToAttachName } from '../../services/port-naming';
+import { PortStatusStyle, PortStatusThemeService } from '../../services/port-status-theme.service';
+import { Observable, Subscription } from 'rxjs';
+
+const DEFAULT_LAYOUT_ID = 'default'; // Loaded when the URL doesn't name one (?layout=<id>)
 
 @Component({
   selector: 'app-topology-viewer',
@@ -13,67 +30,164 @@ export class TopologyViewerComponent implements OnInit, OnDestroy {
   @ViewChild('threeCanvas', { static: true }) private canvasRef!: ElementRef<HTMLCanvasElement>;
   private subscriptions: Subscription = new Subscription();
 
+  viewpoints: Viewpoint[] = [];
+  instancedRendering = false; // Draw identical chassis with GPU instancing; pays off with many devices of one model
+
+  // Edit mode (transform gizmo)
+  editMode = false;
+  transformMode: TransformGizmoMode = 'translate';
+  snapToGrid = true;
+  readonly gridStep = 0.05; // Scene units
+  readonly rotationStepDegrees = 15;
+
+  // Connect mode: click a source port, then a target port
+  connectMode = false;
+  connectSource: PortRef | null = null;
+
+  // Selection; the inspector is open while something is selected
+  hasSelection = false;
+  selectionCount = 0;
+  selectedDeviceCount = 0; // Devices selected themselves or through one of their ports
+  boxSelectMode = false; // Dragging on the scene draws a selection rectangle instead of orbiting
+  selectionBox: { left: number, top: number, width: number, height: number } | null = null; // Relative to the scene area
+  private boxStart: { clientX: number, clientY: number } | null = null;
+  readonly portStatusStyles$: Observable<PortStatusStyle[]>;
+
+  // Left-hand panels; one at a time
+  showPalette = false;
+  showSearch = false;
+  showPathTrace = false;
+
+  // Racks
+  racks: RackInstance[] = [];
+  selectedModelMounted = false; // Whether the selected device sits in a rack, i.e. can be unmounted
+  readonly rackDefinitions: RackDefinition[];
+  showFreeSlots = false;
+
+  // Saving
+  isDirty = false;
+  saveStatus: SaveStatus = { state: 'idle' };
+  autosave = false;
+
+  // Import / export
+  fileDragOver = false; // A file is being dragged over the canvas
+  importReport: NetworkImportReport | null = null; // Of the last LLDP/DOT/NetBox import, until closed
+  snapshotTransparent = false;
+  snapshotLabels = true;
+  exporting = false;
+
+  // Undo / redo
+  canUndo = false;
+  canRedo = false;
+
+  // Validation
+  showValidation = false;
+  validationErrorCount = 0;
+
+  // Automatic layout
+  previewingLayout = false;
+  readonly layoutStrategies: { strategy: LayoutStrategy, label: string }[] = [
+    { strategy: 'grid-by-model', label: 'Grid by model' },
+    { strategy: 'rows-by-room', label: 'Rows by rack / room' },
+    { strategy: 'force-directed', label: 'By connections' }
+  ];
+
+  // Model or viewpoint to jump to once the topology is in the scene (e.g. ?focus=<modelId> from an alert link)
+  private pendingFocusModelId: string | null = null;
+  private pendingViewpointName: string | null = null;
+
   constructor(
-    private ngZone: NgZone,
+    private route: ActivatedRoute,
+    private snackBar: MatSnackBar,
     private threeSceneService: ThreeSceneService,
-    private topologyStateService: TopologyStateService
-  ) { }
+    private topologyStateService: TopologyStateService,
+    private sceneReconciler: TopologySceneReconcilerService,
+    private liveStatusFeed: LiveStatusFeedService,
+    private topologyFile: TopologyFileService,
+    private networkImport: NetworkImportService,
+    private modelCatalog: ModelCatalogService,
+    portStatusTheme: PortStatusThemeService
+  ) {
+    this.rackDefinitions = this.topologyStateService.getRackDefinitions();
+    this.portStatusStyles$ = portStatusTheme.styles$;
+  }
 
   ngOnInit(): void {
     this.threeSceneService.initScene(this.canvasRef.nativeElement);
-    this.startRenderingLoop();
+    this.threeSceneService.startRenderLoop();
+
+    // Keep a layout that is already loaded (e.g. coming back from another page) instead of reloading it
+    const layoutId = this.route.snapshot.queryParamMap.get('layout') ?? DEFAULT_LAYOUT_ID;
+    if (this.topologyStateService.getCurrentTopologyValue()?.id !== layoutId) {
+      this.topologyStateService.loadTopology(layoutId);
+    }
 
-    // Example: Load initial models from state
     this.subscriptions.add(
-      this.topologyStateService.currentTopology$.subscribe(topology => { // CORRECTED
-        // Clear existing models if necessary (or let ThreeSceneService handle updates smartly)
-        // this.threeSceneService.clearScene();
-        if (topology && topology.models) {
-          // Before adding, you might want to clear existing models from ThreeSceneService
-          // to prevent duplicates if this subscription re-fires with the same topology
-          // (e.g., after a save operation that returns the same data).
-          // This depends on how ThreeSceneService handles addModelToScene if model already exists.
-          // For simplicity now, we'll assume ThreeSceneService addModelToScene handles duplicates or you manage clearing.
-
-          topology.models.forEach(modelData => {
-            this.threeSceneService.addModelToScene(
-              modelData.assetUrl,
-              modelData.id,
-              modelData.position,
-              modelData.rotation
-            ).then(() => {
-              if (modelData.ports) {
-                modelData.ports.forEach(portData => {
-                  this.threeSceneService.setPortState(
-                    modelData.id,
-                    portData.name,
-                    portData.status,
-                    portData.blinking
-                  );
-                });
-              }
-            });
-          });
-        }
-        // TODO: Load cables based on topology.connections
-        // if (topology && topology.connections) {
-        //     topology.connections.forEach(conn => {
-        //         this.threeSceneService.connectCable(
-        //             conn.cableModelUrl || 'path/to/default/cable.glb', // Provide a default if undefined
-        //             conn.id,
-        //             conn.source,
-        //             conn.target
-        //         );
-        //     });
-        // }
+      this.route.queryParamMap.subscribe(params => {
+        this.pendingFocusModelId = params.get('focus');
+        this.pendingViewpointName = params.get('viewpoint');
+        this.applyPendingNavigation();
+      })
+    );
+
+    this.subscriptions.add(
+      this.topologyStateService.currentTopology$.subscribe(topology => {
+        this.viewpoints = topology?.viewpoints ?? [];
+        this.racks = topology?.racks ?? [];
+        this.updateSelectedModelMounted();
       })
     );
 
+    // Keep the scene in sync with every topology change (load, edit, save, reload, layout preview)
+    this.subscriptions.add(
+      this.topologyStateService.displayedTopology$.subscribe(topology => {
+        this.sceneReconciler.reconcile(topology).then(() => this.applyPendingNavigation());
+      })
+    );
+    this.subscriptions.add(this.topologyStateService.isDirty$.subscribe(isDirty => this.isDirty = isDirty));
+    this.subscriptions.add(this.topologyStateService.autosaveEnabled$.subscribe(enabled => this.autosave = enabled));
+    this.subscriptions.add(
+      this.topologyStateService.saveStatus$.subscribe(status => {
+        this.saveStatus = status;
+        this.reportSaveStatus(status);
+      })
+    );
+    this.subscriptions.add(this.topologyStateService.canUndo$.subscribe(canUndo => this.canUndo = canUndo));
+    this.subscriptions.add(this.topologyStateService.canRedo$.subscribe(canRedo => this.canRedo = canRedo));
+    this.subscriptions.add(
+      this.topologyStateService.validationReport$.subscribe(report => this.validationErrorCount = report?.errorCount ?? 0)
+    );
+    this.subscriptions.add(
+      this.topologyStateService.isPreviewingLayout$.subscribe(previewing => this.previewingLayout = previewing)
+    );
+
+    // Outline whatever is selected, whether it was picked in the scene or elsewhere in the UI
+    this.subscriptions.add(
+      this.topologyStateService.selection$.subscribe(selection => {
+        this.threeSceneService.setSelectedObjects(selection);
+        this.hasSelection = selection.length > 0;
+        this.selectionCount = selection.length;
+        this.selectedDeviceCount = this.getSelectedModelIds().length;
+        this.updateSelectedModelMounted();
+      })
+    );
+
+    // Write gizmo moves back to the topology (one undo step for all selected devices); the reconciler then keeps the scene in sync
+    this.subscriptions.add(
+      this.threeSceneService.onModelsTransformed.subscribe(transforms => {
+        this.topologyStateService.updateModelTransforms(transforms);
+      })
+    );
+    this.applySnapSettings();
+
     // Listen for model selection from ThreeSceneService (e.g., via raycast)
     this.subscriptions.add(
       this.threeSceneService.onObjectSelected.subscribe(selected => {
-        if (selected) {
-          console.log('Selected in 3D:', selected.modelId, selected.objectName, selected.objectType);
+        if (this.connectMode) {
+          this.onConnectPick(selected);
+        } else if (selected?.additive) {
+          this.topologyStateService.toggleSelectedObject(selected.modelId, selected.objectName, selected.objectType);
+        } else if (selected) {
           this.topologyStateService.setSelectedObject(
             selected.modelId,
             selected.objectName,
@@ -84,49 +198,575 @@ export class TopologyViewerComponent implements OnInit, OnDestroy {
     );
   }
 
-  startRenderingLoop(): void {
-    this.ngZone.runOutsideAngular(() => {
-      const animate = () => {
-        requestAnimationFrame(animate);
-        this.threeSceneService.updateScene();
-        this.threeSceneService.render();
-      };
-      animate();
-    });
-  }
-
   ngOnDestroy(): void {
     this.subscriptions.unsubscribe();
+    this.liveStatusFeed.disconnect();
+    this.sceneReconciler.reset();
     this.threeSceneService.dispose();
   }
 
-  addSwitch(): void {
-    const modelDefinitionId = 'Switch_ModelA'; // Or get this from some UI selection
-    this.topologyStateService.getModelDefinition(modelDefinitionId).subscribe(def => {
-      if (def && def.assetUrl) { // Make sure assetUrl is present
-        const newModelId = `switch_instance_${Date.now()}`;
-        const newSwitch: ModelInstance = {
-          id: newModelId,
-          modelDefinitionId: modelDefinitionId,
-          assetUrl: def.assetUrl,
-          displayName: 'New Switch ' + newModelId.substring(newModelId.length - 5),
-          position: { x: Math.random() * 6 - 3, y: 0, z: Math.random() * 6 - 3 },
-          rotation: { x: 0, y: 0, z: 0 },
-          ports: def.ports || [] // Use default ports from definition or an empty array
-        };
-        this.topologyStateService.addModelInstance(newSwitch); // CORRECTED
+  // --- Editing ---
+  toggleEditMode(): void {
+    this.editMode = !this.editMode;
+    this.threeSceneService.setEditMode(this.editMode);
+  }
+
+  setTransformMode(mode: TransformGizmoMode): void {
+    this.transformMode = mode;
+    this.threeSceneService.setTransformMode(mode);
+  }
+
+  toggleSnapToGrid(): void {
+    this.snapToGrid = !this.snapToGrid;
+    this.applySnapSettings();
+  }
+
+  private applySnapSettings(): void {
+    this.threeSceneService.setTransformSnap({
+      translation: this.snapToGrid ? this.gridStep : null,
+      rotationDegrees: this.snapToGrid ? this.rotationStepDegrees : null
+    });
+  }
+
+  // --- Panels ---
+  togglePalette(): void {
+    this.showPalette = !this.showPalette;
+    this.showSearch = false;
+    this.showPathTrace = false;
+  }
+
+  toggleSearch(): void {
+    this.showSearch = !this.showSearch;
+    this.showPalette = false;
+    this.showPathTrace = false;
+  }
+
+  @HostListener('document:keydown.control.f', ['$event'])
+  openSearch(event: Event): void {
+    event.preventDefault(); // Instead of the browser's find, which can't see into the scene
+    this.showSearch = true;
+    this.showPalette = false;
+    this.showPathTrace = false;
+  }
+
+  // Both the search and the path trace dim the scene, so only one of them is open at a time
+  togglePathTrace(): void {
+    this.showPathTrace = !this.showPathTrace;
+    this.showPalette = false;
+    this.showSearch = false;
+  }
+
+  // --- Cables ---
+  toggleConnectMode(): void {
+    this.connectMode = !this.connectMode;
+    this.cancelConnect();
+  }
+
+  @HostListener('document:keydown.escape')
+  cancelConnect(): void {
+    this.connectSource = null;
+    this.threeSceneService.stopCablePreview();
+  }
+
+  private onConnectPick(picked: SceneObjectInfo): void {
+    if (picked.objectType !== 'port') {
+      this.snackBar.open('Click a port to connect.', 'OK', { duration: 3000 });
+      return;
+    }
+    const port: PortRef = { modelId: picked.modelId, portName: picked.objectName };
+    if (!this.threeSceneService.hasAttachPoint(port.modelId, indicatorToAttachName(port.portName))) {
+      this.snackBar.open(`Port ${port.portName} has no cable attach point.`, 'OK', { duration: 5000 });
+      return;
+    }
+    if (!this.connectSource) {
+      this.connectSource = port;
+      this.threeSceneService.startCablePreview({ modelId: port.modelId, portAttachName: indicatorToAttachName(port.portName) });
+      return;
+    }
+    const source = this.connectSource;
+    this.runEdit(() => {
+      this.topologyStateService.connectPorts(source, port);
+      this.cancelConnect(); // Only on success, so the user can pick another target after an error
+    });
+  }
+
+  // --- Racks ---
+  addRack(definition: RackDefinition): void {
+    const rackNumber = this.racks.length + 1;
+    // Line new racks up side by side along X
+    const rack: RackInstance = {
+      id: `rack_${Date.now()}`,
+      rackDefinitionId: definition.id,
+      displayName: `Rack ${rackNumber}`,
+      position: { x: this.racks.length * (definition.width + 0.1), y: 0, z: 0 },
+      rotation: { x: 0, y: 0, z: 0 }
+    };
+    this.runEdit(() => this.topologyStateService.addRack(rack));
+  }
+
+  toggleFreeSlots(): void {
+    this.showFreeSlots = !this.showFreeSlots;
+    this.threeSceneService.setFreeSlotMarkersVisible(this.showFreeSlots);
+  }
+
+  mountSelectedModel(rack: RackInstance): void {
+    const modelId = this.getSelectedModelId();
+    if (!modelId) {
+      this.snackBar.open('Select a device to mount first.', 'OK', { duration: 3000 });
+      return;
+    }
+    const answer = window.prompt(`Mount ${modelId} in ${rack.displayName || rack.id} at U:`);
+    if (answer === null || answer.trim() === '') {
+      return;
+    }
+    this.runEdit(() => this.topologyStateService.mountModel(modelId, rack.id, Number(answer)));
+  }
+
+  unmountSelectedModel(): void {
+    const modelId = this.getSelectedModelId();
+    if (modelId) {
+      this.topologyStateService.unmountModel(modelId);
+    }
+  }
+
+  private updateSelectedModelMounted(): void {
+    const modelId = this.getSelectedModelId();
+    const model = this.topologyStateService.getCurrentTopologyValue()?.models.find(m => m.id === modelId);
+    this.selectedModelMounted = !!model?.mount;
+  }
+
+  // --- Saving ---
+  save(): void {
+    this.topologyStateService.saveCurrentTopology();
+  }
+
+  toggleAutosave(): void {
+    this.topologyStateService.setAutosave(!this.autosave);
+  }
+
+  get saveLabel(): string {
+    switch (this.saveStatus.state) {
+      case 'saving': return 'Saving…';
+      case 'conflict': return 'Conflict';
+      case 'invalid':
+      case 'error': return 'Not saved';
+      default: return this.isDirty ? 'Save' : 'Saved';
+    }
+  }
+
+  private reportSaveStatus(status: SaveStatus): void {
+    if (status.state === 'conflict') {
+      this.snackBar.open(status.message!, 'Overwrite', { duration: 10000 })
+        .onAction().subscribe(() => this.topologyStateService.saveCurrentTopology({ overwrite: true }));
+    } else if (status.state === 'invalid') {
+      this.snackBar.open(status.message!, 'Show issues', { duration: 5000 })
+        .onAction().subscribe(() => this.showValidation = true);
+    } else if (status.state === 'error') {
+      this.snackBar.open(status.message!, 'OK', { duration: 5000 });
+    }
+  }
+
+  // --- Import / export ---
+  exportTopology(): void {
+    const topology = this.topologyStateService.getCurrentTopologyValue();
+    if (topology) {
+      this.topologyFile.exportToFile(topology);
+    }
+  }
+
+  async exportSnapshot(scale: number): Promise<void> {
+    const topology = this.topologyStateService.getCurrentTopologyValue();
+    const labels = this.snapshotLabels
+      ? Object.fromEntries((topology?.models ?? []).map(model => [model.id, model.displayName || model.id]))
+      : undefined;
+    await this.runExport(
+      () => this.threeSceneService.captureSnapshot({ scale, transparent: this.snapshotTransparent, labels }),
+      'png'
+    );
+  }
+
+  async exportGlb(): Promise<void> {
+    await this.runExport(() => this.threeSceneService.exportGlb(), 'glb');
+  }
+
+  private async runExport(create: () => Promise<Blob>, extension: string): Promise<void> {
+    this.exporting = true;
+    try {
+      const blob = await create();
+      const id = this.topologyStateService.getCurrentTopologyValue()?.id ?? 'topology';
+      const timestamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+      downloadBlob(blob, `${toSafeFileName(id)}-${timestamp}.${extension}`);
+    } catch (error) {
+      console.error(`Could not export the scene as ${extension}:`, error);
+      this.snackBar.open(`Export failed: ${(error as Error).message}`, 'OK', { duration: 5000 });
+    } finally {
+      this.exporting = false;
+    }
+  }
+
+  onImportFileChosen(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = ''; // So picking the same file again still triggers a change
+    if (file) {
+      this.importFile(file);
+    }
+  }
+
+  onSceneDragOver(event: DragEvent): void {
+    if (event.dataTransfer?.types.includes(MODEL_DEFINITION_DRAG_TYPE)) {
+      event.preventDefault(); // A device from the palette
+      event.dataTransfer.dropEffect = 'copy';
+    } else if (event.dataTransfer?.types.includes('Files')) {
+      event.preventDefault(); // Allows the drop
+      event.dataTransfer.dropEffect = 'copy';
+      this.fileDragOver = true;
+    }
+  }
+
+  onSceneDrop(event: DragEvent): void {
+    this.fileDragOver = false;
+    const modelDefinitionId = event.dataTransfer?.getData(MODEL_DEFINITION_DRAG_TYPE);
+    if (modelDefinitionId) {
+      event.preventDefault();
+      this.addModel(modelDefinitionId, this.threeSceneService.getFloorPoint(event.clientX, event.clientY) ?? undefined);
+      return;
+    }
+    const file = event.dataTransfer?.files[0];
+    if (file) {
+      event.preventDefault(); // Otherwise the browser opens the file
+      this.importFile(file);
+    }
+  }
+
+  // Reports every failure itself, so callers don't need to await it
+  private async importFile(file: File): Promise<void> {
+    if (this.isDirty && !window.confirm('The topology has unsaved changes. Replace it with the imported file anyway?')) {
+      return;
+    }
+    try {
+      const text = await this.topologyFile.readText(file);
+      if (this.networkImport.canImport(file.name, text)) {
+        const { layout, report } = await this.networkImport.importText(file.name, text);
+        this.topologyStateService.importTopology(layout);
+        this.importReport = report;
+        return;
+      }
+      const { layout, schemaVersion } = this.topologyFile.parse(text);
+      this.topologyStateService.importTopology(layout);
+      this.importReport = null;
+      const upgraded = schemaVersion < TOPOLOGY_SCHEMA_VERSION ? ` (upgraded from schema version ${schemaVersion})` : '';
+      if (this.validationErrorCount > 0) {
+        this.snackBar.open(`Imported ${layout.name || layout.id}${upgraded} with ${this.validationErrorCount} validation error(s).`, 'Show issues', { duration: 8000 })
+          .onAction().subscribe(() => this.showValidation = true);
       } else {
-        console.error(`Could not find model definition or assetUrl for ${modelDefinitionId}`);
+        this.snackBar.open(`Imported ${layout.name || layout.id}${upgraded}.`, 'OK', { duration: 4000 });
       }
-    });
+    } catch (error) {
+      if (error instanceof TopologyFileError) {
+        console.warn(`Could not import ${file.name}:`, error.message, error.problems);
+        this.snackBar.open([error.message, ...error.problems.slice(0, 1)].join(' '), 'OK', { duration: 8000 });
+      } else if (error instanceof NetworkImportError) {
+        console.warn(`Could not import ${file.name}:`, error.message);
+        this.snackBar.open(error.message, 'OK', { duration: 8000 });
+      } else {
+        console.error(`Could not import ${file.name}:`, error);
+        this.snackBar.open(`Could not import ${file.name}: ${(error as Error).message}`, 'OK', { duration: 8000 });
+      }
+    }
   }
 
-  deleteSelectedModel(): void {
+  // Closing the tab or reloading bypasses the router guard
+  @HostListener('window:beforeunload', ['$event'])
+  onBeforeUnload(event: BeforeUnloadEvent): void {
+    if (this.isDirty) {
+      event.preventDefault();
+      event.returnValue = ''; // Still needed by some browsers to show the prompt
+    }
+  }
+
+  // --- Undo / redo ---
+  undo(): void {
+    this.topologyStateService.undo();
+  }
+
+  redo(): void {
+    this.topologyStateService.redo();
+  }
+
+  get undoTooltip(): string {
+    const label = this.topologyStateService.getUndoLabel();
+    return label ? `Undo ${label.toLowerCase()} (Ctrl+Z)` : 'Undo (Ctrl+Z)';
+  }
+
+  get redoTooltip(): string {
+    const label = this.topologyStateService.getRedoLabel();
+    return label ? `Redo ${label.toLowerCase()} (Ctrl+Shift+Z)` : 'Redo (Ctrl+Shift+Z)';
+  }
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), plus Ctrl+Y; left alone while typing in a field
+  @HostListener('document:keydown', ['$event'])
+  onKeyDown(event: KeyboardEvent): void {
+    const target = event.target as HTMLElement | null;
+    if (!(event.ctrlKey || event.metaKey) || target?.closest('input, textarea, [contenteditable="true"]')) {
+      return;
+    }
+    const key = event.key.toLowerCase();
+    if (key === 'z') {
+      event.preventDefault();
+      event.shiftKey ? this.redo() : this.undo();
+    } else if (key === 'y') {
+      event.preventDefault();
+      this.redo();
+    }
+  }
+
+  // --- Validation ---
+  validate(): void {
+    this.topologyStateService.validateCurrentTopology();
+    this.showValidation = true;
+  }
+
+  // --- Automatic layout ---
+  previewLayout(strategy: LayoutStrategy, selectedOnly: boolean): void {
+    const modelIds = selectedOnly ? this.getSelectedModelIds() : undefined;
+    if (modelIds?.length === 0) {
+      return; // The menu item is disabled without a selection
+    }
+    this.topologyStateService.previewLayout(strategy, modelIds);
+  }
+
+  acceptLayout(): void {
+    this.topologyStateService.acceptLayoutPreview();
+  }
+
+  discardLayout(): void {
+    this.topologyStateService.discardLayoutPreview();
+  }
+
+  // Shows rejected edits to the user instead of failing silently
+  private runEdit(edit: () => void): void {
+    try {
+      edit();
+    } catch (error) {
+      if (error instanceof TopologyEditError) {
+        this.snackBar.open(error.message, 'OK', { duration: 5000 });
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  // --- Camera navigation ---
+  frameAll(): void {
+    this.threeSceneService.frameAll();
+  }
+
+  setViewPreset(preset: CameraViewPreset): void {
+    this.threeSceneService.setViewPreset(preset);
+  }
+
+  focusSelectedModel(): void {
     const selected = this.topologyStateService.getSelectedObjectValue();
-    if (selected && selected.modelId) {
+    if (selected) {
+      this.threeSceneService.focusOnModel(selected.modelId);
+    }
+  }
+
+  goToViewpoint(viewpoint: Viewpoint): void {
+    this.threeSceneService.flyToView(viewpoint);
+  }
+
+  saveCurrentViewpoint(): void {
+    const name = window.prompt('Name for this viewpoint:')?.trim();
+    if (name) {
+      this.topologyStateService.saveViewpoint({ name, ...this.threeSceneService.getCameraView() });
+    }
+  }
+
+  deleteViewpoint(viewpoint: Viewpoint, event: MouseEvent): void {
+    event.stopPropagation(); // Don't also fly to it
+    this.topologyStateService.removeViewpoint(viewpoint.name);
+  }
+
+  toggleInstancedRendering(): void {
+    this.instancedRendering = !this.instancedRendering;
+    this.threeSceneService.setInstancedRendering(this.instancedRendering);
+  }
+
+  // Runs after every reconcile, so a link can target a model or viewpoint that is still loading
+  private applyPendingNavigation(): void {
+    if (this.pendingFocusModelId && this.threeSceneService.focusOnModel(this.pendingFocusModelId)) {
+      this.pendingFocusModelId = null;
+    }
+    const viewpoint = this.viewpoints.find(v => v.name === this.pendingViewpointName);
+    if (viewpoint) {
+      this.threeSceneService.flyToView(viewpoint);
+      this.pendingViewpointName = null;
+    }
+  }
+
+  // --- Adding devices ---
+  /**
+   * Adds a catalog device at `position`, or in the middle of the view, and selects it.
+   */
+  async addModel(modelDefinitionId: string, position?: Vector3D): Promise<void> {
+    const topology = this.topologyStateService.getCurrentTopologyValue();
+    if (!topology) {
+      return;
+    }
+    const rect = this.canvasRef.nativeElement.getBoundingClientRect();
+    const at = position ?? this.threeSceneService.getFloorPoint(rect.left + rect.width / 2, rect.top + rect.height / 2) ?? { x: 0, y: 0, z: 0 };
+    const snapped = this.snapToGrid
+      ? { x: Math.round(at.x / this.gridStep) * this.gridStep, y: at.y, z: Math.round(at.z / this.gridStep) * this.gridStep }
+      : at;
+    try {
+      const model = await this.modelCatalog.createInstance(modelDefinitionId, snapped, topology.models.map(m => m.id));
+      this.runEdit(() => {
+        this.topologyStateService.addModelInstance(model);
+        this.topologyStateService.setSelectedObject(model.id, model.id, 'device');
+      });
+    } catch (error) {
+      console.error(`Could not add a ${modelDefinitionId}:`, error);
+      this.snackBar.open(`Could not add ${this.modelCatalog.getDefinition(modelDefinitionId)?.name ?? modelDefinitionId}: its model file could not be loaded.`, 'OK', { duration: 5000 });
+    }
+  }
+
+  deleteSelectedModel(): void {
+    const modelId = this.getSelectedModelId();
+    if (modelId) {
       // It's generally safer to remove by modelId regardless of whether a port or device was clicked,
       // assuming the intent is to remove the whole device.
-      this.topologyStateService.removeModelInstance(selected.modelId); // CORRECTED
+      this.topologyStateService.removeModelInstance(modelId); // CORRECTED
+    }
+  }
+
+  // The selected device, or the device of the selected port; a selected cable doesn't count
+  private getSelectedModelId(): string | null {
+    const selected = this.topologyStateService.getSelectedObjectValue();
+    return selected && selected.objectType !== 'cable' ? selected.modelId : null;
+  }
+
+  // Every selected device and the devices of selected ports, without duplicates
+  private getSelectedModelIds(): string[] {
+    const modelIds = this.topologyStateService.getSelectionValue()
+      .filter(item => item.objectType !== 'cable')
+      .map(item => item.modelId);
+    return [...new Set(modelIds)];
+  }
+
+  // --- Selection ---
+  clearSelection(): void {
+    this.topologyStateService.clearSelectedObject();
+  }
+
+  toggleBoxSelectMode(): void {
+    this.boxSelectMode = !this.boxSelectMode;
+    this.selectionBox = null;
+    this.boxStart = null;
+  }
+
+  onBoxSelectStart(event: PointerEvent): void {
+    if (event.button !== 0) {
+      return;
+    }
+    (event.target as HTMLElement).setPointerCapture(event.pointerId);
+    this.boxStart = { clientX: event.clientX, clientY: event.clientY };
+    this.updateSelectionBox(event);
+  }
+
+  onBoxSelectMove(event: PointerEvent): void {
+    if (this.boxStart) {
+      this.updateSelectionBox(event);
+    }
+  }
+
+  // Selects the devices inside the rectangle; with Shift/Ctrl/Cmd they are added to the selection
+  onBoxSelectEnd(event: PointerEvent): void {
+    const start = this.boxStart;
+    this.boxStart = null;
+    this.selectionBox = null;
+    if (!start) {
+      return;
+    }
+    const modelIds = this.threeSceneService.getModelsInRect(
+      Math.min(start.clientX, event.clientX), Math.min(start.clientY, event.clientY),
+      Math.max(start.clientX, event.clientX), Math.max(start.clientY, event.clientY)
+    );
+    const items = modelIds.map(modelId => ({ modelId, objectName: modelId, objectType: 'device' as const }));
+    if (event.shiftKey || event.ctrlKey || event.metaKey) {
+      this.topologyStateService.addToSelection(items);
+    } else {
+      this.topologyStateService.setSelection(items);
+    }
+  }
+
+  private updateSelectionBox(event: PointerEvent): void {
+    const area = (event.currentTarget as HTMLElement).getBoundingClientRect();
+    const start = this.boxStart!;
+    this.selectionBox = {
+      left: Math.min(start.clientX, event.clientX) - area.left,
+      top: Math.min(start.clientY, event.clientY) - area.top,
+      width: Math.abs(event.clientX - start.clientX),
+      height: Math.abs(event.clientY - start.clientY)
+    };
+  }
+
+  /**
+   * Removes the selected devices (with their cables) and the selected cables, as one undo step.
+   */
+  deleteSelection(): void {
+    const selection = this.topologyStateService.getSelectionValue();
+    const modelIds = selection.filter(item => item.objectType === 'device').map(item => item.modelId);
+    const cableIds = selection.filter(item => item.objectType === 'cable').map(item => item.objectName);
+    if (modelIds.length === 0 && cableIds.length === 0) {
+      this.snackBar.open('Select devices or cables to delete (ports can\'t be deleted).', 'OK', { duration: 3000 });
+      return;
+    }
+    this.runEdit(() => this.topologyStateService.groupEdits('Delete selection', () => {
+      this.topologyStateService.removeCableConnections(cableIds);
+      this.topologyStateService.removeModelInstances(modelIds);
+    }));
+  }
+
+  setSelectedPortStatus(status: string): void {
+    const ports: PortRef[] = this.topologyStateService.getSelectionValue()
+      .filter(item => item.objectType === 'port')
+      .map(item => ({ modelId: item.modelId, portName: item.objectName }));
+    if (ports.length === 0) {
+      this.snackBar.open('Select ports first (Shift-click to select several).', 'OK', { duration: 3000 });
+      return;
+    }
+    this.topologyStateService.setPortStatuses(ports, status);
+  }
+
+  /**
+   * Disconnects the selected cables, the cables of the selected ports and every cable of the selected devices, as one undo step.
+   */
+  disconnectSelection(): void {
+    const topology = this.topologyStateService.getCurrentTopologyValue();
+    if (!topology) {
+      return;
+    }
+    const cableIds = new Set<string>();
+    this.topologyStateService.getSelectionValue().forEach(item => {
+      if (item.objectType === 'cable') {
+        cableIds.add(item.objectName);
+      } else if (item.objectType === 'port') {
+        const cable = this.topologyStateService.getCableAtPort({ modelId: item.modelId, portName: item.objectName });
+        if (cable) {
+          cableIds.add(cable.id);
+        }
+      } else {
+        topology.connections
+          .filter(c => c.source.modelId === item.modelId || c.target.modelId === item.modelId)
+          .forEach(c => cableIds.add(c.id));
+      }
+    });
+    if (cableIds.size === 0) {
+      this.snackBar.open('The selection has no cables.', 'OK', { duration: 3000 });
+      return;
     }
+    this.topologyStateService.removeCableConnections([...cableIds]);
   }
 }
\ No newline at end of file
@@ -0,0 +1,72 @@
+import {
+  BLINK_PATTERNS,
+  BlinkPatternName,
+  describeBlinkPattern,
+  isBlinkOn,
+  isSameBlinkPattern,
+  msUntilBlinkToggle,
+  resolveBlinkPattern
+} from './blink-patterns';
+
+describe('resolveBlinkPattern', () => {
+  it('uses the slow pattern by default', () => {
+    expect(resolveBlinkPattern(undefined)).toEqual([500, 500]);
+  });
+
+  it('looks up named patterns', () => {
+    expect(resolveBlinkPattern('heartbeat')).toEqual(BLINK_PATTERNS['heartbeat']);
+  });
+
+  it('falls back to the default for unknown names and unusable sequences', () => {
+    expect(resolveBlinkPattern('disco' as BlinkPatternName)).toEqual([500, 500]);
+    expect(resolveBlinkPattern([100])).toEqual([500, 500]);
+    expect(resolveBlinkPattern([100, 0])).toEqual([500, 500]);
+    expect(resolveBlinkPattern([100, NaN])).toEqual([500, 500]);
+  });
+
+  it('drops the dangling entry of an odd-length sequence', () => {
+    expect(resolveBlinkPattern([100, 200, 300])).toEqual([100, 200]);
+    expect(resolveBlinkPattern([100, 200])).toEqual([100, 200]);
+  });
+});
+
+describe('isBlinkOn and msUntilBlinkToggle', () => {
+  const sequence = [100, 150, 100, 650];
+
+  it('follows the phases of the sequence', () => {
+    expect(isBlinkOn(sequence, 0)).toBeTrue();
+    expect(isBlinkOn(sequence, 99)).toBeTrue();
+    expect(isBlinkOn(sequence, 100)).toBeFalse();
+    expect(isBlinkOn(sequence, 260)).toBeTrue();
+    expect(isBlinkOn(sequence, 400)).toBeFalse();
+  });
+
+  it('repeats every cycle', () => {
+    expect(isBlinkOn(sequence, 1000 * 7 + 260)).toBeTrue();
+    expect(msUntilBlinkToggle(sequence, 1000 * 3 + 120)).toBe(130);
+  });
+
+  it('counts the time left in the current phase', () => {
+    expect(msUntilBlinkToggle(sequence, 0)).toBe(100);
+    expect(msUntilBlinkToggle(sequence, 300)).toBe(50);
+  });
+});
+
+describe('isSameBlinkPattern', () => {
+  it('compares names and sequences by value', () => {
+    expect(isSameBlinkPattern('fast', 'fast')).toBeTrue();
+    expect(isSameBlinkPattern('fast', 'slow')).toBeFalse();
+    expect(isSameBlinkPattern([1, 2], [1, 2])).toBeTrue();
+    expect(isSameBlinkPattern([1, 2], [1, 3])).toBeFalse();
+    expect(isSameBlinkPattern(undefined, undefined)).toBeTrue();
+    expect(isSameBlinkPattern(undefined, 'slow')).toBeFalse();
+  });
+});
+
+describe('describeBlinkPattern', () => {
+  it('names the pattern', () => {
+    expect(describeBlinkPattern(undefined)).toBe('slow');
+    expect(describeBlinkPattern('activity-burst')).toBe('activity-burst');
+    expect(describeBlinkPattern([200, 800])).toBe('custom (200/800 ms)');
+  });
+});
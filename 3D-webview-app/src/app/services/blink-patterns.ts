@@ -0,0 +1,78 @@
+export type BlinkPatternName = 'slow' | 'fast' | 'heartbeat' | 'activity-burst';
+
+// A named pattern, or a custom sequence of on/off durations in ms (starting with "on")
+export type BlinkPattern = BlinkPatternName | number[];
+
+export const DEFAULT_BLINK_PATTERN: BlinkPatternName = 'slow';
+
+export const BLINK_PATTERNS: Record<BlinkPatternName, number[]> = {
+    'slow': [500, 500], // Link up / steady attention
+    'fast': [125, 125], // Alarm
+    'heartbeat': [100, 150, 100, 650], // Two short pulses, then a pause
+    'activity-burst': [30, 50, 40, 30, 30, 70, 40, 40, 30, 440], // Irregular flicker of traffic, then a rest
+};
+
+/**
+ * On/off durations for a pattern. Named patterns are looked up, custom sequences are checked;
+ * anything unusable falls back to the default pattern.
+ */
+export function resolveBlinkPattern(pattern: BlinkPattern | undefined): number[] {
+    if (pattern === undefined) {
+        return BLINK_PATTERNS[DEFAULT_BLINK_PATTERN];
+    }
+    if (typeof pattern === 'string') {
+        return BLINK_PATTERNS[pattern] ?? BLINK_PATTERNS[DEFAULT_BLINK_PATTERN];
+    }
+    if (pattern.length >= 2 && pattern.every(duration => Number.isFinite(duration) && duration > 0)) {
+        // An odd-length sequence would end "on" and run into the next cycle's first "on"; drop the dangling entry
+        return pattern.length % 2 === 0 ? pattern : pattern.slice(0, -1);
+    }
+    return BLINK_PATTERNS[DEFAULT_BLINK_PATTERN];
+}
+
+/**
+ * Whether a pattern is in an "on" phase at `time`. Phases are derived from the wall clock,
+ * so every port with the same pattern is lit at exactly the same moments.
+ */
+export function isBlinkOn(sequence: number[], time: number): boolean {
+    return findPhase(sequence, time).index % 2 === 0;
+}
+
+/**
+ * Milliseconds from `time` until the pattern next switches between on and off.
+ */
+export function msUntilBlinkToggle(sequence: number[], time: number): number {
+    return findPhase(sequence, time).remaining;
+}
+
+function findPhase(sequence: number[], time: number): { index: number, remaining: number } {
+    const cycle = sequence.reduce((sum, duration) => sum + duration, 0);
+    let offset = time % cycle;
+    for (let index = 0; index < sequence.length; index++) {
+        if (offset < sequence[index]) {
+            return { index, remaining: sequence[index] - offset };
+        }
+        offset -= sequence[index];
+    }
+    return { index: 0, remaining: sequence[0] }; // Only reached through rounding at the cycle end
+}
+
+/**
+ * Compares two patterns by value.
+ */
+export function isSameBlinkPattern(a: BlinkPattern | undefined, b: BlinkPattern | undefined): boolean {
+    if (Array.isArray(a) && Array.isArray(b)) {
+        return a.length === b.length && a.every((duration, i) => duration === b[i]);
+    }
+    return a === b;
+}
+
+/**
+ * Short human-readable description, e.g. for tooltips.
+ */
+export function describeBlinkPattern(pattern: BlinkPattern | undefined): string {
+    if (pattern === undefined) {
+        return DEFAULT_BLINK_PATTERN;
+    }
+    return typeof pattern === 'string' ? pattern : `custom (${pattern.join('/')} ms)`;
+}
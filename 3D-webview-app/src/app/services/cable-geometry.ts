@@ -0,0 +1,56 @@
+import * as THREE from 'three';
+
+// Default look of a cable when no cable GLB is given (scene units, same as the device models)
+export const DEFAULT_CABLE_RADIUS = 0.01;
+export const DEFAULT_CABLE_COLOR = 0x555555;
+
+// How far the middle of a cable hangs below the straight line, as a fraction of its span
+const CABLE_SAG_RATIO = 0.15;
+const MIN_CABLE_SAG = 0.02;
+// Shape parameter of the catenary; higher values give a flatter middle and steeper ends
+const CATENARY_SHAPE = 2;
+
+const CURVE_POINTS = 16;
+const RADIAL_SEGMENTS = 8;
+
+/**
+ * Builds a curve hanging between two attach points like a real cable under its own weight.
+ * The drop follows a catenary normalised so the ends sit exactly on the attach points.
+ */
+export function buildCableCurve(start: THREE.Vector3, end: THREE.Vector3): THREE.CatmullRomCurve3 {
+    const span = start.distanceTo(end);
+    const sag = Math.max(MIN_CABLE_SAG, span * CABLE_SAG_RATIO);
+    const coshA = Math.cosh(CATENARY_SHAPE);
+
+    const points: THREE.Vector3[] = [];
+    for (let i = 0; i <= CURVE_POINTS; i++) {
+        const t = i / CURVE_POINTS;
+        // 0 at both ends, -1 in the middle
+        const drop = (Math.cosh(CATENARY_SHAPE * (2 * t - 1)) - coshA) / (coshA - 1);
+        const point = new THREE.Vector3().lerpVectors(start, end, t);
+        point.y += drop * sag;
+        points.push(point);
+    }
+    return new THREE.CatmullRomCurve3(points, false, 'centripetal');
+}
+
+/**
+ * Tube geometry for a cable routed between two world positions.
+ */
+export function buildCableGeometry(start: THREE.Vector3, end: THREE.Vector3, radius: number = DEFAULT_CABLE_RADIUS): THREE.TubeGeometry {
+    const curve = buildCableCurve(start, end);
+    // Longer cables get more segments so the sag stays smooth
+    const tubularSegments = Math.max(CURVE_POINTS, Math.ceil(curve.getLength() / (radius * 4)));
+    return new THREE.TubeGeometry(curve, Math.min(tubularSegments, 256), radius, RADIAL_SEGMENTS, false);
+}
+
+/**
+ * Derives the cable thickness from a cable model: the two smallest extents of its
+ * bounding box are taken as the cross-section.
+ */
+export function estimateCableRadius(cableModel: THREE.Object3D): number {
+    const size = new THREE.Box3().setFromObject(cableModel).getSize(new THREE.Vector3());
+    const [a, b] = [size.x, size.y, size.z].sort((x, y) => x - y);
+    const radius = (a + b) / 4;
+    return radius > 0 && isFinite(radius) ? radius : DEFAULT_CABLE_RADIUS;
+}
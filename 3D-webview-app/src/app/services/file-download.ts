@@ -0,0 +1,19 @@
+/**
+ * Lets the browser download a blob as a file.
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    // Give the browser a moment to start the download before the URL goes away
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * A layout or device ID made safe for use in a file name.
+ */
+export function toSafeFileName(name: string): string {
+    return name.replace(/[^a-z0-9._-]+/gi, '_') || 'topology';
+}
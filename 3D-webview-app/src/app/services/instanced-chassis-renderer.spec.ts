@@ -0,0 +1,105 @@
+import * as THREE from 'three';
+import { InstancedChassisRenderer } from './instanced-chassis-renderer';
+
+const ASSET_URL = 'assets/models/test-router.glb';
+
+// A chassis of two meshes plus one port indicator, like the device GLBs
+function createTemplate(): THREE.Group {
+  const template = new THREE.Group();
+  const geometry = new THREE.BoxGeometry(1, 0.1, 1);
+  const material = new THREE.MeshStandardMaterial();
+  template.add(new THREE.Mesh(geometry, material), new THREE.Mesh(geometry, material));
+  template.children[0].name = 'Body';
+  template.children[1].name = 'Faceplate';
+  const indicator = new THREE.Mesh(geometry, material);
+  indicator.name = 'TestRouter_Port01_Indicator';
+  template.add(indicator);
+  return template;
+}
+
+function instancedMeshes(scene: THREE.Scene): THREE.InstancedMesh[] {
+  return scene.children.filter((child): child is THREE.InstancedMesh => child instanceof THREE.InstancedMesh);
+}
+
+describe('InstancedChassisRenderer', () => {
+  let scene: THREE.Scene;
+  let renderer: InstancedChassisRenderer;
+  let template: THREE.Group;
+
+  function addInstance(modelId: string, x = 0): THREE.Object3D {
+    const root = template.clone();
+    root.position.x = x;
+    scene.add(root);
+    renderer.add(ASSET_URL, template, modelId, root);
+    return root;
+  }
+
+  beforeEach(() => {
+    scene = new THREE.Scene();
+    renderer = new InstancedChassisRenderer(scene);
+    template = createTemplate();
+  });
+
+  it('draws the chassis through one instanced mesh per part and hides the own meshes', () => {
+    const root = addInstance('r1');
+    expect(renderer.has('r1')).toBeTrue();
+    expect(instancedMeshes(scene).map(mesh => mesh.name)).toEqual(['Body_Instanced', 'Faceplate_Instanced']);
+    expect(root.children.map(child => child.visible)).toEqual([false, false, true]); // The indicator stays individual
+  });
+
+  it('does not instance a model whose meshes do not match the template', () => {
+    spyOn(console, 'warn');
+    const root = new THREE.Group();
+    root.add(new THREE.Mesh());
+    renderer.add(ASSET_URL, template, 'odd', root);
+    expect(renderer.has('odd')).toBeFalse();
+    expect(root.children[0].visible).toBeTrue();
+  });
+
+  it('grows the batch past its initial capacity', () => {
+    for (let i = 0; i < 17; i++) {
+      addInstance(`r${i}`);
+    }
+    const meshes = instancedMeshes(scene);
+    expect(meshes.length).toBe(2); // The smaller batch was replaced, not kept
+    expect(meshes[0].instanceMatrix.count).toBe(32);
+  });
+
+  it('copies the world transform of every shown instance on update', () => {
+    addInstance('r1', 1);
+    const hidden = addInstance('r2', 2);
+    addInstance('r3', 3);
+    hidden.visible = false;
+
+    renderer.update();
+
+    const [body] = instancedMeshes(scene);
+    expect(body.count).toBe(2);
+    const matrix = new THREE.Matrix4();
+    const position = new THREE.Vector3();
+    body.getMatrixAt(1, matrix);
+    expect(position.setFromMatrixPosition(matrix).x).toBe(3);
+  });
+
+  it('leaves excluded models to their own meshes', () => {
+    const root = addInstance('r1');
+    addInstance('r2');
+    renderer.setExcluded(new Set(['r1']));
+    renderer.update();
+    expect(instancedMeshes(scene)[0].count).toBe(1);
+    expect(root.children[0].visible).toBeTrue();
+  });
+
+  it('shows the own meshes again on remove and drops the batch with its last instance', () => {
+    const first = addInstance('r1');
+    addInstance('r2');
+
+    renderer.remove('r1');
+    expect(renderer.has('r1')).toBeFalse();
+    expect(first.children[0].visible).toBeTrue();
+    expect(instancedMeshes(scene).length).toBe(2);
+
+    renderer.remove('r2');
+    expect(instancedMeshes(scene)).toEqual([]);
+  });
+});
@@ -0,0 +1,174 @@
+import * as THREE from 'three';
+import { isPortIndicatorName } from './port-naming';
+
+const INITIAL_CAPACITY = 16;
+
+// All instances of one asset: one InstancedMesh per chassis mesh of the template
+interface ChassisBatch {
+    meshes: THREE.InstancedMesh[];
+    capacity: number;
+    template: THREE.Mesh[];
+    instances: Map<string, ChassisInstance>;
+}
+
+interface ChassisInstance {
+    root: THREE.Object3D;
+    // The instance's own chassis meshes, hidden while it is drawn through the batch.
+    // They stay in the scene graph so raycasting, bounding boxes and attach points keep working.
+    meshes: THREE.Mesh[];
+    // Drawn with its own meshes instead of the batch (e.g. while outlined)
+    excluded: boolean;
+}
+
+/**
+ * Draws the static body ("chassis") of identical models with GPU instancing.
+ *
+ * Port indicators are not instanced since every port has its own color and blink state;
+ * they keep rendering as regular meshes of each model instance.
+ */
+export class InstancedChassisRenderer {
+    private batches = new Map<string, ChassisBatch>();
+
+    constructor(private scene: THREE.Scene) { }
+
+    static isChassisMesh(object: THREE.Object3D): object is THREE.Mesh {
+        return object instanceof THREE.Mesh
+            && !(object instanceof THREE.InstancedMesh)
+            && !(object instanceof THREE.SkinnedMesh)
+            && !isPortIndicatorName(object.name);
+    }
+
+    /**
+     * Starts drawing the chassis of a model instance through the batch of its asset.
+     * `instanceRoot` must be a clone of `template`, so their meshes line up in traversal order.
+     */
+    add(assetUrl: string, template: THREE.Object3D, modelId: string, instanceRoot: THREE.Object3D): void {
+        let batch = this.batches.get(assetUrl);
+        if (!batch) {
+            batch = { meshes: [], capacity: 0, template: this.collectChassisMeshes(template), instances: new Map() };
+            this.batches.set(assetUrl, batch);
+        }
+
+        const meshes = this.collectChassisMeshes(instanceRoot);
+        if (meshes.length !== batch.template.length) {
+            console.warn(`Model ${modelId} does not match the cached ${assetUrl}; it will not be instanced.`);
+            return;
+        }
+        meshes.forEach(mesh => mesh.visible = false);
+        batch.instances.set(modelId, { root: instanceRoot, meshes, excluded: false });
+
+        if (batch.instances.size > batch.capacity) {
+            this.rebuildBatch(batch, Math.max(INITIAL_CAPACITY, batch.capacity * 2));
+        }
+    }
+
+    /**
+     * Stops instancing a model and shows its own chassis meshes again.
+     */
+    remove(modelId: string): void {
+        this.batches.forEach((batch, assetUrl) => {
+            const instance = batch.instances.get(modelId);
+            if (!instance) {
+                return;
+            }
+            instance.meshes.forEach(mesh => mesh.visible = true);
+            batch.instances.delete(modelId);
+            if (batch.instances.size === 0) {
+                batch.meshes.forEach(mesh => {
+                    this.scene.remove(mesh);
+                    mesh.dispose();
+                });
+                this.batches.delete(assetUrl);
+            }
+        });
+    }
+
+    /**
+     * Draws the given models with their own meshes and everything else through the batches.
+     * Effects that work per object, like outlines, need the model's real meshes to be visible.
+     */
+    setExcluded(modelIds: Set<string>): void {
+        this.batches.forEach(batch => {
+            batch.instances.forEach((instance, modelId) => {
+                instance.excluded = modelIds.has(modelId);
+                instance.meshes.forEach(mesh => mesh.visible = instance.excluded);
+            });
+        });
+    }
+
+    has(modelId: string): boolean {
+        return [...this.batches.values()].some(batch => batch.instances.has(modelId));
+    }
+
+    /**
+     * Copies the current world transform of every instance into the instanced meshes.
+     * Instances whose root is hidden are left out.
+     */
+    update(): void {
+        this.batches.forEach(batch => {
+            let count = 0;
+            batch.instances.forEach(instance => {
+                if (instance.excluded || !this.isShown(instance.root)) {
+                    return;
+                }
+                instance.root.updateMatrixWorld(true);
+                instance.meshes.forEach((mesh, k) => batch.meshes[k].setMatrixAt(count, mesh.matrixWorld));
+                count++;
+            });
+            batch.meshes.forEach(mesh => {
+                mesh.count = count;
+                mesh.instanceMatrix.needsUpdate = true;
+            });
+        });
+    }
+
+    /**
+     * Removes the instanced meshes from the scene. Geometry and materials belong to the asset cache.
+     */
+    dispose(): void {
+        this.batches.forEach(batch => {
+            batch.instances.forEach(instance => instance.meshes.forEach(mesh => mesh.visible = true));
+            batch.meshes.forEach(mesh => {
+                this.scene.remove(mesh);
+                mesh.dispose();
+            });
+        });
+        this.batches.clear();
+    }
+
+    private rebuildBatch(batch: ChassisBatch, capacity: number): void {
+        batch.meshes.forEach(mesh => {
+            this.scene.remove(mesh);
+            mesh.dispose(); // Frees the instance attributes only
+        });
+        batch.meshes = batch.template.map(templateMesh => {
+            const instanced = new THREE.InstancedMesh(templateMesh.geometry, templateMesh.material, capacity);
+            instanced.name = `${templateMesh.name}_Instanced`;
+            instanced.frustumCulled = false; // Bounds change whenever an instance moves
+            instanced.raycast = () => { }; // Picking goes through the hidden per-instance meshes
+            instanced.count = 0;
+            this.scene.add(instanced);
+            return instanced;
+        });
+        batch.capacity = capacity;
+    }
+
+    private collectChassisMeshes(root: THREE.Object3D): THREE.Mesh[] {
+        const meshes: THREE.Mesh[] = [];
+        root.traverse(child => {
+            if (InstancedChassisRenderer.isChassisMesh(child)) {
+                meshes.push(child);
+            }
+        });
+        return meshes;
+    }
+
+    private isShown(object: THREE.Object3D): boolean {
+        for (let current: THREE.Object3D | null = object; current; current = current.parent) {
+            if (!current.visible) {
+                return false;
+            }
+        }
+        return true;
+    }
+}
@@ -0,0 +1,105 @@
+import { ModelInstance, RackInstance, TopologyLayout } from './topology-state.service';
+import { DEFAULT_RACK_DEFINITIONS } from './rack-placement';
+import { applyLayoutPlacements, computeLayout } from './layout-strategies';
+import { createTestDevice } from '../testing/topology-fixtures';
+
+const getRackDefinition = (id: string) => DEFAULT_RACK_DEFINITIONS.find(definition => definition.id === id);
+
+function device(id: string, modelDefinitionId: string, x = 0, z = 0, extra: Partial<ModelInstance> = {}): ModelInstance {
+  return createTestDevice(id, { modelDefinitionId, position: { x, y: 0, z }, ...extra });
+}
+
+function rack(id: string, room: string, x = 0, z = 0): RackInstance {
+  return { id, rackDefinitionId: 'Rack_42U', room, position: { x, y: 0, z }, rotation: { x: 0, y: 0, z: 0 } };
+}
+
+describe('computeLayout', () => {
+  it('puts each model definition in its own row, starting at the lowest corner', () => {
+    const layout: TopologyLayout = {
+      id: 'layout',
+      name: 'Layout',
+      models: [device('b', 'Switch', 5, 3), device('a', 'Switch', 2, 4), device('r', 'Router', 3, 1)],
+      connections: []
+    };
+    const { models } = computeLayout('grid-by-model', layout, getRackDefinition);
+    expect(models.get('r')!.position).toEqual({ x: 2, y: 0, z: 1 });
+    expect(models.get('a')!.position).toEqual({ x: 2, y: 0, z: 1 + 1.2 });
+    expect(models.get('b')!.position).toEqual({ x: 2 + 0.8, y: 0, z: 1 + 1.2 });
+  });
+
+  it('wraps long grid rows', () => {
+    const models = Array.from({ length: 12 }, (_, i) => device(`d${String(i).padStart(2, '0')}`, 'Switch'));
+    const placements = computeLayout('grid-by-model', { id: 'layout', name: 'Layout', models, connections: [] }, getRackDefinition).models;
+    expect(placements.get('d09')!.position.z).toBe(0);
+    expect(placements.get('d10')!.position).toEqual({ x: 0, y: 0, z: 1.2 });
+  });
+
+  it('only places the given models and never mounted ones', () => {
+    const layout: TopologyLayout = {
+      id: 'layout',
+      name: 'Layout',
+      models: [device('a', 'Switch'), device('b', 'Switch'), device('m', 'Switch', 0, 0, { mount: { rackId: 'rack-1', uIndex: 1 } })],
+      connections: []
+    };
+    const placements = computeLayout('grid-by-model', layout, getRackDefinition, ['a', 'm']).models;
+    expect([...placements.keys()]).toEqual(['a']);
+    expect([...computeLayout('force-directed', layout, getRackDefinition).models.keys()]).toEqual(['a', 'b']);
+  });
+
+  it('lines up racks and then devices in one row per room', () => {
+    const layout: TopologyLayout = {
+      id: 'layout',
+      name: 'Layout',
+      models: [device('a', 'Switch', 0, 0, { room: 'hall-1' }), device('b', 'Switch', 0, 0, { room: 'hall-2' })],
+      connections: [],
+      racks: [rack('rack-1', 'hall-1')]
+    };
+    const placements = computeLayout('rows-by-room', layout, getRackDefinition);
+    expect(placements.racks.get('rack-1')!.position).toEqual({ x: 0.3, y: 0, z: 0 });
+    expect(placements.models.get('a')!.position).toEqual({ x: 0.6 + 0.1 + 0.4, y: 0, z: 0 });
+    expect(placements.models.get('b')!.position).toEqual({ x: 0.4, y: 0, z: 2.5 });
+  });
+
+  it('spreads devices that all sit at one spot and keeps cabled ones closer together', () => {
+    const layout: TopologyLayout = {
+      id: 'layout',
+      name: 'Layout',
+      models: ['a', 'b', 'c', 'd'].map(id => device(id, 'Switch')),
+      connections: [{
+        id: 'ab',
+        source: { modelId: 'a', portAttachName: 'Port1_Attach' },
+        target: { modelId: 'b', portAttachName: 'Port1_Attach' }
+      }]
+    };
+    const placements = computeLayout('force-directed', layout, getRackDefinition).models;
+    const distance = (x: string, y: string) => {
+      const p = placements.get(x)!.position;
+      const q = placements.get(y)!.position;
+      return Math.hypot(p.x - q.x, p.z - q.z);
+    };
+    expect(distance('a', 'c')).toBeGreaterThan(0.5);
+    expect(distance('a', 'b')).toBeLessThan(distance('c', 'd'));
+  });
+});
+
+describe('applyLayoutPlacements', () => {
+  it('moves placed devices and the devices mounted in moved racks', () => {
+    const layout: TopologyLayout = {
+      id: 'layout',
+      name: 'Layout',
+      models: [device('a', 'Switch'), device('m', 'Switch', 0, 0, { mount: { rackId: 'rack-1', uIndex: 2 } })],
+      connections: [],
+      racks: [rack('rack-1', 'hall-1')]
+    };
+    const moved = applyLayoutPlacements(layout, {
+      models: new Map([['a', { position: { x: 1, y: 0, z: 1 }, rotation: { x: 0, y: 0, z: 0 } }]]),
+      racks: new Map([['rack-1', { position: { x: 3, y: 0, z: 0 }, rotation: { x: 0, y: 0, z: 0 } }]])
+    }, getRackDefinition);
+
+    expect(moved.models[0].position).toEqual({ x: 1, y: 0, z: 1 });
+    expect(moved.racks![0].position).toEqual({ x: 3, y: 0, z: 0 });
+    expect(moved.models[1].position.x).toBeCloseTo(3);
+    expect(moved.models[1].position.y).toBeCloseTo(0.1 + 0.04445);
+    expect(layout.models[0].position).toEqual({ x: 0, y: 0, z: 0 });
+  });
+});
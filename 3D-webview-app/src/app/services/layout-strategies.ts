@@ -0,0 +1,250 @@
+import { EulerRotation, ModelInstance, RackDefinition, RackInstance, TopologyLayout, Vector3D } from './topology-state.service';
+import { computeMountedTransform } from './rack-placement';
+
+export type LayoutStrategy = 'grid-by-model' | 'rows-by-room' | 'force-directed';
+
+export interface Placement {
+    position: Vector3D;
+    rotation: EulerRotation;
+}
+
+// Result of a layout strategy: new placements keyed by model / rack ID
+export interface LayoutPlacements {
+    models: Map<string, Placement>;
+    racks: Map<string, Placement>;
+}
+
+// Spacing in scene units (meters)
+const GRID_COLUMN_SPACING = 0.8;
+const GRID_ROW_SPACING = 1.2;
+const GRID_MAX_COLUMNS = 10;
+const ROOM_ROW_SPACING = 2.5;
+const RACK_GAP = 0.1;
+const FORCE_EDGE_LENGTH = 1.5;
+const FORCE_ITERATIONS = 300;
+
+const NO_ROTATION: EulerRotation = { x: 0, y: 0, z: 0 };
+const UNASSIGNED_ROOM = '';
+
+/**
+ * Computes new positions for the models of a layout (or only `modelIds`).
+ * Devices mounted in racks are never moved on their own; they follow their rack.
+ */
+export function computeLayout(
+    strategy: LayoutStrategy,
+    layout: TopologyLayout,
+    getRackDefinition: (rackDefinitionId: string) => RackDefinition | undefined,
+    modelIds?: string[]
+): LayoutPlacements {
+    const selected = modelIds ? new Set(modelIds) : null;
+    const targets = layout.models.filter(m => !m.mount && (!selected || selected.has(m.id)));
+    switch (strategy) {
+        case 'grid-by-model':
+            return { models: layoutGridByModel(targets), racks: new Map() };
+        case 'rows-by-room':
+            return layoutRowsByRoom(layout, targets, getRackDefinition, selected);
+        case 'force-directed':
+            return { models: layoutForceDirected(layout, targets), racks: new Map() };
+    }
+}
+
+/**
+ * Returns a copy of the layout with the placements applied; devices mounted in a moved rack move with it.
+ */
+export function applyLayoutPlacements(
+    layout: TopologyLayout,
+    placements: LayoutPlacements,
+    getRackDefinition: (rackDefinitionId: string) => RackDefinition | undefined
+): TopologyLayout {
+    const racks = layout.racks?.map(rack => {
+        const placement = placements.racks.get(rack.id);
+        return placement ? { ...rack, position: placement.position, rotation: placement.rotation } : rack;
+    });
+    const racksById = new Map((racks ?? []).map(rack => [rack.id, rack]));
+
+    const models = layout.models.map(model => {
+        if (model.mount) {
+            const rack = racksById.get(model.mount.rackId);
+            const definition = rack && getRackDefinition(rack.rackDefinitionId);
+            return rack && definition && placements.racks.has(rack.id)
+                ? { ...model, ...computeMountedTransform(rack, definition, model.mount.uIndex) }
+                : model;
+        }
+        const placement = placements.models.get(model.id);
+        return placement ? { ...model, position: placement.position, rotation: placement.rotation } : model;
+    });
+    return { ...layout, models, racks };
+}
+
+// One row per model definition, wrapping long rows
+function layoutGridByModel(targets: ModelInstance[]): Map<string, Placement> {
+    const placements = new Map<string, Placement>();
+    const anchor = findAnchor(targets);
+    const groups = groupBy(targets, m => m.modelDefinitionId);
+
+    let row = 0;
+    [...groups.keys()].sort().forEach(definitionId => {
+        const models = groups.get(definitionId)!.sort(byName);
+        models.forEach((model, i) => {
+            const column = i % GRID_MAX_COLUMNS;
+            placements.set(model.id, {
+                position: { x: anchor.x + column * GRID_COLUMN_SPACING, y: 0, z: anchor.z + (row + Math.floor(i / GRID_MAX_COLUMNS)) * GRID_ROW_SPACING },
+                rotation: { ...NO_ROTATION }
+            });
+        });
+        row += Math.ceil(models.length / GRID_MAX_COLUMNS);
+    });
+    return placements;
+}
+
+// One row per room: the room's racks side by side, followed by its free-standing devices
+function layoutRowsByRoom(
+    layout: TopologyLayout,
+    targets: ModelInstance[],
+    getRackDefinition: (rackDefinitionId: string) => RackDefinition | undefined,
+    selected: Set<string> | null
+): LayoutPlacements {
+    const placements: LayoutPlacements = { models: new Map(), racks: new Map() };
+    // With a selection, only racks holding a selected device are moved
+    const racks = (layout.racks ?? []).filter(rack =>
+        !selected || layout.models.some(m => m.mount?.rackId === rack.id && selected.has(m.id))
+    );
+    const anchor = findAnchor([...targets, ...racks]);
+
+    const racksByRoom = groupBy(racks, rack => rack.room ?? UNASSIGNED_ROOM);
+    const modelsByRoom = groupBy(targets, model => model.room ?? UNASSIGNED_ROOM);
+    const rooms = [...new Set([...racksByRoom.keys(), ...modelsByRoom.keys()])].sort();
+
+    rooms.forEach((room, row) => {
+        const z = anchor.z + row * ROOM_ROW_SPACING;
+        let x = anchor.x;
+        (racksByRoom.get(room) ?? []).sort(byName).forEach(rack => {
+            const width = getRackDefinition(rack.rackDefinitionId)?.width ?? GRID_COLUMN_SPACING;
+            placements.racks.set(rack.id, { position: { x: x + width / 2, y: 0, z }, rotation: { ...NO_ROTATION } });
+            x += width + RACK_GAP;
+        });
+        (modelsByRoom.get(room) ?? []).sort(byName).forEach(model => {
+            placements.models.set(model.id, { position: { x: x + GRID_COLUMN_SPACING / 2, y: 0, z }, rotation: { ...NO_ROTATION } });
+            x += GRID_COLUMN_SPACING;
+        });
+    });
+    return placements;
+}
+
+/**
+ * Fruchterman-Reingold on the floor plane: cables pull devices together, all devices push each other
+ * apart. Devices that are not targets (or are rack-mounted) take part as fixed nodes.
+ */
+function layoutForceDirected(layout: TopologyLayout, targets: ModelInstance[]): Map<string, Placement> {
+    const placements = new Map<string, Placement>();
+    if (targets.length === 0) {
+        return placements;
+    }
+    const movable = new Set(targets.map(m => m.id));
+    const nodes = layout.models.map(model => ({ id: model.id, x: model.position.x, z: model.position.z, dx: 0, dz: 0 }));
+    const indexById = new Map(nodes.map((node, i) => [node.id, i]));
+    const edges = layout.connections
+        .map(conn => [indexById.get(conn.source.modelId), indexById.get(conn.target.modelId)])
+        .filter((edge): edge is [number, number] => edge[0] !== undefined && edge[1] !== undefined && edge[0] !== edge[1]);
+
+    // Imported devices often all sit at the origin; start those from a circle so forces can act
+    const movableNodes = nodes.filter(node => movable.has(node.id));
+    if (isCollapsed(movableNodes)) {
+        const radius = FORCE_EDGE_LENGTH * Math.sqrt(movableNodes.length) / 2;
+        movableNodes.forEach((node, i) => {
+            const angle = (2 * Math.PI * i) / movableNodes.length;
+            node.x = movableNodes[0].x + radius * Math.cos(angle);
+            node.z = movableNodes[0].z + radius * Math.sin(angle);
+        });
+    }
+
+    const k = FORCE_EDGE_LENGTH;
+    let temperature = k * Math.sqrt(nodes.length);
+    const cooling = temperature / FORCE_ITERATIONS;
+    for (let iteration = 0; iteration < FORCE_ITERATIONS; iteration++) {
+        nodes.forEach(node => { node.dx = 0; node.dz = 0; });
+
+        for (let i = 0; i < nodes.length; i++) {
+            for (let j = i + 1; j < nodes.length; j++) {
+                const a = nodes[i];
+                const b = nodes[j];
+                let deltaX = a.x - b.x;
+                let deltaZ = a.z - b.z;
+                let distance = Math.hypot(deltaX, deltaZ);
+                if (distance < 1e-6) {
+                    // Deterministic nudge for coincident nodes
+                    deltaX = Math.cos(i + j) * 1e-3;
+                    deltaZ = Math.sin(i + j) * 1e-3;
+                    distance = 1e-3;
+                }
+                const force = (k * k) / distance;
+                a.dx += (deltaX / distance) * force;
+                a.dz += (deltaZ / distance) * force;
+                b.dx -= (deltaX / distance) * force;
+                b.dz -= (deltaZ / distance) * force;
+            }
+        }
+        edges.forEach(([i, j]) => {
+            const a = nodes[i];
+            const b = nodes[j];
+            const deltaX = a.x - b.x;
+            const deltaZ = a.z - b.z;
+            const distance = Math.max(Math.hypot(deltaX, deltaZ), 1e-6);
+            const force = (distance * distance) / k;
+            a.dx -= (deltaX / distance) * force;
+            a.dz -= (deltaZ / distance) * force;
+            b.dx += (deltaX / distance) * force;
+            b.dz += (deltaZ / distance) * force;
+        });
+
+        nodes.forEach(node => {
+            if (!movable.has(node.id)) {
+                return;
+            }
+            const displacement = Math.hypot(node.dx, node.dz);
+            if (displacement > 0) {
+                const step = Math.min(displacement, temperature);
+                node.x += (node.dx / displacement) * step;
+                node.z += (node.dz / displacement) * step;
+            }
+        });
+        temperature = Math.max(temperature - cooling, 1e-3);
+    }
+
+    targets.forEach(model => {
+        const node = nodes[indexById.get(model.id)!];
+        placements.set(model.id, {
+            position: { x: node.x, y: model.position.y, z: node.z },
+            rotation: { ...model.rotation }
+        });
+    });
+    return placements;
+}
+
+// Lowest X/Z corner of the current positions, so a partial re-layout stays where it was
+function findAnchor(items: { position: Vector3D }[]): { x: number, z: number } {
+    if (items.length === 0) {
+        return { x: 0, z: 0 };
+    }
+    return {
+        x: Math.min(...items.map(item => item.position.x)),
+        z: Math.min(...items.map(item => item.position.z))
+    };
+}
+
+function isCollapsed(nodes: { x: number, z: number }[]): boolean {
+    return nodes.length > 1 && nodes.every(node => Math.hypot(node.x - nodes[0].x, node.z - nodes[0].z) < 1e-3);
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+    const groups = new Map<string, T[]>();
+    items.forEach(item => {
+        const k = key(item);
+        groups.set(k, [...(groups.get(k) ?? []), item]);
+    });
+    return groups;
+}
+
+function byName(a: ModelInstance | RackInstance, b: ModelInstance | RackInstance): number {
+    return (a.displayName || a.id).localeCompare(b.displayName || b.id);
+}
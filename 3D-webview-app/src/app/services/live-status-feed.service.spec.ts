@@ -0,0 +1,145 @@
+import { NgZone } from '@angular/core';
+import { of } from 'rxjs';
+import { LiveStatusFeedService } from './live-status-feed.service';
+import { PortStatusUpdate, TopologyStateService } from './topology-state.service';
+import { ThreeSceneService } from './tree-scene.service';
+import { createTestDevice, createTestLayout, createTestPort } from '../testing/topology-fixtures';
+
+const LAYOUT = createTestLayout({
+  models: [
+    createTestDevice('a', { ports: ['Port1_Indicator', 'Port2_Indicator'].map(name => createTestPort(name)) }),
+    createTestDevice('b', { ports: [createTestPort('Port1_Indicator')] })
+  ]
+});
+
+// Stands in for the browser's EventSource so the test controls when the stream opens, delivers and fails
+class FakeEventSource {
+  static instances: FakeEventSource[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((message: { data: unknown }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  closed = false;
+
+  constructor(readonly url: string) {
+    FakeEventSource.instances.push(this);
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+
+  static latest(): FakeEventSource {
+    return FakeEventSource.instances[FakeEventSource.instances.length - 1];
+  }
+}
+
+describe('LiveStatusFeedService', () => {
+  let service: LiveStatusFeedService;
+  let topologyState: jasmine.SpyObj<TopologyStateService>;
+  let scene: jasmine.SpyObj<ThreeSceneService>;
+  let originalEventSource: unknown;
+
+  const send = (data: unknown) => FakeEventSource.latest().onmessage!({ data: typeof data === 'string' ? data : JSON.stringify(data) });
+  const appliedUpdates = (): PortStatusUpdate[] => topologyState.applyLiveStatusUpdates.calls.mostRecent().args[0];
+
+  beforeEach(() => {
+    jasmine.clock().install();
+    originalEventSource = (globalThis as { EventSource?: unknown }).EventSource;
+    (globalThis as { EventSource?: unknown }).EventSource = FakeEventSource;
+    FakeEventSource.instances = [];
+
+    const zone = { run: (fn: () => unknown) => fn(), runOutsideAngular: (fn: () => unknown) => fn() } as unknown as NgZone;
+    topologyState = jasmine.createSpyObj<TopologyStateService>(
+      'TopologyStateService',
+      ['getCurrentTopologyValue', 'applyLiveStatusUpdates'],
+      { currentTopology$: of(LAYOUT) }
+    );
+    topologyState.getCurrentTopologyValue.and.returnValue(LAYOUT);
+    scene = jasmine.createSpyObj<ThreeSceneService>('ThreeSceneService', ['setPortState']);
+    service = new LiveStatusFeedService(zone, topologyState, scene, { type: 'memory' });
+    service.connect('lab', 'sse');
+    FakeEventSource.latest().onopen!();
+  });
+
+  afterEach(() => {
+    service.disconnect();
+    (globalThis as { EventSource?: unknown }).EventSource = originalEventSource;
+    jasmine.clock().uninstall();
+  });
+
+  it('applies the last event per port of a batch as one update', () => {
+    send({ type: 'port', modelId: 'a', portName: 'Port1_Indicator', status: 'active', blinking: true });
+    send([
+      { type: 'port', modelId: 'a', portName: 'Port1_Indicator', status: 'error' },
+      { type: 'port', modelId: 'b', portName: 'Port1_Indicator', status: 'warning' }
+    ]);
+    jasmine.clock().tick(249);
+    expect(topologyState.applyLiveStatusUpdates).not.toHaveBeenCalled();
+
+    jasmine.clock().tick(1);
+    expect(topologyState.applyLiveStatusUpdates).toHaveBeenCalledTimes(1);
+    expect(appliedUpdates()).toEqual([
+      { modelId: 'a', portName: 'Port1_Indicator', status: 'error', blinking: false, blinkPattern: undefined },
+      { modelId: 'b', portName: 'Port1_Indicator', status: 'warning', blinking: false, blinkPattern: undefined }
+    ]);
+    expect(scene.setPortState).toHaveBeenCalledWith('a', 'Port1_Indicator', 'error', false, undefined);
+  });
+
+  it('expands device events to every port of the device', () => {
+    send({ type: 'device', modelId: 'a', status: 'error', blinking: true, blinkPattern: 'fast' });
+    jasmine.clock().tick(250);
+    expect(appliedUpdates().map(update => [update.portName, update.status, update.blinkPattern])).toEqual([
+      ['Port1_Indicator', 'error', 'fast'],
+      ['Port2_Indicator', 'error', 'fast']
+    ]);
+  });
+
+  it('drops events for another layout', () => {
+    send({ type: 'port', layoutId: 'other', modelId: 'a', portName: 'Port1_Indicator', status: 'error' });
+    jasmine.clock().tick(250);
+    expect(topologyState.applyLiveStatusUpdates).not.toHaveBeenCalled();
+
+    send({ type: 'port', layoutId: 'lab', modelId: 'a', portName: 'Port1_Indicator', status: 'error' });
+    jasmine.clock().tick(250);
+    expect(appliedUpdates().length).toBe(1);
+  });
+
+  it('ignores unparsable messages and malformed events', () => {
+    spyOn(console, 'warn');
+    send('{ not json');
+    send([
+      { type: 'port', modelId: 'a', status: 'error' }, // No port name
+      { type: 'link', modelId: 'a', status: 'error' },
+      { type: 'device', modelId: 'b', status: 42 },
+      null,
+      { type: 'device', modelId: 'b', status: 'warning' }
+    ]);
+    jasmine.clock().tick(250);
+    expect(appliedUpdates()).toEqual([{ modelId: 'b', portName: 'Port1_Indicator', status: 'warning', blinking: false, blinkPattern: undefined }]);
+    expect(console.warn).toHaveBeenCalledTimes(5);
+  });
+
+  it('reconnects with exponential backoff that resets once connected', () => {
+    spyOn(Math, 'random').and.returnValue(0.5); // No jitter
+    const states: string[] = [];
+    service.connectionState$.subscribe(state => states.push(state));
+
+    FakeEventSource.latest().onerror!();
+    expect(FakeEventSource.instances.length).toBe(1);
+    jasmine.clock().tick(1000);
+    expect(FakeEventSource.instances.length).toBe(2);
+
+    FakeEventSource.latest().onerror!();
+    jasmine.clock().tick(1999);
+    expect(FakeEventSource.instances.length).toBe(2);
+    jasmine.clock().tick(1);
+    expect(FakeEventSource.instances.length).toBe(3);
+
+    FakeEventSource.latest().onopen!();
+    FakeEventSource.latest().onerror!();
+    jasmine.clock().tick(1000);
+    expect(FakeEventSource.instances.length).toBe(4);
+    expect(FakeEventSource.instances.slice(0, 3).every(source => source.closed)).toBeTrue();
+    expect(states).toEqual(['connected', 'reconnecting', 'reconnecting', 'reconnecting', 'reconnecting', 'connected', 'reconnecting', 'reconnecting']);
+  });
+});
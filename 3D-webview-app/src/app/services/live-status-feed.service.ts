@@ -0,0 +1,254 @@
+import { Inject, Injectable, NgZone } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { distinctUntilChanged, map } from 'rxjs/operators';
+import { PortStatusUpdate, TopologyStateService } from './topology-state.service';
+import { ThreeSceneService } from './tree-scene.service';
+import { BlinkPattern } from './blink-patterns';
+import { MockStatusEventGenerator } from './mock-status-events';
+import { DEFAULT_TOPOLOGY_API_URL, TOPOLOGY_DATA_SOURCE_CONFIG, TopologyDataSourceConfig } from './topology-data-source';
+
+export interface PortStatusEvent {
+    type: 'port';
+    layoutId?: string; // Events for another layout are ignored
+    modelId: string;
+    portName: string; // `_Indicator` name
+    status: string;
+    blinking?: boolean;
+    blinkPattern?: BlinkPattern;
+    timestamp?: number;
+}
+
+// Applies to every port of the device (e.g. the device went down)
+export interface DeviceStatusEvent {
+    type: 'device';
+    layoutId?: string;
+    modelId: string;
+    status: string;
+    blinking?: boolean;
+    blinkPattern?: BlinkPattern;
+    timestamp?: number;
+}
+
+export type LiveStatusEvent = PortStatusEvent | DeviceStatusEvent;
+
+export type LiveFeedTransport = 'websocket' | 'sse' | 'mock';
+
+export type LiveFeedConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
+
+const BATCH_INTERVAL = 250; // ms; events arriving within this window are applied together
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30000;
+
+/**
+ * Streams port/device status events for a layout (WebSocket, Server-Sent Events or a local mock)
+ * into the topology and the scene.
+ *
+ * Events are batched: per flush, the last event per port wins and the whole batch becomes
+ * one topology update. Dropped connections are retried with exponential backoff.
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class LiveStatusFeedService {
+    private apiUrl: string; // The backend layouts are loaded from, or the default one for offline sources
+
+    private readonly _connectionState = new BehaviorSubject<LiveFeedConnectionState>('disconnected');
+    private readonly _lastEventAt = new BehaviorSubject<number | null>(null);
+    readonly connectionState$: Observable<LiveFeedConnectionState> = this._connectionState.asObservable();
+    readonly lastEventAt$: Observable<number | null> = this._lastEventAt.asObservable();
+
+    private target: { layoutId: string, transport: LiveFeedTransport } | null = null;
+    private closeConnection: (() => void) | null = null;
+    private reconnectAttempt = 0;
+    private reconnectTimerId: ReturnType<typeof setTimeout> | null = null;
+
+    private pendingEvents: LiveStatusEvent[] = [];
+    private flushTimerId: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(
+        private ngZone: NgZone,
+        private topologyStateService: TopologyStateService,
+        private threeSceneService: ThreeSceneService,
+        @Inject(TOPOLOGY_DATA_SOURCE_CONFIG) dataSourceConfig: TopologyDataSourceConfig
+    ) {
+        this.apiUrl = dataSourceConfig.type === 'http' ? dataSourceConfig.apiUrl : DEFAULT_TOPOLOGY_API_URL;
+
+        // Follow the loaded layout; a feed for the previous one would only deliver events that get dropped
+        this.topologyStateService.currentTopology$.pipe(
+            map(topology => topology?.id ?? null),
+            distinctUntilChanged()
+        ).subscribe(layoutId => {
+            if (this.target && layoutId && layoutId !== this.target.layoutId) {
+                this.connect(layoutId, this.target.transport);
+            }
+        });
+    }
+
+    /**
+     * Starts streaming status events for a layout, replacing any current connection.
+     */
+    connect(layoutId: string, transport: LiveFeedTransport = 'websocket'): void {
+        this.disconnect();
+        this.target = { layoutId, transport };
+        this.open();
+    }
+
+    disconnect(): void {
+        this.target = null;
+        this.reconnectAttempt = 0;
+        if (this.reconnectTimerId !== null) {
+            clearTimeout(this.reconnectTimerId);
+            this.reconnectTimerId = null;
+        }
+        this.closeConnection?.();
+        this.closeConnection = null;
+        if (this.flushTimerId !== null) {
+            clearTimeout(this.flushTimerId);
+            this.flushTimerId = null;
+        }
+        this.pendingEvents = [];
+        this._connectionState.next('disconnected');
+    }
+
+    getTransport(): LiveFeedTransport | null {
+        return this.target?.transport ?? null;
+    }
+
+    private open(): void {
+        const target = this.target;
+        if (!target) {
+            return;
+        }
+        this._connectionState.next(this.reconnectAttempt > 0 ? 'reconnecting' : 'connecting');
+        // Socket callbacks would trigger change detection for every message; only flushes need to
+        this.ngZone.runOutsideAngular(() => {
+            switch (target.transport) {
+                case 'websocket':
+                    this.openWebSocket(target.layoutId);
+                    break;
+                case 'sse':
+                    this.openEventSource(target.layoutId);
+                    break;
+                case 'mock':
+                    this.openMock();
+                    break;
+            }
+        });
+    }
+
+    private openWebSocket(layoutId: string): void {
+        const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+        const socket = new WebSocket(`${protocol}//${window.location.host}${this.apiUrl}/layouts/${encodeURIComponent(layoutId)}/status`);
+        socket.onopen = () => this.onOpened();
+        socket.onmessage = message => this.onMessage(message.data);
+        socket.onclose = () => this.onClosed(); // Also follows onerror
+        this.closeConnection = () => {
+            socket.onclose = null;
+            socket.close();
+        };
+    }
+
+    private openEventSource(layoutId: string): void {
+        const source = new EventSource(`${this.apiUrl}/layouts/${encodeURIComponent(layoutId)}/status/stream`);
+        source.onopen = () => this.onOpened();
+        source.onmessage = message => this.onMessage(message.data);
+        source.onerror = () => {
+            // EventSource would retry on its own at a fixed rate; use the same backoff as WebSockets instead
+            source.close();
+            this.onClosed();
+        };
+        this.closeConnection = () => source.close();
+    }
+
+    private openMock(): void {
+        const generator = new MockStatusEventGenerator(
+            () => this.topologyStateService.getCurrentTopologyValue(),
+            event => this.enqueue([event])
+        );
+        generator.start();
+        this.closeConnection = () => generator.stop();
+        this.onOpened();
+    }
+
+    private onOpened(): void {
+        this.reconnectAttempt = 0;
+        this.ngZone.run(() => this._connectionState.next('connected'));
+    }
+
+    private onClosed(): void {
+        this.closeConnection = null;
+        if (!this.target) {
+            return;
+        }
+        // 1s, 2s, 4s, ... capped, with jitter so many clients don't reconnect in lockstep
+        const delay = Math.min(RECONNECT_MAX_DELAY, RECONNECT_BASE_DELAY * 2 ** this.reconnectAttempt) * (0.75 + Math.random() * 0.5);
+        this.reconnectAttempt++;
+        this.ngZone.run(() => this._connectionState.next('reconnecting'));
+        this.reconnectTimerId = setTimeout(() => {
+            this.reconnectTimerId = null;
+            this.open();
+        }, delay);
+    }
+
+    // A message holds one event or an array of them
+    private onMessage(data: unknown): void {
+        let parsed: unknown;
+        try {
+            parsed = typeof data === 'string' ? JSON.parse(data) : data;
+        } catch (error) {
+            console.warn('Ignoring unparsable live status message:', data);
+            return;
+        }
+        const events = (Array.isArray(parsed) ? parsed : [parsed]).filter(event => this.isValidEvent(event));
+        this.enqueue(events);
+    }
+
+    private enqueue(events: LiveStatusEvent[]): void {
+        const layoutId = this.target?.layoutId;
+        this.pendingEvents.push(...events.filter(event => !event.layoutId || event.layoutId === layoutId));
+        if (this.pendingEvents.length > 0 && this.flushTimerId === null) {
+            this.flushTimerId = setTimeout(() => {
+                this.flushTimerId = null;
+                this.flush();
+            }, BATCH_INTERVAL);
+        }
+    }
+
+    private flush(): void {
+        const events = this.pendingEvents;
+        this.pendingEvents = [];
+        const topology = this.topologyStateService.getCurrentTopologyValue();
+        if (!topology || events.length === 0) {
+            return;
+        }
+
+        // Last event per port wins; device events expand to all ports the device has
+        const updates = new Map<string, PortStatusUpdate>();
+        events.forEach(event => {
+            const base = { modelId: event.modelId, status: event.status, blinking: event.blinking ?? false, blinkPattern: event.blinkPattern };
+            const portNames = event.type === 'port'
+                ? [event.portName]
+                : topology.models.find(m => m.id === event.modelId)?.ports.map(p => p.name) ?? [];
+            portNames.forEach(portName => updates.set(`${event.modelId}\u0000${portName}`, { ...base, portName }));
+        });
+
+        this.ngZone.run(() => {
+            // The scene first, so LEDs change without waiting for the reconciler
+            updates.forEach(update => {
+                this.threeSceneService.setPortState(update.modelId, update.portName, update.status, update.blinking, update.blinkPattern);
+            });
+            this.topologyStateService.applyLiveStatusUpdates([...updates.values()]);
+            this._lastEventAt.next(Date.now());
+        });
+    }
+
+    private isValidEvent(event: unknown): event is LiveStatusEvent {
+        const candidate = event as { type?: unknown, modelId?: unknown, portName?: unknown, status?: unknown } | null;
+        const valid = !!candidate && typeof candidate.modelId === 'string' && typeof candidate.status === 'string'
+            && (candidate.type === 'device' || (candidate.type === 'port' && typeof candidate.portName === 'string'));
+        if (!valid) {
+            console.warn('Ignoring malformed live status event:', event);
+        }
+        return valid;
+    }
+}
@@ -0,0 +1,80 @@
+import { TopologyLayout } from './topology-state.service';
+import { LiveStatusEvent } from './live-status-feed.service';
+import { BlinkPattern } from './blink-patterns';
+
+// Rough mix of what a healthy network reports: mostly traffic, some idle ports, the odd alarm
+const MOCK_STATUSES: { status: string, weight: number, blinking: boolean, blinkPattern?: BlinkPattern }[] = [
+    { status: 'active', weight: 6, blinking: true, blinkPattern: 'activity-burst' },
+    { status: 'active', weight: 2, blinking: false },
+    { status: 'inactive', weight: 2, blinking: false },
+    { status: 'warning', weight: 1, blinking: true, blinkPattern: 'slow' },
+    { status: 'error', weight: 1, blinking: true, blinkPattern: 'fast' },
+];
+const DEVICE_DOWN_PROBABILITY = 0.01; // Share of ticks that take a whole device down
+
+/**
+ * Emits random port (and occasionally device) status events for the models of a layout,
+ * so the live feed can be developed and demoed without a backend.
+ */
+export class MockStatusEventGenerator {
+    private timerId: ReturnType<typeof setInterval> | null = null;
+
+    constructor(
+        private getTopology: () => TopologyLayout | null,
+        private emit: (event: LiveStatusEvent) => void,
+        private intervalMs = 200,
+        private eventsPerTick = 3
+    ) { }
+
+    start(): void {
+        this.stop();
+        this.timerId = setInterval(() => this.tick(), this.intervalMs);
+    }
+
+    stop(): void {
+        if (this.timerId !== null) {
+            clearInterval(this.timerId);
+            this.timerId = null;
+        }
+    }
+
+    private tick(): void {
+        const topology = this.getTopology();
+        const models = topology?.models.filter(m => m.ports.length > 0) ?? [];
+        if (!topology || models.length === 0) {
+            return;
+        }
+        if (Math.random() < DEVICE_DOWN_PROBABILITY) {
+            const model = models[Math.floor(Math.random() * models.length)];
+            this.emit({ type: 'device', layoutId: topology.id, modelId: model.id, status: 'error', blinking: true, blinkPattern: 'fast', timestamp: Date.now() });
+            return;
+        }
+        for (let i = 0; i < this.eventsPerTick; i++) {
+            const model = models[Math.floor(Math.random() * models.length)];
+            const port = model.ports[Math.floor(Math.random() * model.ports.length)];
+            const state = this.pickStatus();
+            this.emit({
+                type: 'port',
+                layoutId: topology.id,
+                modelId: model.id,
+                portName: port.name,
+                status: state.status,
+                blinking: state.blinking,
+                blinkPattern: state.blinkPattern,
+                timestamp: Date.now()
+            });
+        }
+    }
+
+    private pickStatus(): typeof MOCK_STATUSES[number] {
+        const total = MOCK_STATUSES.reduce((sum, entry) => sum + entry.weight, 0);
+        let roll = Math.random() * total;
+        for (const entry of MOCK_STATUSES) {
+            roll -= entry.weight;
+            if (roll < 0) {
+                return entry;
+            }
+        }
+        return MOCK_STATUSES[0];
+    }
+}
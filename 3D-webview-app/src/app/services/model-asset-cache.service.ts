@@ -0,0 +1,82 @@
+import { Injectable } from '@angular/core';
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { clone as cloneSkinned } from 'three/examples/jsm/utils/SkeletonUtils.js';
+
+/**
+ * Downloads and parses each GLB once and hands out clones of it.
+ *
+ * Clones share geometry and materials with the cached template, so 200 copies of the same
+ * switch cost one download, one parse and one set of GPU buffers. Anything an instance needs
+ * to change on its own (e.g. port indicator colors) must be cloned by the caller.
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class ModelAssetCacheService {
+    private loader = new GLTFLoader();
+    // Keyed by asset URL; every instance of a model definition points to the same URL
+    private templates = new Map<string, Promise<THREE.Group>>();
+    private loadedTemplates = new Map<string, THREE.Group>(); // Same templates, once they have finished loading
+
+    /**
+     * The cached, parsed scene of an asset. Treat it as read-only: it is never added to the scene.
+     */
+    getTemplate(assetUrl: string): Promise<THREE.Group> {
+        let template = this.templates.get(assetUrl);
+        if (!template) {
+            template = this.loader.loadAsync(assetUrl).then(gltf => {
+                this.loadedTemplates.set(assetUrl, gltf.scene);
+                return gltf.scene;
+            });
+            // Forget failed downloads so the next request can retry
+            template.catch(() => this.templates.delete(assetUrl));
+            this.templates.set(assetUrl, template);
+        }
+        return template;
+    }
+
+    /**
+     * A new scene graph for one model instance, sharing geometry and materials with the template.
+     */
+    async instantiate(assetUrl: string): Promise<THREE.Group> {
+        const template = await this.getTemplate(assetUrl);
+        return cloneSkinned(template) as THREE.Group;
+    }
+
+    isCached(assetUrl: string): boolean {
+        return this.templates.has(assetUrl);
+    }
+
+    /**
+     * The template of an asset that has finished loading, for synchronous inspection; undefined otherwise.
+     */
+    getLoadedTemplate(assetUrl: string): THREE.Group | undefined {
+        return this.loadedTemplates.get(assetUrl);
+    }
+
+    /**
+     * Drops every cached asset and frees its GPU resources.
+     * Only call this once no instance created from the cache is in use anymore.
+     */
+    clear(): void {
+        this.templates.forEach(template => {
+            template.then(scene => this.disposeObject(scene)).catch(() => { /* Nothing was cached */ });
+        });
+        this.templates.clear();
+        this.loadedTemplates.clear();
+    }
+
+    private disposeObject(object: THREE.Object3D): void {
+        object.traverse(child => {
+            if (child instanceof THREE.Mesh) {
+                child.geometry.dispose();
+                if (Array.isArray(child.material)) {
+                    child.material.forEach(material => material.dispose());
+                } else {
+                    child.material.dispose();
+                }
+            }
+        });
+    }
+}
@@ -0,0 +1,189 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import * as THREE from 'three';
+import { BehaviorSubject, Observable, of } from 'rxjs';
+import { catchError, tap } from 'rxjs/operators';
+import { EulerRotation, ModelInstance, PortState, Vector3D } from './topology-state.service';
+import { ModelAssetCacheService } from './model-asset-cache.service';
+import { getPortBaseName, isPortAttachName, isPortIndicatorName } from './port-naming';
+
+// A kind of device that can be placed in a topology (ModelInstance.modelDefinitionId refers to it)
+export interface ModelDefinition {
+    id: string; // e.g. 'Switch_ModelA'
+    vendor: string;
+    name: string;
+    category?: string; // e.g. 'Switch', 'Router'; groups the palette
+    uHeight: number; // Height in rack units
+    assetUrl: string; // GLB with `_Indicator` meshes and `_Attach` nodes per port
+    thumbnailUrl?: string;
+}
+
+// Shape of the catalog config file
+export interface ModelCatalogConfig {
+    models: ModelDefinition[];
+}
+
+// Ports found in a model's GLB
+export interface DiscoveredPorts {
+    indicatorNames: string[]; // In natural order (Port2 before Port10)
+    attachNames: string[];
+    withoutAttach: string[]; // Indicators that have no matching attach point, so no cable can plug in
+}
+
+// Used only when the catalog config can't be loaded; the config is the catalog otherwise
+const FALLBACK_MODEL_DEFINITIONS: ModelDefinition[] = [
+    { id: 'TestRouter', vendor: 'Generic', name: 'Test router', category: 'Router', uHeight: 1, assetUrl: 'assets/models/test-router.glb' },
+];
+
+const naturalOrder = new Intl.Collator(undefined, { numeric: true }).compare;
+
+/**
+ * Catalog of the device models that can be added to a topology, read from the catalog config file
+ * (with a single built-in model if that can't be loaded). Ports are not listed in the catalog: they are
+ * discovered from the `_Indicator`/`_Attach` nodes of each model's GLB.
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class ModelCatalogService {
+    private configUrl = 'config/model-catalog.json'; // Served from /public
+
+    private readonly _definitions = new BehaviorSubject<ModelDefinition[]>([]);
+    readonly definitions$: Observable<ModelDefinition[]> = this._definitions.asObservable();
+
+    // Keyed by asset URL, like the asset cache
+    private readonly discoveredPorts = new Map<string, Promise<DiscoveredPorts>>();
+
+    constructor(private http: HttpClient, private assetCache: ModelAssetCacheService) {
+        this.loadCatalog();
+    }
+
+    /**
+     * Loads a catalog config and merges it over the current definitions (same ID replaces).
+     * Keeps the current catalog if the file is missing or invalid, adding the built-in model if it has none.
+     */
+    loadCatalog(url: string = this.configUrl): void {
+        this.http.get<ModelCatalogConfig>(url)
+            .pipe(
+                tap(config => {
+                    if (!config || !Array.isArray(config.models)) {
+                        console.warn('Model catalog config has no "models" list; ignoring it.');
+                        this.registerFallbackDefinitions();
+                        return;
+                    }
+                    config.models.forEach(definition => {
+                        if (definition?.id && definition.assetUrl) {
+                            this.registerDefinition(definition);
+                        } else {
+                            console.warn('Skipping invalid model catalog entry:', definition);
+                        }
+                    });
+                }),
+                catchError(error => {
+                    console.warn(`Could not load the model catalog from ${url}, using the built-in one:`, error);
+                    this.registerFallbackDefinitions();
+                    return of(null);
+                })
+            ).subscribe();
+    }
+
+    private registerFallbackDefinitions(): void {
+        if (this._definitions.getValue().length === 0) {
+            FALLBACK_MODEL_DEFINITIONS.forEach(definition => this.registerDefinition(definition));
+        }
+    }
+
+    /**
+     * Adds a model definition or replaces the one with the same ID.
+     */
+    registerDefinition(definition: ModelDefinition): void {
+        const others = this._definitions.getValue().filter(d => d.id !== definition.id);
+        this._definitions.next([...others, { ...definition, uHeight: Math.max(1, Math.round(definition.uHeight || 1)) }]);
+    }
+
+    getDefinitions(): ModelDefinition[] {
+        return this._definitions.getValue();
+    }
+
+    getDefinition(modelDefinitionId: string): ModelDefinition | undefined {
+        return this._definitions.getValue().find(d => d.id === modelDefinitionId);
+    }
+
+    /**
+     * Finds the ports of a model by loading its GLB (once) and looking for `_Indicator` and `_Attach` nodes.
+     */
+    discoverPorts(assetUrl: string): Promise<DiscoveredPorts> {
+        let ports = this.discoveredPorts.get(assetUrl);
+        if (!ports) {
+            ports = this.assetCache.getTemplate(assetUrl).then(template => this.findPorts(template));
+            ports.catch(() => this.discoveredPorts.delete(assetUrl)); // Retry once the asset can be loaded
+            this.discoveredPorts.set(assetUrl, ports);
+        }
+        return ports;
+    }
+
+    /**
+     * Default port states of a model: every indicator in its GLB, inactive and not blinking.
+     */
+    async getDefaultPorts(modelDefinitionId: string): Promise<PortState[]> {
+        const definition = this.getDefinition(modelDefinitionId);
+        if (!definition) {
+            throw new Error(`Unknown model definition ${modelDefinitionId}.`);
+        }
+        const { indicatorNames } = await this.discoverPorts(definition.assetUrl);
+        return indicatorNames.map(name => ({ name, status: 'inactive', blinking: false }));
+    }
+
+    /**
+     * A new model instance of a catalog model, with its default ports and an ID and display name
+     * not used by any of `takenIds` yet.
+     */
+    async createInstance(
+        modelDefinitionId: string,
+        position: Vector3D,
+        takenIds: string[],
+        rotation: EulerRotation = { x: 0, y: 0, z: 0 }
+    ): Promise<ModelInstance> {
+        const definition = this.getDefinition(modelDefinitionId);
+        if (!definition) {
+            throw new Error(`Unknown model definition ${modelDefinitionId}.`);
+        }
+        const ports = await this.getDefaultPorts(modelDefinitionId);
+        const base = definition.id.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+        const taken = new Set(takenIds);
+        let n = 1;
+        while (taken.has(`${base}-${n}`)) {
+            n++;
+        }
+        return {
+            id: `${base}-${n}`,
+            modelDefinitionId: definition.id,
+            assetUrl: definition.assetUrl,
+            displayName: `${definition.name} ${n}`,
+            position,
+            rotation,
+            ports,
+            uHeight: definition.uHeight
+        };
+    }
+
+    private findPorts(template: THREE.Object3D): DiscoveredPorts {
+        const indicatorNames: string[] = [];
+        const attachNames: string[] = [];
+        template.traverse(child => {
+            if (isPortIndicatorName(child.name)) {
+                indicatorNames.push(child.name);
+            } else if (isPortAttachName(child.name)) {
+                attachNames.push(child.name);
+            }
+        });
+        const attachBases = new Set(attachNames.map(getPortBaseName));
+        indicatorNames.sort(naturalOrder);
+        attachNames.sort(naturalOrder);
+        return {
+            indicatorNames,
+            attachNames,
+            withoutAttach: indicatorNames.filter(name => !attachBases.has(getPortBaseName(name)))
+        };
+    }
+}
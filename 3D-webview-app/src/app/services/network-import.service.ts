@@ -0,0 +1,62 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { firstValueFrom } from 'rxjs';
+import { NetworkImportError, detectNetworkFormat, parseNetwork } from './network-importers';
+import { NetworkImportResult, NetworkMappingConfig, buildTopologyFromNetwork } from './network-mapping';
+
+const EMPTY_MAPPING: NetworkMappingConfig = { deviceTypes: [] };
+
+/**
+ * Builds layouts from LLDP/CDP neighbor tables, Graphviz DOT graphs and NetBox exports.
+ * Device types and interface names are mapped onto models and ports by the mapping table
+ * (config/network-mapping.json), which is loaded on first use.
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class NetworkImportService {
+    private mappingUrl = 'config/network-mapping.json'; // Served from /public
+    private mapping: Promise<NetworkMappingConfig> | null = null;
+
+    constructor(private http: HttpClient) { }
+
+    /**
+     * Whether a file is in one of the supported network formats (rather than, say, a topology file).
+     */
+    canImport(fileName: string, text: string): boolean {
+        return detectNetworkFormat(fileName, text) !== null;
+    }
+
+    /**
+     * Turns a network export into a layout plus a report of what couldn't be mapped.
+     * Rejects with a NetworkImportError if the file can't be read at all.
+     */
+    async importText(fileName: string, text: string): Promise<NetworkImportResult> {
+        const format = detectNetworkFormat(fileName, text);
+        if (!format) {
+            throw new NetworkImportError(`${fileName} is not an LLDP/CDP neighbor CSV, DOT graph or NetBox export.`);
+        }
+        const network = parseNetwork(format, text);
+        return buildTopologyFromNetwork(network, await this.getMapping(), format, fileName);
+    }
+
+    /**
+     * Replaces the mapping table, e.g. with one for a site's own device types.
+     */
+    setMapping(config: NetworkMappingConfig): void {
+        this.mapping = Promise.resolve(config);
+    }
+
+    private getMapping(): Promise<NetworkMappingConfig> {
+        if (!this.mapping) {
+            this.mapping = firstValueFrom(this.http.get<NetworkMappingConfig>(this.mappingUrl))
+                .then(config => Array.isArray(config?.deviceTypes) ? config : EMPTY_MAPPING)
+                .catch(error => {
+                    console.warn(`Could not load the network mapping table from ${this.mappingUrl}; no device will be mapped:`, error);
+                    this.mapping = null; // Try again on the next import
+                    return EMPTY_MAPPING;
+                });
+        }
+        return this.mapping;
+    }
+}
@@ -0,0 +1,130 @@
+import { detectNetworkFormat, NetworkImportError, parseDot, parseLldpCsv, parseNetBoxJson } from './network-importers';
+
+describe('detectNetworkFormat', () => {
+  it('goes by the file extension first', () => {
+    expect(detectNetworkFormat('neighbors.CSV', '')).toBe('lldp-csv');
+    expect(detectNetworkFormat('neighbors.tsv', '')).toBe('lldp-csv');
+    expect(detectNetworkFormat('network.gv', '')).toBe('dot');
+  });
+
+  it('recognizes DOT graphs and NetBox exports by their content', () => {
+    expect(detectNetworkFormat('export.txt', '  strict digraph net {}')).toBe('dot');
+    expect(detectNetworkFormat('export.json', '{"devices": [], "cables": []}')).toBe('netbox');
+    expect(detectNetworkFormat('export.json', '{"devices": []}')).toBeNull();
+    expect(detectNetworkFormat('export.json', '{ not json')).toBeNull();
+  });
+});
+
+describe('parseLldpCsv', () => {
+  it('reads neighbors by header aliases and keeps links reported from both sides once', () => {
+    const network = parseLldpCsv([
+      'Local Device,Local Interface,Neighbor,Port ID,Platform,Site',
+      'sw1,Gi1/0/1,sw2,Gi1/0/48,WS-C2960X,hall-1',
+      'sw2,Gi1/0/48,sw1,Gi1/0/1,,hall-1'
+    ].join('\n'));
+    expect(network.devices).toEqual([
+      { name: 'sw1', deviceType: undefined, room: 'hall-1' },
+      { name: 'sw2', deviceType: 'WS-C2960X', room: 'hall-1' }
+    ]);
+    expect(network.links).toEqual([{ a: { device: 'sw1', interface: 'Gi1/0/1' }, b: { device: 'sw2', interface: 'Gi1/0/48' } }]);
+    expect(network.warnings).toEqual([]);
+  });
+
+  it('detects semicolon and tab separators and quoted cells', () => {
+    const semicolons = parseLldpCsv('hostname;remote_host;remote-port\r\n"core;1";sw1;"Te1/1"\r\n');
+    expect(semicolons.links).toEqual([{ a: { device: 'core;1', interface: undefined }, b: { device: 'sw1', interface: 'Te1/1' } }]);
+    const tabs = parseLldpCsv('source\ttarget\nsw1\tsw2\n');
+    expect(tabs.devices.map(device => device.name)).toEqual(['sw1', 'sw2']);
+  });
+
+  it('skips rows without both devices with a warning', () => {
+    const network = parseLldpCsv('device,neighbor\nsw1,\nsw1,sw2');
+    expect(network.links.length).toBe(1);
+    expect(network.warnings).toEqual(['Row 2: no local device or neighbor; skipped.']);
+  });
+
+  it('rejects tables without the device columns', () => {
+    expect(() => parseLldpCsv('device,neighbor')).toThrowError(NetworkImportError);
+    expect(() => parseLldpCsv('interface,port\na,b')).toThrowError(NetworkImportError, /local device and a neighbor column/);
+  });
+});
+
+describe('parseDot', () => {
+  it('reads nodes with their types and edges with their interfaces', () => {
+    const network = parseDot(`
+      graph lab {
+        rankdir=LR; // left to right
+        node [shape=box];
+        "sw1" [type="WS-C2960X", room=hall-1];
+        sw1:"Gi1/0/1" -- sw2:"Gi1/0/2";
+        sw2 -- r1 [taillabel="Gi1/0/48", headlabel="ge-0/0/0"];
+        /* a chain: labels don't apply */
+        r1:n -- fw1 -- sw1 [taillabel="x"];
+      }`);
+    expect(network.devices).toEqual([
+      { name: 'sw1', deviceType: 'WS-C2960X', room: 'hall-1' },
+      { name: 'sw2', deviceType: undefined, room: undefined },
+      { name: 'r1', deviceType: undefined, room: undefined },
+      { name: 'fw1', deviceType: undefined, room: undefined }
+    ]);
+    expect(network.links).toEqual([
+      { a: { device: 'sw1', interface: 'Gi1/0/1' }, b: { device: 'sw2', interface: 'Gi1/0/2' } },
+      { a: { device: 'sw2', interface: 'Gi1/0/48' }, b: { device: 'r1', interface: 'ge-0/0/0' } },
+      { a: { device: 'r1', interface: undefined }, b: { device: 'fw1', interface: undefined } },
+      { a: { device: 'fw1', interface: undefined }, b: { device: 'sw1', interface: undefined } }
+    ]);
+  });
+
+  it('rejects text that is not a graph', () => {
+    expect(() => parseDot('network { a -- b }')).toThrowError(NetworkImportError, /expected "graph" or "digraph"/);
+    expect(() => parseDot('graph { a -- ')).toThrowError(NetworkImportError, /Unexpected end of file/);
+  });
+});
+
+describe('parseNetBoxJson', () => {
+  it('reads devices and cables from NetBox 3.3+ terminations', () => {
+    const network = parseNetBoxJson(JSON.stringify({
+      devices: {
+        results: [
+          { id: 1, name: 'sw1', device_type: { model: 'WS-C2960X' }, site: { name: 'dc-1' }, location: { name: 'hall-1' } },
+          { id: 2, display: 'sw2', device_type: 'EX4300', site: 'dc-1' }
+        ]
+      },
+      cables: [
+        {
+          id: 10,
+          a_terminations: [{ object_type: 'dcim.interface', object: { device: { id: 1 }, name: 'Gi1/0/1' } }],
+          b_terminations: [{ object_type: 'dcim.interface', object: { device: { name: 'sw2' }, name: 'ge-0/0/0' } }]
+        }
+      ]
+    }));
+    expect(network.devices).toEqual([
+      { name: 'sw1', deviceType: 'WS-C2960X', room: 'hall-1' },
+      { name: 'sw2', deviceType: 'EX4300', room: 'dc-1' }
+    ]);
+    expect(network.links).toEqual([{ a: { device: 'sw1', interface: 'Gi1/0/1' }, b: { device: 'sw2', interface: 'ge-0/0/0' } }]);
+  });
+
+  it('reads older termination_a/termination_b cables and skips those not between interfaces', () => {
+    const network = parseNetBoxJson(JSON.stringify({
+      devices: [{ id: 1, name: 'sw1' }, {}],
+      cables: [
+        { id: 11, termination_a: { device: 'sw1', name: 'Gi1' }, termination_b: { device: { display: 'sw3' }, name: 'Gi2' } },
+        { label: 'patch-7', termination_a: { termination_type: 'dcim.frontport', device: 'sw1' }, termination_b: { device: 'sw3' } },
+        { termination_a: { object_type: 'dcim.powerport', device: 'sw1' }, termination_b: { device: 'sw3' } }
+      ]
+    }));
+    expect(network.devices.map(device => device.name)).toEqual(['sw1', 'sw3']);
+    expect(network.links).toEqual([{ a: { device: 'sw1', interface: 'Gi1' }, b: { device: 'sw3', interface: 'Gi2' } }]);
+    expect(network.warnings).toEqual([
+      'Device #2 has no name; skipped.',
+      'Cable patch-7 doesn\'t connect two device interfaces; skipped.',
+      'Cable #3 doesn\'t connect two device interfaces; skipped.'
+    ]);
+  });
+
+  it('rejects files without devices or cables', () => {
+    expect(() => parseNetBoxJson('{')).toThrowError(NetworkImportError, /not valid JSON/);
+    expect(() => parseNetBoxJson('{"devices": {"results": []}}')).toThrowError(NetworkImportError, /no "devices" or "cables"/);
+  });
+});
@@ -0,0 +1,427 @@
+// Parsers for network inventories exported by other tools. Each one turns its format into the same
+// neutral ImportedNetwork (devices and links by name), which network-mapping then maps onto models and ports.
+
+export type NetworkImportFormat = 'lldp-csv' | 'dot' | 'netbox';
+
+export interface ImportedDevice {
+    name: string; // Hostname, unique within the import
+    deviceType?: string; // Model / platform as the source reports it, e.g. 'WS-C2960X-48TS-L'
+    room?: string; // Site or location
+}
+
+export interface ImportedLinkEnd {
+    device: string; // ImportedDevice.name
+    interface?: string; // e.g. 'GigabitEthernet1/0/1'; some sources leave it out
+}
+
+export interface ImportedLink {
+    a: ImportedLinkEnd;
+    b: ImportedLinkEnd;
+}
+
+export interface ImportedNetwork {
+    devices: ImportedDevice[];
+    links: ImportedLink[];
+    warnings: string[]; // Lines or entries that had to be skipped while parsing
+}
+
+/**
+ * Raised when a file can't be read as the given format at all (as opposed to single bad entries,
+ * which end up in ImportedNetwork.warnings).
+ */
+export class NetworkImportError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'NetworkImportError';
+    }
+}
+
+/**
+ * Guesses the format of a file from its name and content; null if it is none of the supported ones.
+ */
+export function detectNetworkFormat(fileName: string, text: string): NetworkImportFormat | null {
+    const name = fileName.toLowerCase();
+    if (name.endsWith('.csv') || name.endsWith('.tsv')) {
+        return 'lldp-csv';
+    }
+    if (name.endsWith('.dot') || name.endsWith('.gv')) {
+        return 'dot';
+    }
+    const start = text.trimStart();
+    if (/^(strict\s+)?(di)?graph\b/i.test(start)) {
+        return 'dot';
+    }
+    if (start.startsWith('{')) {
+        try {
+            const json = JSON.parse(text);
+            if (json && typeof json === 'object' && 'devices' in json && 'cables' in json) {
+                return 'netbox';
+            }
+        } catch {
+            return null;
+        }
+    }
+    return null;
+}
+
+export function parseNetwork(format: NetworkImportFormat, text: string): ImportedNetwork {
+    switch (format) {
+        case 'lldp-csv':
+            return parseLldpCsv(text);
+        case 'dot':
+            return parseDot(text);
+        case 'netbox':
+            return parseNetBoxJson(text);
+    }
+}
+
+// --- LLDP / CDP neighbor tables ---
+
+// Accepted header names per column (compared lowercased, without spaces, dashes and underscores)
+const CSV_COLUMNS = {
+    localDevice: ['localdevice', 'device', 'hostname', 'localhost', 'localsystemname', 'localname', 'source'],
+    localInterface: ['localinterface', 'localport', 'localintf', 'interface', 'sourceinterface', 'sourceport'],
+    localType: ['localtype', 'localplatform', 'localmodel', 'devicetype'],
+    remoteDevice: ['remotedevice', 'neighbor', 'neighbour', 'neighbordevice', 'remotehost', 'remotesystemname', 'systemname', 'deviceid', 'target'],
+    remoteInterface: ['remoteinterface', 'remoteport', 'neighborinterface', 'neighborport', 'portid', 'targetinterface', 'targetport'],
+    remoteType: ['remotetype', 'remoteplatform', 'remotemodel', 'neighborplatform', 'platform'],
+    localRoom: ['site', 'location', 'room', 'localsite'],
+};
+
+/**
+ * Neighbor table with one row per neighbor, e.g. exported from `show lldp neighbors` or `show cdp neighbors`.
+ * Needs a header row naming at least the local device and the neighbor; comma, semicolon and tab separators work.
+ */
+export function parseLldpCsv(text: string): ImportedNetwork {
+    const rows = parseCsv(text);
+    if (rows.length < 2) {
+        throw new NetworkImportError('The neighbor table is empty or has no header row.');
+    }
+    const header = rows[0].map(cell => cell.toLowerCase().replace(/[\s_-]/g, ''));
+    const column = (aliases: string[]) => header.findIndex(cell => aliases.includes(cell));
+    const columns = Object.fromEntries(Object.entries(CSV_COLUMNS).map(([key, aliases]) => [key, column(aliases)])) as Record<keyof typeof CSV_COLUMNS, number>;
+    if (columns.localDevice < 0 || columns.remoteDevice < 0) {
+        throw new NetworkImportError(`The neighbor table needs a local device and a neighbor column; found ${rows[0].join(', ')}.`);
+    }
+
+    const network = createNetworkBuilder();
+    rows.slice(1).forEach((row, i) => {
+        const cell = (index: number) => index >= 0 ? row[index]?.trim() || undefined : undefined;
+        const localDevice = cell(columns.localDevice);
+        const remoteDevice = cell(columns.remoteDevice);
+        if (!localDevice || !remoteDevice) {
+            network.warnings.push(`Row ${i + 2}: no local device or neighbor; skipped.`);
+            return;
+        }
+        network.addDevice({ name: localDevice, deviceType: cell(columns.localType), room: cell(columns.localRoom) });
+        network.addDevice({ name: remoteDevice, deviceType: cell(columns.remoteType) });
+        network.addLink(
+            { device: localDevice, interface: cell(columns.localInterface) },
+            { device: remoteDevice, interface: cell(columns.remoteInterface) }
+        );
+    });
+    return network.build();
+}
+
+// Splits CSV text into rows of cells, honoring double-quoted cells (which may contain separators, quotes and newlines)
+function parseCsv(text: string): string[][] {
+    const firstLine = text.split(/\r?\n/, 1)[0];
+    const separator = [',', ';', '\t'].reduce((best, candidate) =>
+        firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best, ',');
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"' && cell === '') {
+            quoted = true;
+        } else if (char === separator) {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') {
+                i++;
+            }
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    row.push(cell);
+    rows.push(row);
+    return rows.filter(r => r.some(c => c.trim() !== ''));
+}
+
+// --- Graphviz DOT ---
+
+// Node attributes that may hold the device type, in order of preference
+const DOT_TYPE_ATTRIBUTES = ['device_type', 'type', 'model', 'platform'];
+
+/**
+ * Graph of devices (nodes) and cables (edges). Interfaces come from port syntax (`sw1:"Gi1/0/1" -- sw2:"Gi1/0/2"`)
+ * or from `taillabel`/`headlabel` (or `tailport`/`headport`) edge attributes; device types from a `type` node attribute.
+ */
+export function parseDot(text: string): ImportedNetwork {
+    const tokens = tokenizeDot(text);
+    let pos = 0;
+    const peek = () => tokens[pos];
+    const next = () => tokens[pos++];
+    const accept = (value: string) => {
+        if (peek()?.value === value && !peek()?.quoted) {
+            pos++;
+            return true;
+        }
+        return false;
+    };
+
+    // Header: [strict] (graph | digraph) [id] {
+    accept('strict');
+    if (!accept('graph') && !accept('digraph')) {
+        throw new NetworkImportError('Not a DOT graph: expected "graph" or "digraph".');
+    }
+    if (peek() && peek().value !== '{') {
+        next();
+    }
+    if (!accept('{')) {
+        throw new NetworkImportError('Not a DOT graph: expected "{" after the graph name.');
+    }
+
+    const network = createNetworkBuilder();
+    const parseAttributes = (): Record<string, string> => {
+        const attributes: Record<string, string> = {};
+        while (accept('[')) {
+            while (peek() && !accept(']')) {
+                const key = next().value;
+                if (accept('=')) {
+                    attributes[key.toLowerCase()] = next()?.value ?? '';
+                }
+                accept(',') || accept(';');
+            }
+        }
+        return attributes;
+    };
+    const parseEndpoint = (): { node: string, port?: string } => {
+        const token = next();
+        if (!token || (!token.quoted && /^[\[\]=,:]$|^-[->]$/.test(token.value))) {
+            throw new NetworkImportError(`Unexpected ${token ? '"' + token.value + '"' : 'end of file'} in the DOT graph.`);
+        }
+        const node = token.value;
+        // node:port[:compass]; a compass point alone (n, se, ...) names no interface
+        const port = accept(':') ? next()?.value : undefined;
+        if (accept(':')) {
+            next();
+        }
+        return { node, port: port && !/^(n|ne|e|se|s|sw|w|nw|c|_)$/.test(port) ? port : undefined };
+    };
+
+    while (pos < tokens.length) {
+        const token = peek();
+        if (!token.quoted && (token.value === '}' || token.value === '{' || token.value === ';')) {
+            pos++;
+            continue;
+        }
+        if (!token.quoted && ['graph', 'node', 'edge'].includes(token.value.toLowerCase()) && tokens[pos + 1]?.value === '[') {
+            pos++;
+            parseAttributes(); // Defaults for the following statements; nothing the import needs
+            continue;
+        }
+        if (!token.quoted && token.value.toLowerCase() === 'subgraph') {
+            pos++;
+            if (peek() && peek().value !== '{') {
+                next();
+            }
+            continue;
+        }
+        if (tokens[pos + 1]?.value === '=' && !tokens[pos + 1].quoted) {
+            pos += 3; // Graph attribute (e.g. rankdir=LR)
+            continue;
+        }
+
+        // Node statement, or an edge chain a -- b -- c
+        const endpoints = [parseEndpoint()];
+        while (accept('--') || accept('->')) {
+            endpoints.push(parseEndpoint());
+        }
+        const attributes = parseAttributes();
+        if (endpoints.length === 1) {
+            const type = DOT_TYPE_ATTRIBUTES.map(key => attributes[key]).find(value => value);
+            network.addDevice({ name: endpoints[0].node, deviceType: type, room: attributes['room'] ?? attributes['site'] });
+        } else {
+            endpoints.forEach(endpoint => network.addDevice({ name: endpoint.node }));
+            for (let i = 0; i < endpoints.length - 1; i++) {
+                // Labels only make sense on a single edge; in a chain they'd apply to every hop
+                const single = endpoints.length === 2;
+                network.addLink(
+                    { device: endpoints[i].node, interface: endpoints[i].port ?? (single ? attributes['taillabel'] ?? attributes['tailport'] : undefined) },
+                    { device: endpoints[i + 1].node, interface: endpoints[i + 1].port ?? (single ? attributes['headlabel'] ?? attributes['headport'] : undefined) }
+                );
+            }
+        }
+    }
+    return network.build();
+}
+
+function tokenizeDot(text: string): { value: string, quoted: boolean }[] {
+    const tokens: { value: string, quoted: boolean }[] = [];
+    const pattern = /\/\*[\s\S]*?\*\/|\/\/[^\n]*|^\s*#[^\n]*|"((?:[^"\\]|\\[\s\S])*)"|<[^>]*>|--|->|[{}\[\];,=:]|[^\s{}\[\];,=:"]+/gm;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+        const value = match[0];
+        if (value.startsWith('/*') || value.startsWith('//') || value.trimStart().startsWith('#')) {
+            continue; // Comment
+        }
+        if (match[1] !== undefined) {
+            tokens.push({ value: match[1].replace(/\\(["\\])/g, '$1').replace(/\\\n/g, ''), quoted: true });
+        } else if (value.startsWith('<')) {
+            tokens.push({ value: value.slice(1, -1), quoted: true }); // HTML label
+        } else {
+            tokens.push({ value, quoted: false });
+        }
+    }
+    return tokens;
+}
+
+// --- NetBox ---
+
+/**
+ * NetBox-style export: `{ devices: [...], cables: [...] }`, as returned by the REST API (either the plain lists
+ * or the paginated `{ results: [...] }` objects). Cables may use `a_terminations`/`b_terminations` (NetBox 3.3+)
+ * or the older `termination_a`/`termination_b`; only cables between device interfaces are imported.
+ */
+export function parseNetBoxJson(text: string): ImportedNetwork {
+    let json: unknown;
+    try {
+        json = JSON.parse(text);
+    } catch (error) {
+        throw new NetworkImportError(`The file is not valid JSON: ${(error as Error).message}`);
+    }
+    const root = asRecord(json);
+    const devices = asNetBoxList(root?.['devices']);
+    const cables = asNetBoxList(root?.['cables']);
+    if (devices.length === 0 && cables.length === 0) {
+        throw new NetworkImportError('The file has no "devices" or "cables" to import.');
+    }
+
+    const network = createNetworkBuilder();
+    const namesById = new Map<unknown, string>();
+    devices.forEach((item, i) => {
+        const device = asRecord(item);
+        const name = pickString(device, 'name', 'display');
+        if (!device || !name) {
+            network.warnings.push(`Device #${i + 1} has no name; skipped.`);
+            return;
+        }
+        namesById.set(device['id'], name);
+        const deviceType = device['device_type'];
+        network.addDevice({
+            name,
+            deviceType: asString(deviceType) ?? pickString(deviceType, 'model', 'slug', 'display'),
+            room: pickString(device['location'], 'name') ?? pickString(device['site'], 'name') ?? asString(device['site'])
+        });
+    });
+
+    const toEnd = (value: unknown): ImportedLinkEnd | null => {
+        const termination = asRecord(value);
+        const object = asRecord(termination?.['object']) ?? termination; // 3.3+ wraps the interface in `object`
+        const type = pickString(termination, 'object_type', 'termination_type');
+        if (type && type !== 'dcim.interface') {
+            return null; // Front/rear ports, circuits, power: not a device port
+        }
+        const device = object?.['device'];
+        const name = asString(device) ?? pickString(device, 'name', 'display') ?? namesById.get(asRecord(device)?.['id'] ?? device);
+        return name ? { device: name, interface: pickString(object, 'name') } : null;
+    };
+    cables.forEach((item, i) => {
+        const cable = asRecord(item);
+        const a = toEnd(firstItem(cable?.['a_terminations']) ?? cable?.['termination_a']);
+        const b = toEnd(firstItem(cable?.['b_terminations']) ?? cable?.['termination_b']);
+        if (!a || !b) {
+            const id = cable?.['id'];
+            const label = pickString(cable, 'label') ?? (typeof id === 'number' || typeof id === 'string' ? String(id) : `#${i + 1}`);
+            network.warnings.push(`Cable ${label} doesn't connect two device interfaces; skipped.`);
+            return;
+        }
+        network.addDevice({ name: a.device });
+        network.addDevice({ name: b.device });
+        network.addLink(a, b);
+    });
+    return network.build();
+}
+
+// Helpers to read untrusted JSON without trusting its shape
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Record<string, unknown> : undefined;
+}
+
+function asString(value: unknown): string | undefined {
+    return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+// The first non-empty string among the given fields of an object
+function pickString(value: unknown, ...keys: string[]): string | undefined {
+    const record = asRecord(value);
+    for (const key of keys) {
+        const found = asString(record?.[key]);
+        if (found) {
+            return found;
+        }
+    }
+    return undefined;
+}
+
+function firstItem(value: unknown): unknown {
+    return Array.isArray(value) ? value[0] : undefined;
+}
+
+// A plain list, or a paginated `{ results: [...] }` object
+function asNetBoxList(value: unknown): unknown[] {
+    if (Array.isArray(value)) {
+        return value;
+    }
+    const results = asRecord(value)?.['results'];
+    return Array.isArray(results) ? results : [];
+}
+
+// Collects devices (merging what several rows/statements say about one device) and links without duplicates
+function createNetworkBuilder() {
+    const devices = new Map<string, ImportedDevice>();
+    const links = new Map<string, ImportedLink>();
+    const warnings: string[] = [];
+    const endKey = (end: ImportedLinkEnd) => `${end.device}\u0000${end.interface ?? ''}`;
+    return {
+        warnings,
+        addDevice(device: ImportedDevice): void {
+            const known = devices.get(device.name);
+            devices.set(device.name, {
+                name: device.name,
+                deviceType: known?.deviceType ?? device.deviceType,
+                room: known?.room ?? device.room
+            });
+        },
+        addLink(a: ImportedLinkEnd, b: ImportedLinkEnd): void {
+            // Neighbor tables list every link from both sides; keep it once
+            const key = [endKey(a), endKey(b)].sort().join('\u0001');
+            if (!links.has(key)) {
+                links.set(key, { a, b });
+            }
+        },
+        build(): ImportedNetwork {
+            return { devices: [...devices.values()], links: [...links.values()], warnings };
+        }
+    };
+}
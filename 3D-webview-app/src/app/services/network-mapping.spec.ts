@@ -0,0 +1,123 @@
+import { ImportedNetwork } from './network-importers';
+import { buildTopologyFromNetwork, DeviceTypeMapping, mapInterface, NetworkMappingConfig } from './network-mapping';
+
+const ROUTER: DeviceTypeMapping = {
+  match: '^ISR',
+  modelDefinitionId: 'TestRouter',
+  assetUrl: 'assets/models/test-router.glb',
+  interfaces: [{ match: '^Gi(?:gabitEthernet)?0/0/(\\d+)$', port: 'TestRouter_Port{1}', indexOffset: 1, indexPadding: 2 }]
+};
+
+const FALLBACK: NetworkMappingConfig['fallback'] = {
+  modelDefinitionId: 'GenericDevice',
+  assetUrl: 'assets/models/generic-device.glb',
+  interfaces: [{ match: '^eth(\\d+)$', port: 'GenericDevice_Port{1}' }]
+};
+
+function network(parts: Partial<ImportedNetwork>): ImportedNetwork {
+  return { devices: [], links: [], warnings: [], ...parts };
+}
+
+function build(imported: ImportedNetwork, mapping: NetworkMappingConfig = { deviceTypes: [ROUTER] }) {
+  return buildTopologyFromNetwork(imported, mapping, 'lldp-csv', 'neighbors.csv');
+}
+
+describe('mapInterface', () => {
+  it('substitutes capture groups with the index offset and padding applied', () => {
+    expect(mapInterface(ROUTER.interfaces, 'GigabitEthernet0/0/0')).toBe('TestRouter_Port01');
+    expect(mapInterface(ROUTER.interfaces, ' Gi0/0/11 ')).toBe('TestRouter_Port12');
+  });
+
+  it('leaves non-numeric groups as they are and fills missing ones with nothing', () => {
+    const mappings = [{ match: '^(mgmt)(\\d)?$', port: 'Box_{1}{2}{3}', indexOffset: 1, indexPadding: 2 }];
+    expect(mapInterface(mappings, 'MGMT')).toBe('Box_MGMT');
+    expect(mapInterface(mappings, 'mgmt0')).toBe('Box_mgmt01');
+  });
+
+  it('uses the first matching mapping and returns null when none matches', () => {
+    const mappings = [{ match: '^Te', port: 'Uplink' }, { match: '.*', port: 'Other' }];
+    expect(mapInterface(mappings, 'Te1/1')).toBe('Uplink');
+    expect(mapInterface(mappings, 'Gi1/1')).toBe('Other');
+    expect(mapInterface(ROUTER.interfaces, 'Serial0/1')).toBeNull();
+  });
+});
+
+describe('buildTopologyFromNetwork', () => {
+  it('turns devices into models and links into cables between mapped ports', () => {
+    const { layout, report } = build(network({
+      devices: [{ name: 'Edge 1', deviceType: 'ISR4331' }, { name: 'Edge 2', deviceType: 'ISR4331' }],
+      links: [{ a: { device: 'Edge 1', interface: 'Gi0/0/0' }, b: { device: 'Edge 2', interface: 'Gi0/0/1' } }]
+    }));
+    expect(layout.models.map(m => m.id)).toEqual(['edge-1', 'edge-2']);
+    expect(layout.connections).toEqual([{
+      id: 'cable-001',
+      source: { modelId: 'edge-1', portAttachName: 'TestRouter_Port01_Attach' },
+      target: { modelId: 'edge-2', portAttachName: 'TestRouter_Port02_Attach' }
+    }]);
+    expect(layout.models[0].ports).toEqual([{ name: 'TestRouter_Port01_Indicator', status: 'inactive', blinking: false, connectedCableId: 'cable-001' }]);
+    expect(report.importedCableCount).toBe(1);
+    expect(report.issues).toEqual([]);
+  });
+
+  it('skips unmapped devices without a fallback and imports them as the fallback otherwise', () => {
+    const imported = network({ devices: [{ name: 'srv1', deviceType: 'PowerEdge' }, { name: 'srv2' }] });
+
+    const skipped = build(imported);
+    expect(skipped.layout.models).toEqual([]);
+    expect(skipped.report.issues.map(issue => issue.kind)).toEqual(['unmapped-device', 'unmapped-device']);
+    expect(skipped.report.issues[1].message).toContain('no device type');
+
+    const fallback = build(imported, { deviceTypes: [ROUTER], fallback: FALLBACK });
+    expect(fallback.layout.models.map(m => m.modelDefinitionId)).toEqual(['GenericDevice', 'GenericDevice']);
+    expect(fallback.report.issues.map(issue => [issue.kind, issue.modelId])).toEqual([['fallback-device', 'srv1'], ['fallback-device', 'srv2']]);
+  });
+
+  it('reports an unmapped interface once per model definition and interface', () => {
+    const { layout, report } = build(network({
+      devices: [{ name: 'r1', deviceType: 'ISR' }, { name: 'r2', deviceType: 'ISR' }, { name: 'r3', deviceType: 'ISR' }],
+      links: [
+        { a: { device: 'r1', interface: 'Serial0/1' }, b: { device: 'r2', interface: 'Gi0/0/0' } },
+        { a: { device: 'r3', interface: 'Serial0/1' }, b: { device: 'r2', interface: 'Gi0/0/1' } },
+        { a: { device: 'r1', interface: 'Serial0/2' }, b: { device: 'r3', interface: 'Gi0/0/0' } }
+      ]
+    }));
+    expect(layout.connections).toEqual([]);
+    expect(report.issues.map(issue => [issue.kind, issue.modelId])).toEqual([
+      ['unmapped-interface', 'r1'],
+      ['unmapped-interface', 'r1']
+    ]);
+    expect(report.issues[1].message).toContain('Serial0/2');
+  });
+
+  it('skips links to a port that already has a cable and links from a port to itself', () => {
+    const { layout, report } = build(network({
+      devices: [{ name: 'r1', deviceType: 'ISR' }, { name: 'r2', deviceType: 'ISR' }, { name: 'r3', deviceType: 'ISR' }],
+      links: [
+        { a: { device: 'r1', interface: 'Gi0/0/0' }, b: { device: 'r2', interface: 'Gi0/0/0' } },
+        { a: { device: 'r3', interface: 'Gi0/0/0' }, b: { device: 'r2', interface: 'Gi0/0/0' } },
+        { a: { device: 'r3', interface: 'Gi0/0/1' }, b: { device: 'r3', interface: 'Gi0/0/1' } }
+      ]
+    }));
+    expect(layout.connections.length).toBe(1);
+    expect(report.issues.map(issue => [issue.kind, issue.modelId])).toEqual([['port-in-use', 'r2'], ['port-in-use', 'r3']]);
+    expect(report.issues[0].message).toContain('r2 Gi0/0/0 already has a cable');
+  });
+
+  it('ignores invalid patterns in the mapping table instead of failing the import', () => {
+    spyOn(console, 'warn');
+    const mapping: NetworkMappingConfig = {
+      deviceTypes: [
+        { ...ROUTER, match: '(' },
+        { ...ROUTER, match: 'ISR', interfaces: [{ match: '[', port: 'Broken' }, ...ROUTER.interfaces] }
+      ]
+    };
+    const { layout, report } = build(network({
+      devices: [{ name: 'r1', deviceType: 'ISR' }, { name: 'r2', deviceType: 'ISR' }],
+      links: [{ a: { device: 'r1', interface: 'Gi0/0/0' }, b: { device: 'r2', interface: 'Gi0/0/0' } }]
+    }), mapping);
+    expect(layout.models.length).toBe(2);
+    expect(layout.connections.length).toBe(1);
+    expect(report.issues).toEqual([]);
+    expect(console.warn).toHaveBeenCalled();
+  });
+});
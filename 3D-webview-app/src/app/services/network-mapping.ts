@@ -0,0 +1,225 @@
+import type { CableConnection, ModelInstance, PortState, TopologyLayout } from './topology-state.service';
+import { ImportedLinkEnd, ImportedNetwork, NetworkImportFormat } from './network-importers';
+import { applyLayoutPlacements, computeLayout } from './layout-strategies';
+import { attachToIndicatorName, indicatorToAttachName } from './port-naming';
+
+// Maps one interface naming scheme onto the ports of a model, e.g. GigabitEthernet0/0/1 -> TestRouter_Port02
+export interface InterfaceMapping {
+    match: string; // Case-insensitive regular expression on the interface name
+    port: string; // Port base name (without _Indicator/_Attach); {1}, {2}, ... insert capture groups
+    indexOffset?: number; // Added to numeric capture groups (e.g. 1 when interfaces count from 0 but ports from 1)
+    indexPadding?: number; // Zero-pads numeric capture groups to this many digits
+}
+
+export interface DeviceTypeMapping {
+    match: string; // Case-insensitive regular expression on the device type (or, if the source has none, the hostname)
+    modelDefinitionId: string;
+    assetUrl: string;
+    uHeight?: number;
+    interfaces: InterfaceMapping[]; // First match wins
+}
+
+// Shape of the mapping table config file
+export interface NetworkMappingConfig {
+    deviceTypes: DeviceTypeMapping[]; // First match wins
+    fallback?: Omit<DeviceTypeMapping, 'match'>; // For devices no entry matches; without it they are skipped
+}
+
+export type NetworkImportIssueKind = 'parse' | 'unmapped-device' | 'fallback-device' | 'unmapped-interface' | 'missing-interface' | 'port-in-use';
+
+export interface NetworkImportIssue {
+    kind: NetworkImportIssueKind;
+    message: string;
+    modelId?: string; // Set when the device made it into the layout, so the report can point at it
+}
+
+export interface NetworkImportReport {
+    format: NetworkImportFormat;
+    source: string; // File name
+    deviceCount: number; // In the source
+    importedDeviceCount: number;
+    linkCount: number; // In the source, each link counted once
+    importedCableCount: number;
+    issues: NetworkImportIssue[];
+}
+
+export interface NetworkImportResult {
+    layout: TopologyLayout;
+    report: NetworkImportReport;
+}
+
+/**
+ * Builds a layout from an imported network: devices become models (placed automatically), links become cables.
+ * Whatever the mapping table can't place is left out and listed in the report.
+ */
+export function buildTopologyFromNetwork(
+    network: ImportedNetwork,
+    mapping: NetworkMappingConfig,
+    format: NetworkImportFormat,
+    source: string
+): NetworkImportResult {
+    const issues: NetworkImportIssue[] = network.warnings.map(message => ({ kind: 'parse', message }));
+    const reported = new Set<string>(); // Report each unmapped interface naming once per device type
+    const models = new Map<string, ModelInstance>(); // By device name
+    const mappings = new Map<string, Omit<DeviceTypeMapping, 'match'>>(); // By device name
+    const usedIds = new Set<string>();
+
+    network.devices.forEach(device => {
+        const entry = findDeviceMapping(mapping, device.deviceType ?? device.name);
+        const deviceMapping = entry ?? mapping.fallback;
+        const typeLabel = device.deviceType ? `type "${device.deviceType}"` : 'no device type';
+        if (!deviceMapping) {
+            issues.push({ kind: 'unmapped-device', message: `${device.name} (${typeLabel}) matches no device mapping; skipped with its cables.` });
+            return;
+        }
+        const id = uniqueId(slugify(device.name), usedIds);
+        if (!entry) {
+            issues.push({ kind: 'fallback-device', message: `${device.name} (${typeLabel}) matches no device mapping; imported as ${deviceMapping.modelDefinitionId}.`, modelId: id });
+        }
+        mappings.set(device.name, deviceMapping);
+        models.set(device.name, {
+            id,
+            modelDefinitionId: deviceMapping.modelDefinitionId,
+            assetUrl: deviceMapping.assetUrl,
+            displayName: device.name,
+            position: { x: 0, y: 0, z: 0 },
+            rotation: { x: 0, y: 0, z: 0 },
+            ports: [],
+            uHeight: deviceMapping.uHeight,
+            room: device.room
+        });
+    });
+
+    const connections: CableConnection[] = [];
+    // Port base name the end of a link plugs into
+    const portFor = (end: ImportedLinkEnd): string | null => {
+        const model = models.get(end.device)!;
+        if (!end.interface) {
+            issues.push({ kind: 'missing-interface', message: `A link of ${end.device} doesn't say which interface it uses; skipped.`, modelId: model.id });
+            return null;
+        }
+        const deviceMapping = mappings.get(end.device)!;
+        const port = mapInterface(deviceMapping.interfaces, end.interface);
+        if (!port) {
+            const key = `${deviceMapping.modelDefinitionId}\u0000${end.interface}`;
+            if (!reported.has(key)) {
+                reported.add(key);
+                issues.push({
+                    kind: 'unmapped-interface',
+                    message: `Interface ${end.interface} of ${end.device} (${deviceMapping.modelDefinitionId}) matches no interface mapping; its cable is skipped.`,
+                    modelId: model.id
+                });
+            }
+            return null;
+        }
+        return port;
+    };
+
+    network.links.forEach(link => {
+        const a = models.get(link.a.device);
+        const b = models.get(link.b.device);
+        if (!a || !b) {
+            return; // Already reported with the device
+        }
+        const aPort = portFor(link.a);
+        const bPort = portFor(link.b);
+        if (!aPort || !bPort) {
+            return;
+        }
+        const inUse = [{ model: a, port: aPort, end: link.a }, { model: b, port: bPort, end: link.b }]
+            .find(({ model, port }) => model.ports.some(p => p.name === attachToIndicatorName(port) && p.connectedCableId));
+        if (inUse || (a === b && aPort === bPort)) {
+            const end = inUse?.end ?? link.a;
+            issues.push({
+                kind: 'port-in-use',
+                message: `${end.device} ${end.interface} already has a cable; the link ${link.a.device} ${link.a.interface} - ${link.b.device} ${link.b.interface} is skipped.`,
+                modelId: (inUse?.model ?? a).id
+            });
+            return;
+        }
+        const cableId = `cable-${String(connections.length + 1).padStart(3, '0')}`;
+        connections.push({
+            id: cableId,
+            source: { modelId: a.id, portAttachName: indicatorToAttachName(aPort) },
+            target: { modelId: b.id, portAttachName: indicatorToAttachName(bPort) }
+        });
+        addPort(a, attachToIndicatorName(aPort), cableId);
+        addPort(b, attachToIndicatorName(bPort), cableId);
+    });
+
+    const unplaced: TopologyLayout = {
+        id: slugify(source.replace(/\.[^.]+$/, '')) || 'imported-topology',
+        name: `Imported from ${source}`,
+        models: [...models.values()],
+        connections
+    };
+    // Connected devices end up next to each other; without cables a grid is clearer
+    const placements = computeLayout(connections.length > 0 ? 'force-directed' : 'grid-by-model', unplaced, () => undefined);
+    return {
+        layout: applyLayoutPlacements(unplaced, placements, () => undefined),
+        report: {
+            format,
+            source,
+            deviceCount: network.devices.length,
+            importedDeviceCount: models.size,
+            linkCount: network.links.length,
+            importedCableCount: connections.length,
+            issues
+        }
+    };
+}
+
+function findDeviceMapping(mapping: NetworkMappingConfig, deviceType: string): DeviceTypeMapping | undefined {
+    return mapping.deviceTypes.find(entry => safeRegExp(entry.match)?.test(deviceType));
+}
+
+/**
+ * Port base name for an interface, or null if no interface mapping matches.
+ */
+export function mapInterface(mappings: InterfaceMapping[], interfaceName: string): string | null {
+    for (const mapping of mappings) {
+        const match = safeRegExp(mapping.match)?.exec(interfaceName.trim());
+        if (match) {
+            return mapping.port.replace(/\{(\d+)\}/g, (_, group: string) => {
+                const value = match[Number(group)] ?? '';
+                if (!/^\d+$/.test(value)) {
+                    return value;
+                }
+                return String(Number(value) + (mapping.indexOffset ?? 0)).padStart(mapping.indexPadding ?? 0, '0');
+            });
+        }
+    }
+    return null;
+}
+
+function addPort(model: ModelInstance, name: string, connectedCableId: string): void {
+    const port: PortState = { name, status: 'inactive', blinking: false, connectedCableId };
+    model.ports = [...model.ports.filter(p => p.name !== name), port];
+}
+
+// A bad pattern in the config shouldn't break the import; it just never matches
+const regExpCache = new Map<string, RegExp | null>();
+function safeRegExp(pattern: string): RegExp | null {
+    if (!regExpCache.has(pattern)) {
+        try {
+            regExpCache.set(pattern, new RegExp(pattern, 'i'));
+        } catch (error) {
+            console.warn(`Ignoring invalid pattern "${pattern}" in the network mapping table:`, error);
+            regExpCache.set(pattern, null);
+        }
+    }
+    return regExpCache.get(pattern)!;
+}
+
+function slugify(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+function uniqueId(base: string, used: Set<string>): string {
+    let id = base || 'device';
+    for (let n = 2; used.has(id); n++) {
+        id = `${base || 'device'}-${n}`;
+    }
+    used.add(id);
+    return id;
+}
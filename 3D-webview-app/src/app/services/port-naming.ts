@@ -0,0 +1,39 @@
+// Port naming convention of the device GLBs: every port has a visible `<Port>_Indicator`
+// mesh and an invisible `<Port>_Attach` empty where cables plug in (e.g. 'Switch_ModelA_Port01_...').
+const INDICATOR_SUFFIX = '_Indicator';
+const ATTACH_SUFFIX = '_Attach';
+
+export function isPortIndicatorName(name: string): boolean {
+    return name.endsWith(INDICATOR_SUFFIX);
+}
+
+export function isPortAttachName(name: string): boolean {
+    return name.endsWith(ATTACH_SUFFIX);
+}
+
+/**
+ * `Switch_ModelA_Port01_Indicator` -> `Switch_ModelA_Port01_Attach`
+ */
+export function indicatorToAttachName(indicatorName: string): string {
+    return getPortBaseName(indicatorName) + ATTACH_SUFFIX;
+}
+
+/**
+ * `Switch_ModelA_Port01_Attach` -> `Switch_ModelA_Port01_Indicator`
+ */
+export function attachToIndicatorName(attachName: string): string {
+    return getPortBaseName(attachName) + INDICATOR_SUFFIX;
+}
+
+/**
+ * Name without the `_Indicator` / `_Attach` suffix, e.g. `Switch_ModelA_Port01`.
+ */
+export function getPortBaseName(name: string): string {
+    if (name.endsWith(INDICATOR_SUFFIX)) {
+        return name.slice(0, -INDICATOR_SUFFIX.length);
+    }
+    if (name.endsWith(ATTACH_SUFFIX)) {
+        return name.slice(0, -ATTACH_SUFFIX.length);
+    }
+    return name;
+}
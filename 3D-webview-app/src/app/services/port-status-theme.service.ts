@@ -0,0 +1,153 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { BehaviorSubject, Observable, of } from 'rxjs';
+import { catchError, tap } from 'rxjs/operators';
+import { BlinkPattern } from './blink-patterns';
+
+// 'never': blinking requests are ignored, 'when-requested': follows PortState.blinking, 'always': blinks regardless
+export type PortBlinkBehavior = 'never' | 'when-requested' | 'always';
+
+export interface PortStatusStyle {
+    status: string; // Matches PortState.status (e.g., 'active', 'warning')
+    label: string; // Shown in the legend and tooltips
+    color: string; // CSS hex color of the indicator
+    emissive: string; // Steady glow (also the "off" phase while blinking)
+    blinkEmissive: string; // Glow during the "on" phase while blinking
+    blink: PortBlinkBehavior;
+    blinkPattern?: BlinkPattern; // Used when the port itself doesn't specify one
+    cableColor: string; // Color of cables plugged into a port with this status
+}
+
+// Shape of the theme config file; everything but `status` and `color` is optional
+export interface PortStatusThemeConfig {
+    statuses: (Partial<PortStatusStyle> & { status: string, color: string })[];
+    unknown?: Partial<PortStatusStyle>;
+}
+
+export const DEFAULT_PORT_STATUS_STYLES: PortStatusStyle[] = [
+    { status: 'active', label: 'Active', color: '#00ff00', emissive: '#008800', blinkEmissive: '#00ff00', blink: 'when-requested', blinkPattern: 'activity-burst', cableColor: '#00aa00' },
+    { status: 'inactive', label: 'Inactive', color: '#808080', emissive: '#000000', blinkEmissive: '#000000', blink: 'never', cableColor: '#505050' },
+    { status: 'error', label: 'Error', color: '#ff0000', emissive: '#880000', blinkEmissive: '#ff0000', blink: 'when-requested', blinkPattern: 'fast', cableColor: '#aa0000' },
+];
+
+// Used for statuses the theme doesn't define, so bad data stands out instead of breaking the scene
+const UNKNOWN_PORT_STATUS_STYLE: PortStatusStyle = {
+    status: 'unknown', label: 'Unknown', color: '#ff00ff', emissive: '#330033', blinkEmissive: '#ff00ff', blink: 'never', cableColor: '#505050'
+};
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/**
+ * Registry of port statuses and how they look in the scene (indicator, blinking, cables) and the legend.
+ * Starts with the built-in statuses and merges in the theme config file once it has loaded.
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class PortStatusThemeService {
+    private configUrl = 'config/port-status-theme.json'; // Served from /public
+
+    private readonly _styles = new BehaviorSubject<PortStatusStyle[]>(DEFAULT_PORT_STATUS_STYLES);
+    readonly styles$: Observable<PortStatusStyle[]> = this._styles.asObservable();
+
+    private unknownStyle = UNKNOWN_PORT_STATUS_STYLE;
+    private readonly warnedStatuses = new Set<string>(); // Warn about each unknown status once
+
+    constructor(private http: HttpClient) {
+        this.loadTheme();
+    }
+
+    /**
+     * Loads a theme config and merges it over the built-in statuses.
+     * Keeps the current theme if the file is missing or invalid.
+     */
+    loadTheme(url: string = this.configUrl): void {
+        this.http.get<PortStatusThemeConfig>(url)
+            .pipe(
+                tap(config => this.applyConfig(config)),
+                catchError(error => {
+                    console.warn(`Could not load port status theme from ${url}, using the built-in one:`, error);
+                    return of(null);
+                })
+            ).subscribe();
+    }
+
+    /**
+     * Adds a status or replaces the one with the same name.
+     */
+    registerStatus(style: PortStatusStyle): void {
+        const others = this._styles.getValue().filter(s => s.status !== style.status);
+        this._styles.next([...others, style]);
+    }
+
+    getStyles(): PortStatusStyle[] {
+        return this._styles.getValue();
+    }
+
+    /**
+     * Style for a port status. A hex color given as status (older data does that) gets a plain style
+     * in that color; anything else that isn't registered falls back to the "unknown" style.
+     */
+    getStyle(status: string): PortStatusStyle {
+        const style = this._styles.getValue().find(s => s.status === status);
+        if (style) {
+            return style;
+        }
+        if (HEX_COLOR.test(status)) {
+            return { ...this.unknownStyle, status, label: status, color: status, emissive: '#000000', blinkEmissive: status, blink: 'when-requested' };
+        }
+        if (!this.warnedStatuses.has(status)) {
+            this.warnedStatuses.add(status);
+            console.warn(`Unknown port status "${status}"; add it to the port status theme.`);
+        }
+        return { ...this.unknownStyle, status, label: `${status} (unknown)` };
+    }
+
+    /**
+     * Whether a status is registered (or a hex color, which is always accepted).
+     */
+    isKnownStatus(status: string): boolean {
+        return HEX_COLOR.test(status) || this._styles.getValue().some(s => s.status === status);
+    }
+
+    /**
+     * Whether a port should blink, given its style and the blinking flag from the data.
+     */
+    shouldBlink(style: PortStatusStyle, requested: boolean): boolean {
+        return style.blink === 'always' || (style.blink === 'when-requested' && requested);
+    }
+
+    private applyConfig(config: PortStatusThemeConfig): void {
+        if (!config || !Array.isArray(config.statuses)) {
+            console.warn('Port status theme config has no "statuses" list; ignoring it.');
+            return;
+        }
+        const styles = new Map(this._styles.getValue().map(style => [style.status, style]));
+        config.statuses.forEach(entry => {
+            if (!entry.status || !HEX_COLOR.test(entry.color ?? '')) {
+                console.warn('Skipping invalid port status theme entry:', entry);
+                return;
+            }
+            styles.set(entry.status, this.completeStyle(entry, styles.get(entry.status)));
+        });
+        if (config.unknown) {
+            this.unknownStyle = this.completeStyle({ ...UNKNOWN_PORT_STATUS_STYLE, ...config.unknown }, UNKNOWN_PORT_STATUS_STYLE);
+        }
+        this._styles.next([...styles.values()]);
+    }
+
+    // Fills in whatever the entry leaves out from the style it replaces, or from its own color
+    private completeStyle(entry: Partial<PortStatusStyle> & { status: string, color: string }, base?: PortStatusStyle): PortStatusStyle {
+        const validColor = (value: string | undefined) => value && HEX_COLOR.test(value) ? value : undefined;
+        return {
+            status: entry.status,
+            label: entry.label ?? base?.label ?? entry.status,
+            color: entry.color,
+            emissive: validColor(entry.emissive) ?? base?.emissive ?? '#000000',
+            blinkEmissive: validColor(entry.blinkEmissive) ?? base?.blinkEmissive ?? entry.color,
+            blink: entry.blink ?? base?.blink ?? 'when-requested',
+            blinkPattern: entry.blinkPattern ?? base?.blinkPattern,
+            cableColor: validColor(entry.cableColor) ?? base?.cableColor ?? entry.color
+        };
+    }
+}
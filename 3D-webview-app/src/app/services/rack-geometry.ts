@@ -0,0 +1,64 @@
+import * as THREE from 'three';
+import { RackDefinition } from './topology-state.service';
+import { getRackHeight } from './rack-placement';
+
+const POST_SIZE = 0.03;
+const PANEL_THICKNESS = 0.02;
+const SLOT_MARKER_INSET = 0.9; // Markers are slightly smaller than a U so neighbours stay apart
+
+/**
+ * Open rack frame (four posts, top and bottom panel) with its origin at the bottom center
+ * of the footprint and the front facing +Z. Shares `material` between all parts.
+ */
+export function buildRackFrame(definition: RackDefinition, material: THREE.Material): THREE.Group {
+    const frame = new THREE.Group();
+    const height = getRackHeight(definition);
+    const halfWidth = definition.width / 2 - POST_SIZE / 2;
+    const halfDepth = definition.depth / 2 - POST_SIZE / 2;
+
+    const postGeometry = new THREE.BoxGeometry(POST_SIZE, height, POST_SIZE);
+    [[-1, -1], [1, -1], [-1, 1], [1, 1]].forEach(([sx, sz]) => {
+        const post = new THREE.Mesh(postGeometry, material);
+        post.position.set(sx * halfWidth, height / 2, sz * halfDepth);
+        frame.add(post);
+    });
+
+    const panelGeometry = new THREE.BoxGeometry(definition.width, PANEL_THICKNESS, definition.depth);
+    [PANEL_THICKNESS / 2, height - PANEL_THICKNESS / 2].forEach(y => {
+        const panel = new THREE.Mesh(panelGeometry, material);
+        panel.position.set(0, y, 0);
+        frame.add(panel);
+    });
+    return frame;
+}
+
+/**
+ * One flat marker on the rack front for every free U position.
+ */
+export function buildSlotMarkers(definition: RackDefinition, freeUs: number[], material: THREE.Material): THREE.Group {
+    const markers = new THREE.Group();
+    if (freeUs.length === 0) {
+        return markers;
+    }
+    const geometry = new THREE.PlaneGeometry(definition.width * SLOT_MARKER_INSET, definition.uHeight * SLOT_MARKER_INSET);
+    freeUs.forEach(u => {
+        const marker = new THREE.Mesh(geometry, material);
+        marker.name = `U${u}`;
+        marker.position.set(0, definition.baseHeight + (u - 0.5) * definition.uHeight, definition.depth / 2 + 0.001);
+        markers.add(marker);
+    });
+    return markers;
+}
+
+/**
+ * Frees the geometry of a frame or marker group. Materials are shared and disposed by the owner.
+ */
+export function disposeRackObject(object: THREE.Object3D): void {
+    const geometries = new Set<THREE.BufferGeometry>();
+    object.traverse(child => {
+        if (child instanceof THREE.Mesh) {
+            geometries.add(child.geometry);
+        }
+    });
+    geometries.forEach(geometry => geometry.dispose());
+}
@@ -0,0 +1,72 @@
+import { ModelInstance, RackInstance } from './topology-state.service';
+import {
+  computeMountedTransform,
+  DEFAULT_RACK_DEFINITIONS,
+  findMountConflict,
+  getDeviceUHeight,
+  getFreeUSlots,
+  getRackHeight
+} from './rack-placement';
+import { createTestDevice, createTestLayout } from '../testing/topology-fixtures';
+
+const RACK_12U = DEFAULT_RACK_DEFINITIONS.find(definition => definition.id === 'Rack_12U')!;
+
+// A device of the given height, mounted at `uIndex` of rack-1 if given
+function device(id: string, uHeight?: number, uIndex?: number): ModelInstance {
+  return createTestDevice(id, { uHeight, mount: uIndex === undefined ? undefined : { rackId: 'rack-1', uIndex } });
+}
+
+function layoutWith(...models: ModelInstance[]) {
+  return createTestLayout({ models });
+}
+
+describe('rack placement', () => {
+  it('rounds device heights to whole units of at least 1U', () => {
+    expect(getDeviceUHeight(device('a'))).toBe(1);
+    expect(getDeviceUHeight(device('a', 0))).toBe(1);
+    expect(getDeviceUHeight(device('a', 2.4))).toBe(2);
+  });
+
+  it('includes the base and top panel in the rack height', () => {
+    expect(getRackHeight(RACK_12U)).toBeCloseTo(0.05 * 2 + 12 * 0.04445);
+  });
+
+  it('places a mounted device above the rack base, turned like the rack', () => {
+    const rack: RackInstance = {
+      id: 'rack-1',
+      rackDefinitionId: 'Rack_12U',
+      position: { x: 2, y: 0, z: -1 },
+      rotation: { x: 0, y: Math.PI / 2, z: 0 }
+    };
+    const { position, rotation } = computeMountedTransform(rack, RACK_12U, 3);
+    expect(position.x).toBeCloseTo(2);
+    expect(position.y).toBeCloseTo(0.05 + 2 * 0.04445);
+    expect(position.z).toBeCloseTo(-1);
+    expect(rotation).toEqual(rack.rotation);
+    expect(rotation).not.toBe(rack.rotation);
+  });
+
+  it('rejects positions outside the rack', () => {
+    const layout = layoutWith();
+    expect(findMountConflict(layout, RACK_12U, device('a', 2), 'rack-1', 11)).toBeNull();
+    expect(findMountConflict(layout, RACK_12U, device('a', 2), 'rack-1', 12)).toContain('does not fit at U12');
+    expect(findMountConflict(layout, RACK_12U, device('a'), 'rack-1', 0)).toContain('does not fit at U0');
+    expect(findMountConflict(layout, RACK_12U, device('a'), 'rack-1', 1.5)).toContain('does not fit');
+  });
+
+  it('reports devices already mounted in the way', () => {
+    const mounted = device('b', 2, 4);
+    const layout = layoutWith(mounted);
+    expect(findMountConflict(layout, RACK_12U, device('a', 2), 'rack-1', 3)).toBe('U3-U4 overlaps b in rack rack-1.');
+    expect(findMountConflict(layout, RACK_12U, device('a', 2), 'rack-1', 6)).toBeNull();
+    expect(findMountConflict(layout, RACK_12U, device('a', 2), 'rack-2', 4)).toBeNull();
+    // Moving a device within its own slots is no conflict
+    expect(findMountConflict(layout, RACK_12U, mounted, 'rack-1', 5)).toBeNull();
+  });
+
+  it('lists the free slots bottom to top', () => {
+    const layout = layoutWith(device('a', 2, 1), device('b', 1, 5), device('c'));
+    expect(getFreeUSlots(layout, 'rack-1', RACK_12U)).toEqual([3, 4, 6, 7, 8, 9, 10, 11, 12]);
+    expect(getFreeUSlots(layout, 'rack-2', RACK_12U).length).toBe(12);
+  });
+});
@@ -0,0 +1,91 @@
+import * as THREE from 'three';
+import { EulerRotation, ModelInstance, RackDefinition, RackInstance, TopologyLayout, Vector3D } from './topology-state.service';
+
+// Standard 19" racks; dimensions in scene units (meters)
+export const DEFAULT_RACK_DEFINITIONS: RackDefinition[] = [
+    { id: 'Rack_42U', name: '42U rack', heightU: 42, uHeight: 0.04445, width: 0.6, depth: 1.0, baseHeight: 0.1 },
+    { id: 'Rack_24U', name: '24U rack', heightU: 24, uHeight: 0.04445, width: 0.6, depth: 0.8, baseHeight: 0.1 },
+    { id: 'Rack_12U', name: '12U wall cabinet', heightU: 12, uHeight: 0.04445, width: 0.6, depth: 0.5, baseHeight: 0.05 },
+];
+
+/**
+ * Height of a device in rack units (at least 1).
+ */
+export function getDeviceUHeight(model: ModelInstance): number {
+    return Math.max(1, Math.round(model.uHeight ?? 1));
+}
+
+/**
+ * Total height of a rack, including its base and top panel.
+ */
+export function getRackHeight(definition: RackDefinition): number {
+    return definition.baseHeight * 2 + definition.heightU * definition.uHeight;
+}
+
+/**
+ * World position/rotation of a device mounted at `uIndex` (1 = bottom U) of a rack.
+ * The device's origin is expected at the bottom center of its chassis; it faces the rack's front.
+ */
+export function computeMountedTransform(rack: RackInstance, definition: RackDefinition, uIndex: number): { position: Vector3D, rotation: EulerRotation } {
+    const rackMatrix = new THREE.Matrix4().compose(
+        new THREE.Vector3(rack.position.x, rack.position.y, rack.position.z),
+        new THREE.Quaternion().setFromEuler(new THREE.Euler(rack.rotation.x, rack.rotation.y, rack.rotation.z, rack.rotation.order as THREE.EulerOrder)),
+        new THREE.Vector3(1, 1, 1)
+    );
+    const local = new THREE.Vector3(0, definition.baseHeight + (uIndex - 1) * definition.uHeight, 0);
+    const world = local.applyMatrix4(rackMatrix);
+    return {
+        position: { x: world.x, y: world.y, z: world.z },
+        rotation: { ...rack.rotation }
+    };
+}
+
+/**
+ * Why a device can't be mounted at the given U position, or null if it fits.
+ */
+export function findMountConflict(
+    layout: TopologyLayout,
+    definition: RackDefinition,
+    model: ModelInstance,
+    rackId: string,
+    uIndex: number
+): string | null {
+    const uHeight = getDeviceUHeight(model);
+    const lastU = uIndex + uHeight - 1;
+    if (!Number.isInteger(uIndex) || uIndex < 1 || lastU > definition.heightU) {
+        return `${model.displayName || model.id} (${uHeight}U) does not fit at U${uIndex} of a ${definition.heightU}U rack.`;
+    }
+    const overlapping = layout.models.find(other => {
+        if (other.id === model.id || other.mount?.rackId !== rackId) {
+            return false;
+        }
+        const otherFirst = other.mount.uIndex;
+        const otherLast = otherFirst + getDeviceUHeight(other) - 1;
+        return uIndex <= otherLast && otherFirst <= lastU;
+    });
+    if (overlapping) {
+        return `U${uIndex}-U${lastU} overlaps ${overlapping.displayName || overlapping.id} in rack ${rackId}.`;
+    }
+    return null;
+}
+
+/**
+ * U positions of a rack that no mounted device occupies, bottom to top.
+ */
+export function getFreeUSlots(layout: TopologyLayout, rackId: string, definition: RackDefinition): number[] {
+    const occupied = new Set<number>();
+    layout.models.forEach(model => {
+        if (model.mount?.rackId === rackId) {
+            for (let u = model.mount.uIndex; u < model.mount.uIndex + getDeviceUHeight(model); u++) {
+                occupied.add(u);
+            }
+        }
+    });
+    const free: number[] = [];
+    for (let u = 1; u <= definition.heightU; u++) {
+        if (!occupied.has(u)) {
+            free.push(u);
+        }
+    }
+    return free;
+}
@@ -0,0 +1,96 @@
+import * as THREE from 'three';
+
+const DIMMED_OPACITY = 0.12;
+
+interface DimmedMesh {
+    material: THREE.Material | THREE.Material[]; // As it was before dimming
+    // Set when the mesh's own materials were made translucent in place
+    saved?: { transparent: boolean, opacity: number, depthWrite: boolean }[];
+}
+
+/**
+ * Makes objects translucent, e.g. whatever a search filter leaves out.
+ *
+ * Materials shared between models (chassis materials from the asset cache) are swapped for
+ * translucent copies. Materials a mesh owns (port indicators, cables) are changed in place,
+ * so status colors applied while dimmed are kept once the mesh is restored.
+ */
+export class SceneDimmer {
+    private translucentCopies = new Map<THREE.Material, THREE.Material>();
+    private dimmed = new Map<THREE.Mesh, DimmedMesh>();
+
+    dim(root: THREE.Object3D, ownsMaterial: (mesh: THREE.Mesh) => boolean): void {
+        root.traverse(child => {
+            if (!(child instanceof THREE.Mesh) || this.dimmed.has(child)) {
+                return;
+            }
+            const materials: THREE.Material[] = Array.isArray(child.material) ? child.material : [child.material];
+            if (ownsMaterial(child)) {
+                this.dimmed.set(child, {
+                    material: child.material,
+                    saved: materials.map(m => ({ transparent: m.transparent, opacity: m.opacity, depthWrite: m.depthWrite }))
+                });
+                materials.forEach(m => makeTranslucent(m));
+            } else {
+                this.dimmed.set(child, { material: child.material });
+                const copies = materials.map(m => this.getTranslucentCopy(m));
+                child.material = Array.isArray(child.material) ? copies : copies[0];
+            }
+        });
+    }
+
+    restore(root: THREE.Object3D): void {
+        root.traverse(child => {
+            if (child instanceof THREE.Mesh) {
+                this.restoreMesh(child);
+            }
+        });
+    }
+
+    restoreAll(): void {
+        [...this.dimmed.keys()].forEach(mesh => this.restoreMesh(mesh));
+    }
+
+    /**
+     * Restores every dimmed mesh and frees the translucent copies.
+     */
+    dispose(): void {
+        this.restoreAll();
+        this.translucentCopies.forEach(copy => copy.dispose());
+        this.translucentCopies.clear();
+    }
+
+    private restoreMesh(mesh: THREE.Mesh): void {
+        const entry = this.dimmed.get(mesh);
+        if (!entry) {
+            return;
+        }
+        if (entry.saved) {
+            const materials = Array.isArray(entry.material) ? entry.material : [entry.material];
+            materials.forEach((material, i) => {
+                Object.assign(material, entry.saved![i]);
+                material.needsUpdate = true;
+            });
+        } else {
+            mesh.material = entry.material;
+        }
+        this.dimmed.delete(mesh);
+    }
+
+    private getTranslucentCopy(material: THREE.Material): THREE.Material {
+        let copy = this.translucentCopies.get(material);
+        if (!copy) {
+            copy = makeTranslucent(material.clone());
+            this.translucentCopies.set(material, copy);
+        }
+        return copy;
+    }
+}
+
+function makeTranslucent(material: THREE.Material): THREE.Material {
+    material.transparent = true;
+    material.opacity = Math.min(material.opacity, DIMMED_OPACITY);
+    material.depthWrite = false; // Don't hide what is behind
+    material.needsUpdate = true;
+    return material;
+}
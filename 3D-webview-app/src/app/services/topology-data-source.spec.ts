@@ -0,0 +1,80 @@
+import { firstValueFrom } from 'rxjs';
+import { TopologyLayout } from './topology-state.service';
+import {
+  layoutVersionTag,
+  LocalStorageTopologyDataSource,
+  MemoryTopologyDataSource,
+  TopologyConflictError
+} from './topology-data-source';
+
+function layout(id: string, version?: number): TopologyLayout {
+  return { id, name: id, models: [], connections: [], version };
+}
+
+describe('layoutVersionTag', () => {
+  it('quotes the layout version like an ETag', () => {
+    expect(layoutVersionTag(layout('a', 3))).toBe('"3"');
+    expect(layoutVersionTag(layout('a', 0))).toBe('"0"');
+    expect(layoutVersionTag(layout('a'))).toBeNull();
+    expect(layoutVersionTag(null)).toBeNull();
+  });
+});
+
+describe('MemoryTopologyDataSource', () => {
+  it('loads the layouts it was given and fails for others', async () => {
+    const source = new MemoryTopologyDataSource([layout('a', 1)]);
+    expect((await firstValueFrom(source.load('a'))).layout.id).toBe('a');
+    await expectAsync(firstValueFrom(source.load('b'))).toBeRejectedWithError(/does not exist/);
+  });
+
+  it('counts the version up on every save', async () => {
+    const source = new MemoryTopologyDataSource();
+    const first = await firstValueFrom(source.save(layout('a'), null));
+    expect(first.layout.version).toBe(1);
+    const second = await firstValueFrom(source.save(first.layout, layoutVersionTag(first.layout)));
+    expect(second.layout.version).toBe(2);
+    expect((await firstValueFrom(source.load('a'))).layout.version).toBe(2);
+  });
+
+  it('rejects a save based on an outdated revision unless it is unconditional', async () => {
+    const source = new MemoryTopologyDataSource([layout('a', 1)]);
+    await firstValueFrom(source.save(layout('a', 1), '"1"'));
+    await expectAsync(firstValueFrom(source.save(layout('a', 1), '"1"'))).toBeRejectedWithError(TopologyConflictError);
+    expect((await firstValueFrom(source.save(layout('a', 1), null))).layout.version).toBe(3);
+  });
+});
+
+describe('LocalStorageTopologyDataSource', () => {
+  const keyPrefix = 'topology-data-source-spec:';
+
+  afterEach(() => {
+    localStorage.removeItem(keyPrefix + 'a');
+  });
+
+  it('falls back to the seed for layouts not stored yet', async () => {
+    const source = new LocalStorageTopologyDataSource(keyPrefix, new MemoryTopologyDataSource([layout('a', 4)]));
+    expect((await firstValueFrom(source.load('a'))).layout.version).toBe(4);
+    await expectAsync(firstValueFrom(new LocalStorageTopologyDataSource(keyPrefix).load('a'))).toBeRejectedWithError(/not in local storage/);
+  });
+
+  it('stores saved layouts with the next version', async () => {
+    const source = new LocalStorageTopologyDataSource(keyPrefix);
+    const saved = await firstValueFrom(source.save(layout('a', 4), '"4"'));
+    expect(saved.layout.version).toBe(5);
+    expect(JSON.parse(localStorage.getItem(keyPrefix + 'a')!).version).toBe(5);
+    expect((await firstValueFrom(source.load('a'))).layout.version).toBe(5);
+  });
+
+  it('rejects a save when another tab saved in between', async () => {
+    const source = new LocalStorageTopologyDataSource(keyPrefix);
+    await firstValueFrom(source.save(layout('a', 4), '"4"'));
+    await expectAsync(firstValueFrom(source.save(layout('a', 4), '"4"'))).toBeRejectedWithError(TopologyConflictError);
+  });
+
+  it('ignores a stored layout it cannot parse', async () => {
+    spyOn(console, 'warn');
+    localStorage.setItem(keyPrefix + 'a', '{');
+    const source = new LocalStorageTopologyDataSource(keyPrefix, new MemoryTopologyDataSource([layout('a', 1)]));
+    expect((await firstValueFrom(source.load('a'))).layout.version).toBe(1);
+  });
+});
@@ -0,0 +1,191 @@
+import { InjectionToken } from '@angular/core';
+import { HttpClient, HttpErrorResponse, HttpHeaders } from '@angular/common/http';
+import { Observable, defer, of, throwError } from 'rxjs';
+import { catchError, map } from 'rxjs/operators';
+import type { TopologyLayout } from './topology-state.service';
+
+export const DEFAULT_TOPOLOGY_API_URL = '/api/topology';
+
+// Where layouts are loaded from and saved to
+export type TopologyDataSourceConfig =
+    | { type: 'http', apiUrl: string } // REST backend: GET/PUT {apiUrl}/layouts/{id}
+    | { type: 'asset', baseUrl: string } // Static JSON files {baseUrl}/{id}.json; read-only
+    | { type: 'local-storage', keyPrefix?: string, seed?: TopologyDataSourceConfig } // Browser storage; `seed` supplies layouts not stored yet
+    | { type: 'memory', layouts?: TopologyLayout[] }; // Lost on reload; for demos and tests
+
+export const TOPOLOGY_DATA_SOURCE_CONFIG = new InjectionToken<TopologyDataSourceConfig>('TOPOLOGY_DATA_SOURCE_CONFIG', {
+    providedIn: 'root',
+    factory: () => ({ type: 'http', apiUrl: DEFAULT_TOPOLOGY_API_URL })
+});
+
+// A layout as stored, with the concurrency token to send back when saving it
+export interface TopologyRevision {
+    layout: TopologyLayout;
+    etag: string | null; // Opaque token if the source has one; otherwise the layout version is used
+}
+
+/**
+ * Raised by a data source when a conditional save finds that the stored layout has changed since it was loaded.
+ */
+export class TopologyConflictError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TopologyConflictError';
+    }
+}
+
+export interface TopologyDataSource {
+    readonly description: string; // For log messages, e.g. 'local storage'
+    load(layoutId: string): Observable<TopologyRevision>;
+    /**
+     * Stores a layout. With `ifMatch` set, fails with a TopologyConflictError unless the stored
+     * revision still matches it; with null, overwrites unconditionally.
+     */
+    save(layout: TopologyLayout, ifMatch: string | null): Observable<TopologyRevision>;
+}
+
+/**
+ * Concurrency token of a layout for sources that don't have their own (quoted like an ETag).
+ */
+export function layoutVersionTag(layout: TopologyLayout | null | undefined): string | null {
+    return layout?.version !== undefined ? `"${layout.version}"` : null;
+}
+
+export function createTopologyDataSource(config: TopologyDataSourceConfig, http: HttpClient): TopologyDataSource {
+    switch (config.type) {
+        case 'http':
+            return new HttpTopologyDataSource(http, config.apiUrl);
+        case 'asset':
+            return new AssetTopologyDataSource(http, config.baseUrl);
+        case 'local-storage':
+            return new LocalStorageTopologyDataSource(config.keyPrefix, config.seed && createTopologyDataSource(config.seed, http));
+        case 'memory':
+            return new MemoryTopologyDataSource(config.layouts);
+    }
+}
+
+export class HttpTopologyDataSource implements TopologyDataSource {
+    readonly description: string;
+
+    constructor(private http: HttpClient, private apiUrl: string) {
+        this.description = `backend ${apiUrl}`;
+    }
+
+    load(layoutId: string): Observable<TopologyRevision> {
+        return this.http.get<TopologyLayout>(`${this.apiUrl}/layouts/${encodeURIComponent(layoutId)}`, { observe: 'response' }).pipe(
+            map(response => ({ layout: response.body!, etag: response.headers.get('ETag') }))
+        );
+    }
+
+    save(layout: TopologyLayout, ifMatch: string | null): Observable<TopologyRevision> {
+        const headers = ifMatch ? new HttpHeaders({ 'If-Match': ifMatch }) : undefined;
+        return this.http.put<TopologyLayout>(`${this.apiUrl}/layouts/${encodeURIComponent(layout.id)}`, layout, { headers, observe: 'response' }).pipe(
+            map(response => ({ layout: response.body ?? layout, etag: response.headers.get('ETag') })),
+            catchError((error: HttpErrorResponse) => throwError(() =>
+                error.status === 409 || error.status === 412
+                    ? new TopologyConflictError(`Layout ${layout.id} was changed on the backend since it was loaded.`)
+                    : error
+            ))
+        );
+    }
+}
+
+export class AssetTopologyDataSource implements TopologyDataSource {
+    readonly description: string;
+
+    constructor(private http: HttpClient, private baseUrl: string) {
+        this.description = `static files in ${baseUrl}`;
+    }
+
+    load(layoutId: string): Observable<TopologyRevision> {
+        return this.http.get<TopologyLayout>(`${this.baseUrl}/${encodeURIComponent(layoutId)}.json`).pipe(
+            map(layout => ({ layout, etag: null }))
+        );
+    }
+
+    save(layout: TopologyLayout): Observable<TopologyRevision> {
+        return throwError(() => new Error(`Layouts in ${this.baseUrl} are read-only; ${layout.id} can't be saved there.`));
+    }
+}
+
+/**
+ * Keeps layouts in the browser's local storage, so edits survive reloads without a backend.
+ * Versions are counted up on every save and checked like the backend's.
+ */
+export class LocalStorageTopologyDataSource implements TopologyDataSource {
+    readonly description = 'local storage';
+
+    constructor(private keyPrefix: string = 'topology-layout:', private seed?: TopologyDataSource) { }
+
+    load(layoutId: string): Observable<TopologyRevision> {
+        return defer(() => {
+            const stored = this.read(layoutId);
+            if (stored) {
+                return of({ layout: stored, etag: null });
+            }
+            return this.seed
+                ? this.seed.load(layoutId).pipe(map(revision => ({ layout: revision.layout, etag: null })))
+                : throwError(() => new Error(`Layout ${layoutId} is not in local storage.`));
+        });
+    }
+
+    save(layout: TopologyLayout, ifMatch: string | null): Observable<TopologyRevision> {
+        return defer(() => {
+            const stored = this.read(layout.id);
+            // Nothing stored yet means the layout came from the seed; that revision is what the save is based on
+            if (stored && ifMatch !== null && ifMatch !== layoutVersionTag(stored)) {
+                return throwError(() => new TopologyConflictError(`Layout ${layout.id} was changed in another tab since it was loaded.`));
+            }
+            const saved: TopologyLayout = { ...layout, version: (stored?.version ?? layout.version ?? 0) + 1 };
+            try {
+                localStorage.setItem(this.keyPrefix + layout.id, JSON.stringify(saved));
+            } catch (error) {
+                return throwError(() => error); // e.g. the storage quota is exceeded
+            }
+            return of({ layout: saved, etag: null });
+        });
+    }
+
+    private read(layoutId: string): TopologyLayout | null {
+        const json = localStorage.getItem(this.keyPrefix + layoutId);
+        if (json === null) {
+            return null;
+        }
+        try {
+            return JSON.parse(json) as TopologyLayout;
+        } catch (error) {
+            console.warn(`Ignoring unparsable layout ${layoutId} in local storage:`, error);
+            return null;
+        }
+    }
+}
+
+export class MemoryTopologyDataSource implements TopologyDataSource {
+    readonly description = 'memory';
+    private readonly layouts = new Map<string, TopologyLayout>();
+
+    constructor(layouts: TopologyLayout[] = []) {
+        layouts.forEach(layout => this.layouts.set(layout.id, layout));
+    }
+
+    load(layoutId: string): Observable<TopologyRevision> {
+        return defer(() => {
+            const layout = this.layouts.get(layoutId);
+            return layout
+                ? of({ layout, etag: null })
+                : throwError(() => new Error(`Layout ${layoutId} does not exist.`));
+        });
+    }
+
+    save(layout: TopologyLayout, ifMatch: string | null): Observable<TopologyRevision> {
+        return defer(() => {
+            const stored = this.layouts.get(layout.id);
+            if (stored && ifMatch !== null && ifMatch !== layoutVersionTag(stored)) {
+                return throwError(() => new TopologyConflictError(`Layout ${layout.id} was changed since it was loaded.`));
+            }
+            const saved: TopologyLayout = { ...layout, version: (stored?.version ?? layout.version ?? 0) + 1 };
+            this.layouts.set(saved.id, saved);
+            return of({ layout: saved, etag: null });
+        });
+    }
+}
@@ -0,0 +1,102 @@
+import {
+  checkTopologyStructure,
+  parseTopologyFile,
+  serializeTopology,
+  TOPOLOGY_SCHEMA_URL,
+  TOPOLOGY_SCHEMA_VERSION,
+  TopologyFileError
+} from './topology-file-format';
+import { createTestCable, createTestDevice, createTestLayout, createTestPort } from '../testing/topology-fixtures';
+
+const LAYOUT = createTestLayout({
+  models: [createTestDevice('r1', {
+    position: { x: 1, y: 0, z: 2 },
+    ports: [createTestPort('Port1_Indicator', 'up', { blinking: true, blinkPattern: [200, 800] })],
+    mount: { rackId: 'rack-1', uIndex: 3 }
+  })],
+  connections: [createTestCable('c1', 'r1', 'Port1', 'r1', 'Port2')],
+  racks: [{ id: 'rack-1', rackDefinitionId: 'Rack_42U', position: { x: 0, y: 0, z: 0 }, rotation: { x: 0, y: 0, z: 0 } }],
+  viewpoints: [{ name: 'Front', position: { x: 0, y: 2, z: 5 }, target: { x: 0, y: 0, z: 0 } }]
+});
+
+function expectFileError(json: string, message: RegExp): TopologyFileError {
+  try {
+    parseTopologyFile(json);
+  } catch (error) {
+    expect(error).toBeInstanceOf(TopologyFileError);
+    expect((error as TopologyFileError).message).toMatch(message);
+    return error as TopologyFileError;
+  }
+  fail('Expected a TopologyFileError');
+  return new TopologyFileError('');
+}
+
+describe('topology file format', () => {
+  it('writes the schema and version but not the backend revision', () => {
+    const file = JSON.parse(serializeTopology({ ...LAYOUT, version: 7 }));
+    expect(file.$schema).toBe(TOPOLOGY_SCHEMA_URL);
+    expect(file.schemaVersion).toBe(TOPOLOGY_SCHEMA_VERSION);
+    expect(file.version).toBeUndefined();
+  });
+
+  it('reads back what it writes', () => {
+    const parsed = parseTopologyFile(serializeTopology(LAYOUT));
+    expect(parsed.schemaVersion).toBe(TOPOLOGY_SCHEMA_VERSION);
+    expect(parsed.layout).toEqual(LAYOUT);
+  });
+
+  it('migrates bare layouts from indicator names to attach names', () => {
+    const bare = {
+      id: 'lab',
+      name: 'Lab',
+      models: [{ ...LAYOUT.models[0], ports: undefined }],
+      connections: [{
+        id: 'c1',
+        source: { modelId: 'r1', portAttachName: 'Port1_Indicator' },
+        target: { modelId: 'r1', portAttachName: 'Port2_Attach' }
+      }],
+      version: 3
+    };
+    const parsed = parseTopologyFile(JSON.stringify(bare));
+    expect(parsed.schemaVersion).toBe(0);
+    expect(parsed.layout.models[0].ports).toEqual([]);
+    expect(parsed.layout.connections[0].source.portAttachName).toBe('Port1_Attach');
+    expect(parsed.layout.connections[0].target.portAttachName).toBe('Port2_Attach');
+    expect(parsed.layout.version).toBeUndefined();
+  });
+
+  it('rejects files that are not a layout or come from a newer app', () => {
+    expectFileError('{', /not valid JSON/);
+    expectFileError('[]', /does not contain a topology layout/);
+    expectFileError('{"schemaVersion": "1"}', /invalid schemaVersion/);
+    expectFileError(`{"schemaVersion": ${TOPOLOGY_SCHEMA_VERSION + 1}}`, /Update the app/);
+  });
+
+  it('lists every structural problem with its path', () => {
+    const file = JSON.parse(serializeTopology(LAYOUT));
+    file.models[0].position.y = 'up';
+    file.models[0].ports[0].blinking = 'yes';
+    delete file.connections[0].target.modelId;
+    const error = expectFileError(JSON.stringify(file), /3 problem/);
+    expect(error.problems).toEqual([
+      '$.models[0].position.y: expected a number',
+      '$.models[0].ports[0].blinking: expected true or false',
+      '$.connections[0].target.modelId: expected a non-empty string'
+    ]);
+  });
+
+  it('caps the number of reported problems', () => {
+    const file = JSON.parse(serializeTopology(LAYOUT));
+    file.connections = Array.from({ length: 25 }, () => ({}));
+    const error = expectFileError(JSON.stringify(file), /75 problem/);
+    expect(error.problems.length).toBe(21);
+    expect(error.problems[20]).toBe('... and 55 more');
+  });
+
+  it('checks optional sections only when present', () => {
+    const { racks, viewpoints, ...rest } = LAYOUT;
+    expect(checkTopologyStructure({ ...rest, schemaVersion: TOPOLOGY_SCHEMA_VERSION })).toEqual([]);
+    expect(checkTopologyStructure({ ...rest, schemaVersion: TOPOLOGY_SCHEMA_VERSION, racks: {} })).toEqual(['$.racks: expected an array']);
+    expect(checkTopologyStructure('layout')).toEqual(['$: expected an object']);
+  });
+});
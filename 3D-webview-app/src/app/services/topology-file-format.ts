@@ -0,0 +1,226 @@
+import type { TopologyLayout } from './topology-state.service';
+import { indicatorToAttachName, isPortIndicatorName } from './port-naming';
+
+export const TOPOLOGY_SCHEMA_VERSION = 1;
+
+// Published with the app (public/schemas), so editors can validate files kept in git
+export const TOPOLOGY_SCHEMA_URL = `/schemas/topology-layout.v${TOPOLOGY_SCHEMA_VERSION}.schema.json`;
+
+// A layout as written to a file: the layout itself plus the format it's in
+export type TopologyFile = TopologyLayout & {
+    $schema?: string;
+    schemaVersion: number;
+};
+
+/**
+ * Raised when a file can't be imported. `problems` lists what is wrong, one entry per spot (with its JSON path).
+ */
+export class TopologyFileError extends Error {
+    constructor(message: string, readonly problems: string[] = []) {
+        super(message);
+        this.name = 'TopologyFileError';
+    }
+}
+
+export interface ParsedTopologyFile {
+    layout: TopologyLayout;
+    schemaVersion: number; // Version the file was written in, before migration
+}
+
+const MAX_REPORTED_PROBLEMS = 20;
+
+// A parsed file before its structure has been checked: only known to be a JSON object
+type RawTopologyFile = Record<string, unknown>;
+
+// Upgrades a file by one version: MIGRATIONS[n] turns version n into n + 1.
+// Input is unchecked, so a step leaves what it doesn't understand for checkTopologyStructure() to report.
+type TopologyFileMigration = (file: RawTopologyFile) => RawTopologyFile & { schemaVersion: number };
+
+const MIGRATIONS: Record<number, TopologyFileMigration> = {
+    // Version 0: files without `schemaVersion`, i.e. bare layouts as the backend returns them
+    0: file => ({
+        ...file,
+        schemaVersion: 1,
+        models: mapList(file['models'], model => isObject(model) ? { ...model, ports: model['ports'] ?? [] } : model),
+        // Older data referred to cable ends by indicator name
+        connections: mapList(file['connections'], cable => isObject(cable)
+            ? { ...cable, source: migrateCableEnd(cable['source']), target: migrateCableEnd(cable['target']) }
+            : cable)
+    }),
+};
+
+// A missing list becomes empty; anything else that isn't an array is kept as it is
+function mapList(value: unknown, migrate: (item: unknown) => unknown): unknown {
+    if (value === undefined) {
+        return [];
+    }
+    return Array.isArray(value) ? value.map(migrate) : value;
+}
+
+function migrateCableEnd(end: unknown): unknown {
+    return isObject(end) && typeof end['portAttachName'] === 'string' && isPortIndicatorName(end['portAttachName'])
+        ? { ...end, portAttachName: indicatorToAttachName(end['portAttachName']) }
+        : end;
+}
+
+/**
+ * JSON text of a layout in the current file format. The backend revision is left out,
+ * since it means nothing outside the backend the layout was loaded from.
+ */
+export function serializeTopology(layout: TopologyLayout): string {
+    const { version, ...rest } = layout;
+    const file: TopologyFile = { $schema: TOPOLOGY_SCHEMA_URL, schemaVersion: TOPOLOGY_SCHEMA_VERSION, ...rest };
+    return JSON.stringify(file, null, 4) + '\n';
+}
+
+/**
+ * Parses a topology file, migrates it to the current version and checks its structure.
+ * Throws a TopologyFileError if the file can't be used.
+ */
+export function parseTopologyFile(json: string): ParsedTopologyFile {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch (error) {
+        throw new TopologyFileError(`The file is not valid JSON: ${(error as Error).message}`);
+    }
+    if (!isObject(parsed)) {
+        throw new TopologyFileError('The file does not contain a topology layout.');
+    }
+
+    let file: RawTopologyFile = parsed;
+    const schemaVersion = file['schemaVersion'] ?? 0;
+    if (typeof schemaVersion !== 'number' || !Number.isInteger(schemaVersion) || schemaVersion < 0) {
+        throw new TopologyFileError(`The file has an invalid schemaVersion (${JSON.stringify(file['schemaVersion'])}).`);
+    }
+    if (schemaVersion > TOPOLOGY_SCHEMA_VERSION) {
+        throw new TopologyFileError(`The file uses schema version ${schemaVersion}, but this app only reads up to version ${TOPOLOGY_SCHEMA_VERSION}. Update the app to import it.`);
+    }
+    for (let version = schemaVersion; version < TOPOLOGY_SCHEMA_VERSION; version++) {
+        file = MIGRATIONS[version](file);
+    }
+
+    const problems = checkTopologyStructure(file);
+    if (problems.length > 0) {
+        const shown = problems.slice(0, MAX_REPORTED_PROBLEMS);
+        if (problems.length > shown.length) {
+            shown.push(`... and ${problems.length - shown.length} more`);
+        }
+        throw new TopologyFileError(`The file does not match the topology schema (${problems.length} problem(s)).`, shown);
+    }
+
+    // checkTopologyStructure() applies every rule of the schema, so a file it found no problems with is a TopologyFile
+    const { $schema, schemaVersion: _, version, ...layout } = file as unknown as TopologyFile;
+    return { layout, schemaVersion };
+}
+
+/**
+ * Checks a value against the current topology schema (the same rules as the published JSON schema).
+ * Returns one message per problem; an empty list means the structure is fine.
+ */
+export function checkTopologyStructure(file: unknown): string[] {
+    const problems: string[] = [];
+    const check = (ok: boolean, path: string, expected: string) => {
+        if (!ok) {
+            problems.push(`${path}: expected ${expected}`);
+        }
+        return ok;
+    };
+    const string = (value: unknown, path: string, optional = false) =>
+        (optional && value === undefined) || check(typeof value === 'string' && value !== '', path, 'a non-empty string');
+    const number = (value: unknown, path: string, optional = false) =>
+        (optional && value === undefined) || check(typeof value === 'number' && Number.isFinite(value), path, 'a number');
+    const vector = (value: unknown, path: string) => {
+        if (!isObject(value)) {
+            check(false, path, 'an object with x, y and z');
+            return;
+        }
+        ['x', 'y', 'z'].forEach(axis => number(value[axis], `${path}.${axis}`));
+    };
+    const list = (value: unknown, path: string, optional = false): unknown[] =>
+        (optional && value === undefined) || !check(Array.isArray(value), path, 'an array') ? [] : value as unknown[];
+    const object = (value: unknown, path: string): value is Record<string, unknown> => check(isObject(value), path, 'an object');
+
+    if (!object(file, '$')) {
+        return problems;
+    }
+    check(file['schemaVersion'] === TOPOLOGY_SCHEMA_VERSION, '$.schemaVersion', `${TOPOLOGY_SCHEMA_VERSION}`);
+    string(file['id'], '$.id');
+    check(typeof file['name'] === 'string', '$.name', 'a string');
+
+    list(file['models'], '$.models').forEach((model, i) => {
+        const path = `$.models[${i}]`;
+        if (!object(model, path)) {
+            return;
+        }
+        string(model['id'], `${path}.id`);
+        string(model['modelDefinitionId'], `${path}.modelDefinitionId`);
+        string(model['assetUrl'], `${path}.assetUrl`);
+        string(model['displayName'], `${path}.displayName`, true);
+        string(model['room'], `${path}.room`, true);
+        vector(model['position'], `${path}.position`);
+        vector(model['rotation'], `${path}.rotation`);
+        number(model['uHeight'], `${path}.uHeight`, true);
+        if (model['mount'] !== undefined && object(model['mount'], `${path}.mount`)) {
+            string(model['mount']['rackId'], `${path}.mount.rackId`);
+            check(Number.isInteger(model['mount']['uIndex']), `${path}.mount.uIndex`, 'an integer');
+        }
+        list(model['ports'], `${path}.ports`).forEach((port, j) => {
+            const portPath = `${path}.ports[${j}]`;
+            if (!object(port, portPath)) {
+                return;
+            }
+            string(port['name'], `${portPath}.name`);
+            string(port['status'], `${portPath}.status`);
+            check(typeof port['blinking'] === 'boolean', `${portPath}.blinking`, 'true or false');
+            const pattern = port['blinkPattern'];
+            check(pattern === undefined || typeof pattern === 'string' || (Array.isArray(pattern) && pattern.every(d => typeof d === 'number')),
+                `${portPath}.blinkPattern`, 'a pattern name or an array of durations');
+            string(port['connectedCableId'], `${portPath}.connectedCableId`, true);
+        });
+    });
+
+    list(file['connections'], '$.connections').forEach((cable, i) => {
+        const path = `$.connections[${i}]`;
+        if (!object(cable, path)) {
+            return;
+        }
+        string(cable['id'], `${path}.id`);
+        string(cable['cableModelUrl'], `${path}.cableModelUrl`, true);
+        (['source', 'target'] as const).forEach(endName => {
+            const end = cable[endName];
+            if (object(end, `${path}.${endName}`)) {
+                string(end['modelId'], `${path}.${endName}.modelId`);
+                string(end['portAttachName'], `${path}.${endName}.portAttachName`);
+            }
+        });
+    });
+
+    list(file['racks'], '$.racks', true).forEach((rack, i) => {
+        const path = `$.racks[${i}]`;
+        if (!object(rack, path)) {
+            return;
+        }
+        string(rack['id'], `${path}.id`);
+        string(rack['rackDefinitionId'], `${path}.rackDefinitionId`);
+        string(rack['displayName'], `${path}.displayName`, true);
+        string(rack['room'], `${path}.room`, true);
+        vector(rack['position'], `${path}.position`);
+        vector(rack['rotation'], `${path}.rotation`);
+    });
+
+    list(file['viewpoints'], '$.viewpoints', true).forEach((viewpoint, i) => {
+        const path = `$.viewpoints[${i}]`;
+        if (!object(viewpoint, path)) {
+            return;
+        }
+        string(viewpoint['name'], `${path}.name`);
+        vector(viewpoint['position'], `${path}.position`);
+        vector(viewpoint['target'], `${path}.target`);
+    });
+    return problems;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
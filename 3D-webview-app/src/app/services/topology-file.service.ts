@@ -0,0 +1,39 @@
+import { Injectable } from '@angular/core';
+import { TopologyLayout } from './topology-state.service';
+import { downloadBlob, toSafeFileName } from './file-download';
+import { ParsedTopologyFile, TopologyFileError, parseTopologyFile, serializeTopology } from './topology-file-format';
+
+const MAX_FILE_SIZE = 20 * 1024 * 1024; // Bytes; anything bigger is certainly not a layout
+
+/**
+ * Moves layouts in and out of the browser as JSON files (see topology-file-format for the format).
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class TopologyFileService {
+    /**
+     * Downloads a layout as `<layout id>.topology.json`.
+     */
+    exportToFile(layout: TopologyLayout): void {
+        const blob = new Blob([serializeTopology(layout)], { type: 'application/json' });
+        downloadBlob(blob, `${toSafeFileName(layout.id)}.topology.json`);
+    }
+
+    /**
+     * Text of a picked or dropped file. Rejects with a TopologyFileError if it is too large to be a layout.
+     */
+    async readText(file: File): Promise<string> {
+        if (file.size > MAX_FILE_SIZE) {
+            throw new TopologyFileError(`${file.name} is too large to be a topology file.`);
+        }
+        return file.text();
+    }
+
+    /**
+     * Parses the text of a topology file. Throws a TopologyFileError if it isn't a usable topology file.
+     */
+    parse(text: string): ParsedTopologyFile {
+        return parseTopologyFile(text);
+    }
+}
@@ -0,0 +1,64 @@
+import { TestBed } from '@angular/core/testing';
+import { TopologyLayout } from './topology-state.service';
+import { TopologyGraphService } from './topology-graph.service';
+import { createTestCable as cable, createTestDevice } from '../testing/topology-fixtures';
+
+describe('TopologyGraphService', () => {
+  let service: TopologyGraphService;
+
+  // A-D directly, A-B-D over two parallel cables from B, and A-C-D
+  const layout: TopologyLayout = {
+    id: 'layout',
+    name: 'Layout',
+    models: ['A', 'B', 'C', 'D', 'E'].map(id => createTestDevice(id)),
+    connections: [
+      cable('ad', 'A', 'Port1', 'D', 'Port1'),
+      cable('ab', 'A', 'Port2', 'B', 'Port1'),
+      cable('bd', 'B', 'Port2', 'D', 'Port2'),
+      cable('bd2', 'B', 'Port3', 'D', 'Port4'),
+      cable('ac', 'A', 'Port3', 'C', 'Port1'),
+      cable('cd', 'C', 'Port2', 'D', 'Port3'),
+      cable('loop', 'E', 'Port1', 'E', 'Port2'),
+      cable('dangling', 'E', 'Port3', 'X', 'Port1')
+    ]
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(TopologyGraphService);
+  });
+
+  it('finds the shortest path first, then alternatives by length', () => {
+    const paths = service.findPaths(layout, { modelId: 'A' }, { modelId: 'D' });
+    expect(paths[0].cableIds).toEqual(['ad']);
+    expect(paths.slice(1).map(path => path.cableIds.length)).toEqual([2, 2, 2]);
+    expect(paths.map(path => path.cableIds.join())).toContain('ab,bd2');
+    expect(new Set(paths.map(path => path.cableIds.join())).size).toBe(paths.length);
+  });
+
+  it('lists the ports each hop is entered and left through', () => {
+    const path = service.findShortestPath(layout, { modelId: 'A', portName: 'Port3_Indicator' }, { modelId: 'D' })!;
+    expect(path.cableIds).toEqual(['ac', 'cd']);
+    expect(path.hops).toEqual([
+      { modelId: 'A', inPort: null, outPort: 'Port3_Indicator' },
+      { modelId: 'C', inPort: 'Port1_Indicator', outPort: 'Port2_Indicator' },
+      { modelId: 'D', inPort: 'Port3_Indicator', outPort: null }
+    ]);
+  });
+
+  it('only arrives through the requested target port', () => {
+    const paths = service.findPaths(layout, { modelId: 'A' }, { modelId: 'D', portName: 'Port4_Indicator' });
+    expect(paths.map(path => path.cableIds)).toEqual([['ab', 'bd2']]);
+  });
+
+  it('limits the number of paths', () => {
+    expect(service.findPaths(layout, { modelId: 'A' }, { modelId: 'D' }, 2).length).toBe(2);
+  });
+
+  it('finds nothing between unconnected or identical endpoints', () => {
+    expect(service.findPaths(layout, { modelId: 'A' }, { modelId: 'E' })).toEqual([]);
+    expect(service.findPaths(layout, { modelId: 'A' }, { modelId: 'A' })).toEqual([]);
+    expect(service.findPaths(layout, { modelId: 'A' }, { modelId: 'X' })).toEqual([]);
+    expect(service.findShortestPath(layout, { modelId: 'E' }, { modelId: 'D' })).toBeNull();
+  });
+});
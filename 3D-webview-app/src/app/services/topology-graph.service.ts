@@ -0,0 +1,182 @@
+import { Injectable } from '@angular/core';
+import { TopologyLayout } from './topology-state.service';
+import { attachToIndicatorName } from './port-naming';
+
+const DEFAULT_MAX_PATHS = 5;
+
+// Where a path starts or ends: a device, optionally through one of its ports
+export interface PathEndpoint {
+    modelId: string;
+    portName?: string; // `_Indicator` name; any port of the device when omitted
+}
+
+export interface TopologyPathHop {
+    modelId: string;
+    inPort: string | null; // `_Indicator` names; null at the start
+    outPort: string | null; // null at the end
+}
+
+export interface TopologyPath {
+    hops: TopologyPathHop[]; // From the start device to the end device
+    cableIds: string[]; // cableIds[i] runs from hops[i] to hops[i + 1]
+}
+
+// One direction of a cable
+interface GraphEdge {
+    cableId: string;
+    fromPort: string;
+    toModelId: string;
+    toPort: string;
+}
+
+type TopologyGraph = Map<string, GraphEdge[]>; // Edges leaving each device
+
+interface GraphWalk {
+    modelIds: string[];
+    edges: GraphEdge[];
+}
+
+/**
+ * Treats a topology as a graph of devices joined by cables, to trace paths between devices or ports.
+ * Paths never visit a device twice; their length is the number of cables.
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class TopologyGraphService {
+    private graphs = new WeakMap<TopologyLayout, TopologyGraph>(); // Layouts are replaced, never changed
+
+    /**
+     * The shortest path between two endpoints, then up to `maxPaths - 1` alternatives, shortest first.
+     * Alternatives differ in at least one cable. Empty when the endpoints aren't connected.
+     */
+    findPaths(layout: TopologyLayout, from: PathEndpoint, to: PathEndpoint, maxPaths = DEFAULT_MAX_PATHS): TopologyPath[] {
+        const graph = this.getGraph(layout);
+        if (from.modelId === to.modelId || !graph.has(from.modelId) || !graph.has(to.modelId) || maxPaths < 1) {
+            return [];
+        }
+        return findWalks(graph, from, to, maxPaths).map(toTopologyPath);
+    }
+
+    findShortestPath(layout: TopologyLayout, from: PathEndpoint, to: PathEndpoint): TopologyPath | null {
+        return this.findPaths(layout, from, to, 1)[0] ?? null;
+    }
+
+    private getGraph(layout: TopologyLayout): TopologyGraph {
+        let graph = this.graphs.get(layout);
+        if (!graph) {
+            graph = buildGraph(layout);
+            this.graphs.set(layout, graph);
+        }
+        return graph;
+    }
+}
+
+function buildGraph(layout: TopologyLayout): TopologyGraph {
+    const graph: TopologyGraph = new Map(layout.models.map(model => [model.id, []]));
+    layout.connections.forEach(cable => {
+        const sourceEdges = graph.get(cable.source.modelId);
+        const targetEdges = graph.get(cable.target.modelId);
+        // Dangling cables (reported by the validator) and loops back into the same device lead nowhere
+        if (!sourceEdges || !targetEdges || cable.source.modelId === cable.target.modelId) {
+            return;
+        }
+        const sourcePort = attachToIndicatorName(cable.source.portAttachName);
+        const targetPort = attachToIndicatorName(cable.target.portAttachName);
+        sourceEdges.push({ cableId: cable.id, fromPort: sourcePort, toModelId: cable.target.modelId, toPort: targetPort });
+        targetEdges.push({ cableId: cable.id, fromPort: targetPort, toModelId: cable.source.modelId, toPort: sourcePort });
+    });
+    return graph;
+}
+
+/**
+ * Breadth-first search for the walk with the fewest cables, avoiding the blocked devices and cables.
+ */
+function findShortestWalk(
+    graph: TopologyGraph, from: PathEndpoint, to: PathEndpoint, blockedModels: Set<string>, blockedCables: Set<string>
+): GraphWalk | null {
+    const reachedBy = new Map<string, { modelId: string, edge: GraphEdge }>();
+    const visited = new Set([from.modelId]);
+    let frontier = [from.modelId];
+    while (frontier.length > 0) {
+        const next: string[] = [];
+        for (const modelId of frontier) {
+            for (const edge of graph.get(modelId) ?? []) {
+                if ((modelId === from.modelId && from.portName && edge.fromPort !== from.portName)
+                    || (edge.toModelId === to.modelId && to.portName && edge.toPort !== to.portName)
+                    || visited.has(edge.toModelId) || blockedModels.has(edge.toModelId) || blockedCables.has(edge.cableId)) {
+                    continue;
+                }
+                visited.add(edge.toModelId);
+                reachedBy.set(edge.toModelId, { modelId, edge });
+                if (edge.toModelId === to.modelId) {
+                    const walk: GraphWalk = { modelIds: [to.modelId], edges: [] };
+                    for (let step = reachedBy.get(to.modelId); step; step = reachedBy.get(step.modelId)) {
+                        walk.modelIds.unshift(step.modelId);
+                        walk.edges.unshift(step.edge);
+                    }
+                    return walk;
+                }
+                next.push(edge.toModelId);
+            }
+        }
+        frontier = next;
+    }
+    return null;
+}
+
+/**
+ * Yen's algorithm: each further walk branches off a found one at some device (the spur),
+ * avoiding the cables the walks found so far take from there.
+ */
+function findWalks(graph: TopologyGraph, from: PathEndpoint, to: PathEndpoint, maxWalks: number): GraphWalk[] {
+    const shortest = findShortestWalk(graph, from, to, new Set(), new Set());
+    if (!shortest) {
+        return [];
+    }
+    const found: GraphWalk[] = [shortest];
+    const candidates: GraphWalk[] = [];
+    const keys = new Set([walkKey(shortest)]);
+
+    while (found.length < maxWalks) {
+        const last = found[found.length - 1];
+        for (let i = 0; i < last.edges.length; i++) {
+            const root = last.edges.slice(0, i);
+            const rootKey = walkKey({ modelIds: [], edges: root });
+            const blockedCables = new Set(found
+                .filter(walk => walkKey({ modelIds: [], edges: walk.edges.slice(0, i) }) === rootKey)
+                .map(walk => walk.edges[i].cableId));
+            const blockedModels = new Set(last.modelIds.slice(0, i));
+            const spur = findShortestWalk(graph, i === 0 ? from : { modelId: last.modelIds[i] }, to, blockedModels, blockedCables);
+            if (spur) {
+                const walk: GraphWalk = { modelIds: [...last.modelIds.slice(0, i), ...spur.modelIds], edges: [...root, ...spur.edges] };
+                const key = walkKey(walk);
+                if (!keys.has(key)) {
+                    keys.add(key);
+                    candidates.push(walk);
+                }
+            }
+        }
+        if (candidates.length === 0) {
+            break;
+        }
+        candidates.sort((a, b) => a.edges.length - b.edges.length); // Stable, so earlier candidates win ties
+        found.push(candidates.shift()!);
+    }
+    return found;
+}
+
+function walkKey(walk: GraphWalk): string {
+    return walk.edges.map(edge => edge.cableId).join('\u0000');
+}
+
+function toTopologyPath(walk: GraphWalk): TopologyPath {
+    return {
+        hops: walk.modelIds.map((modelId, i) => ({
+            modelId,
+            inPort: i > 0 ? walk.edges[i - 1].toPort : null,
+            outPort: i < walk.edges.length ? walk.edges[i].fromPort : null
+        })),
+        cableIds: walk.edges.map(edge => edge.cableId)
+    };
+}
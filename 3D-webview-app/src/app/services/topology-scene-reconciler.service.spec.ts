@@ -0,0 +1,167 @@
+import { DEFAULT_RACK_DEFINITIONS } from './rack-placement';
+import { TopologyStateService } from './topology-state.service';
+import { TopologySceneReconcilerService } from './topology-scene-reconciler.service';
+import { ThreeSceneService } from './tree-scene.service';
+import { createTestCable, createTestDevice, createTestLayout, createTestPort } from '../testing/topology-fixtures';
+
+// Records what the reconciler asks of the scene; model loads finish when the test says so
+class FakeScene {
+  readonly models = new Set<string>();
+  readonly cables = new Map<string, string[]>(); // Cable ID to the models at its ends
+  readonly racks = new Set<string>();
+  readonly calls: string[] = [];
+  deferLoads = false;
+  private pendingLoads: (() => void)[] = [];
+
+  hasModel(id: string): boolean { return this.models.has(id); }
+  hasCable(id: string): boolean { return this.cables.has(id); }
+  hasRack(id: string): boolean { return this.racks.has(id); }
+
+  addModelToScene(_url: string, id: string): Promise<void> {
+    this.calls.push(`add ${id}`);
+    const add = () => { this.models.add(id); };
+    if (!this.deferLoads) {
+      add();
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.pendingLoads.push(() => { add(); resolve(); }));
+  }
+  // Like the real scene, removing a model drops its cables
+  removeModelFromScene(id: string): void {
+    this.calls.push(`remove ${id}`);
+    this.models.delete(id);
+    this.cables.forEach((ends, cableId) => ends.includes(id) && this.cables.delete(cableId));
+  }
+  updateModelTransform(id: string): void { this.calls.push(`move ${id}`); }
+  setPortState(id: string, portName: string, status: string): void { this.calls.push(`port ${id} ${portName} ${status}`); }
+  connectCable(_url: string | undefined, id: string, source: { modelId: string }, target: { modelId: string }): Promise<void> {
+    this.calls.push(`connect ${id}`);
+    this.cables.set(id, [source.modelId, target.modelId]);
+    return Promise.resolve();
+  }
+  disconnectCable(id: string): void {
+    this.calls.push(`disconnect ${id}`);
+    this.cables.delete(id);
+  }
+  addRackToScene(id: string): void {
+    this.calls.push(`add rack ${id}`);
+    this.racks.add(id);
+  }
+  removeRackFromScene(id: string): void {
+    this.calls.push(`remove rack ${id}`);
+    this.racks.delete(id);
+  }
+  updateRackTransform(id: string): void { this.calls.push(`move rack ${id}`); }
+  setRackFreeSlots(): void { }
+
+  finishLoads(): void {
+    this.pendingLoads.splice(0).forEach(finish => finish());
+  }
+}
+
+const device = (id: string) => createTestDevice(id, { ports: [createTestPort('Port1_Indicator')] });
+
+const LAYOUT = createTestLayout({
+  models: [device('a'), device('b')],
+  connections: [createTestCable('ab', 'a', 'Port1', 'b', 'Port1')],
+  racks: [{ id: 'rack-1', rackDefinitionId: 'Rack_42U', position: { x: 0, y: 0, z: 0 }, rotation: { x: 0, y: 0, z: 0 } }]
+});
+
+describe('TopologySceneReconcilerService', () => {
+  let scene: FakeScene;
+  let topologyState: jasmine.SpyObj<TopologyStateService>;
+  let reconciler: TopologySceneReconcilerService;
+
+  beforeEach(() => {
+    scene = new FakeScene();
+    topologyState = jasmine.createSpyObj<TopologyStateService>('TopologyStateService', ['getRackDefinition', 'validateCurrentTopology']);
+    topologyState.getRackDefinition.and.callFake(id => DEFAULT_RACK_DEFINITIONS.find(definition => definition.id === id));
+    reconciler = new TopologySceneReconcilerService(scene as unknown as ThreeSceneService, topologyState);
+  });
+
+  it('builds the scene from the first layout', async () => {
+    await reconciler.reconcile(LAYOUT);
+    expect(scene.calls).toEqual([
+      'add rack rack-1',
+      'add a', 'add b',
+      'port a Port1_Indicator up', 'port b Port1_Indicator up',
+      'connect ab'
+    ]);
+  });
+
+  it('re-validates once models were loaded, so attach names get checked', async () => {
+    await reconciler.reconcile(LAYOUT);
+    expect(topologyState.validateCurrentTopology).toHaveBeenCalledTimes(1);
+
+    await reconciler.reconcile({ ...LAYOUT, models: [{ ...LAYOUT.models[0], position: { x: 1, y: 0, z: 0 } }, LAYOUT.models[1]] });
+    expect(topologyState.validateCurrentTopology).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves the scene alone when the same data comes again', async () => {
+    await reconciler.reconcile(LAYOUT);
+    scene.calls.length = 0;
+    await reconciler.reconcile(JSON.parse(JSON.stringify(LAYOUT)));
+    expect(scene.calls).toEqual([]);
+  });
+
+  it('only applies what changed', async () => {
+    await reconciler.reconcile(LAYOUT);
+    scene.calls.length = 0;
+    const [a, b] = LAYOUT.models;
+    await reconciler.reconcile({
+      ...LAYOUT,
+      models: [
+        { ...a, position: { x: 1, y: 0, z: 0 } },
+        { ...b, ports: [{ name: 'Port1_Indicator', status: 'down', blinking: false }] },
+        device('c')
+      ],
+      connections: [{ ...LAYOUT.connections[0], target: { modelId: 'c', portAttachName: 'Port1_Attach' } }],
+      racks: []
+    });
+    expect(scene.calls).toEqual([
+      'remove rack rack-1',
+      'disconnect ab',
+      'move a',
+      'port b Port1_Indicator down',
+      'add c',
+      'port c Port1_Indicator up',
+      'connect ab'
+    ]);
+  });
+
+  it('reloads models whose asset changed and re-attaches their cables', async () => {
+    await reconciler.reconcile(LAYOUT);
+    scene.calls.length = 0;
+    await reconciler.reconcile({ ...LAYOUT, models: [{ ...LAYOUT.models[0], assetUrl: 'assets/models/other.glb' }, LAYOUT.models[1]] });
+    expect(scene.calls).toEqual(['remove a', 'add a', 'port a Port1_Indicator up', 'connect ab']);
+  });
+
+  it('skips layouts that were superseded while a pass was running', async () => {
+    scene.deferLoads = true;
+    reconciler.reconcile({ ...LAYOUT, connections: [], racks: [], models: [device('a')] });
+    reconciler.reconcile({ ...LAYOUT, connections: [], racks: [], models: [device('a'), device('b')] });
+    const last = reconciler.reconcile({ ...LAYOUT, connections: [], racks: [], models: [device('a'), device('c')] });
+    scene.deferLoads = false;
+    scene.finishLoads();
+    await last;
+    expect(scene.calls.filter(call => call.startsWith('add'))).toEqual(['add a', 'add c']);
+  });
+
+  it('stops a pass when the scene is reset while models load', async () => {
+    scene.deferLoads = true;
+    const pass = reconciler.reconcile(LAYOUT);
+    reconciler.reset();
+    scene.finishLoads();
+    await pass;
+    expect(scene.calls.some(call => call.startsWith('port') || call.startsWith('connect'))).toBeFalse();
+    expect(topologyState.validateCurrentTopology).not.toHaveBeenCalled();
+
+    // Nothing counts as applied, so the next layout is built from scratch
+    scene.deferLoads = false;
+    scene.models.clear();
+    scene.calls.length = 0;
+    await reconciler.reconcile(LAYOUT);
+    expect(scene.calls).toContain('connect ab');
+    expect(scene.calls).toContain('add a');
+  });
+});
@@ -0,0 +1,213 @@
+import { Injectable } from '@angular/core';
+import { ThreeSceneService } from './tree-scene.service';
+import { CableConnection, ModelInstance, PortState, RackInstance, TopologyLayout, TopologyStateService } from './topology-state.service';
+import { getFreeUSlots } from './rack-placement';
+import { isSameBlinkPattern } from './blink-patterns';
+
+/**
+ * Keeps the 3D scene in sync with the topology held by TopologyStateService.
+ *
+ * Every call to reconcile() diffs the layout that was last applied to the scene against the new one
+ * and only adds, removes, moves or re-styles what actually changed, so emissions caused by
+ * saves or reloads of the same data don't duplicate anything in the scene.
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class TopologySceneReconcilerService {
+    private appliedTopology: TopologyLayout | null = null;
+
+    // Only the most recent layout matters; intermediate ones emitted while a pass is running are skipped
+    private queuedTopology: TopologyLayout | null = null;
+    private hasQueuedTopology = false;
+    private running: Promise<void> | null = null;
+
+    // Bumped by reset() so a pass that is still awaiting model loads stops touching a disposed scene
+    private generation = 0;
+
+    constructor(
+        private threeSceneService: ThreeSceneService,
+        private topologyStateService: TopologyStateService // For rack definitions and re-validation
+    ) { }
+
+    /**
+     * Brings the scene in line with the given topology.
+     * Resolves once this (or a newer) layout has been fully applied.
+     */
+    reconcile(topology: TopologyLayout | null): Promise<void> {
+        this.queuedTopology = topology;
+        this.hasQueuedTopology = true;
+        if (!this.running) {
+            this.running = this.drainQueue().finally(() => this.running = null);
+        }
+        return this.running;
+    }
+
+    /**
+     * Forgets what has been applied. Call when the scene is disposed so the next
+     * reconcile() rebuilds everything from scratch.
+     */
+    reset(): void {
+        this.generation++;
+        this.appliedTopology = null;
+        this.queuedTopology = null;
+        this.hasQueuedTopology = false;
+    }
+
+    private async drainQueue(): Promise<void> {
+        while (this.hasQueuedTopology) {
+            const next = this.queuedTopology;
+            const generation = this.generation;
+            this.hasQueuedTopology = false;
+            this.queuedTopology = null;
+
+            let loadedModels = false;
+            try {
+                loadedModels = await this.applyDiff(this.appliedTopology, next, generation);
+            } catch (error) {
+                console.error('Error reconciling topology with the scene:', error);
+            }
+            if (generation === this.generation) {
+                this.appliedTopology = next;
+                // Attach names can only be checked against loaded models, so the report made before they were loaded lacks them
+                if (loadedModels) {
+                    this.topologyStateService.validateCurrentTopology();
+                }
+            }
+        }
+    }
+
+    // Resolves to whether any model had to be loaded
+    private async applyDiff(prev: TopologyLayout | null, next: TopologyLayout | null, generation: number): Promise<boolean> {
+        const prevModels = this.indexById(prev?.models ?? []);
+        const nextModels = this.indexById(next?.models ?? []);
+        const prevCables = this.indexById(prev?.connections ?? []);
+        const nextCables = this.indexById(next?.connections ?? []);
+
+        // 0. Racks are drawn procedurally, so they can be updated right away
+        this.applyRackChanges(prev?.racks ?? [], next);
+
+        // 1. Cables that are gone or now run between different ports
+        prevCables.forEach((cable, cableId) => {
+            const nextCable = nextCables.get(cableId);
+            if (!nextCable || !this.isSameCable(cable, nextCable)) {
+                this.threeSceneService.disconnectCable(cableId);
+            }
+        });
+
+        // 2. Models that are gone or point to a different asset (those get reloaded below)
+        prevModels.forEach((model, modelId) => {
+            const nextModel = nextModels.get(modelId);
+            if (!nextModel || nextModel.assetUrl !== model.assetUrl) {
+                this.threeSceneService.removeModelFromScene(modelId);
+            }
+        });
+
+        // 3. New models are loaded in parallel, existing ones are moved and re-styled in place
+        const loads: Promise<void>[] = [];
+        nextModels.forEach((model, modelId) => {
+            const prevModel = prevModels.get(modelId);
+            if (!prevModel || prevModel.assetUrl !== model.assetUrl || !this.threeSceneService.hasModel(modelId)) {
+                loads.push(this.loadModel(model, generation));
+                return;
+            }
+            if (!this.isSameTransform(prevModel, model)) {
+                this.threeSceneService.updateModelTransform(modelId, model.position, model.rotation);
+            }
+            this.applyPortChanges(modelId, prevModel.ports ?? [], model.ports ?? []);
+        });
+        await Promise.all(loads);
+        if (generation !== this.generation) {
+            return loads.length > 0;
+        }
+
+        // 4. Any cable not in the scene yet whose two ends are loaded. This also re-attaches cables
+        //    that were dropped together with a model that had to be reloaded.
+        for (const [cableId, cable] of nextCables) {
+            if (!this.threeSceneService.hasCable(cableId)
+                && this.threeSceneService.hasModel(cable.source.modelId)
+                && this.threeSceneService.hasModel(cable.target.modelId)) {
+                await this.threeSceneService.connectCable(cable.cableModelUrl, cable.id, cable.source, cable.target);
+                if (generation !== this.generation) {
+                    return loads.length > 0;
+                }
+            }
+        }
+        return loads.length > 0;
+    }
+
+    private applyRackChanges(prevRacks: RackInstance[], next: TopologyLayout | null): void {
+        const prevById = this.indexById(prevRacks);
+        const nextById = this.indexById(next?.racks ?? []);
+
+        prevById.forEach((rack, rackId) => {
+            const nextRack = nextById.get(rackId);
+            if (!nextRack || nextRack.rackDefinitionId !== rack.rackDefinitionId) {
+                this.threeSceneService.removeRackFromScene(rackId);
+            }
+        });
+        nextById.forEach((rack, rackId) => {
+            const definition = this.topologyStateService.getRackDefinition(rack.rackDefinitionId);
+            if (!definition) {
+                console.warn(`Unknown rack definition ${rack.rackDefinitionId} for rack ${rackId}.`);
+                return;
+            }
+            const prevRack = prevById.get(rackId);
+            if (!this.threeSceneService.hasRack(rackId)) {
+                this.threeSceneService.addRackToScene(rackId, definition, rack.position, rack.rotation);
+            } else if (prevRack && !this.isSameTransform(prevRack, rack)) {
+                this.threeSceneService.updateRackTransform(rackId, rack.position, rack.rotation);
+            }
+            // Cheap enough to recompute on every change; the scene only rebuilds markers that differ
+            this.threeSceneService.setRackFreeSlots(rackId, getFreeUSlots(next!, rackId, definition));
+        });
+    }
+
+    private async loadModel(model: ModelInstance, generation: number): Promise<void> {
+        if (this.threeSceneService.hasModel(model.id)) {
+            this.threeSceneService.removeModelFromScene(model.id);
+        }
+        await this.threeSceneService.addModelToScene(model.assetUrl, model.id, model.position, model.rotation);
+        if (generation !== this.generation) {
+            return;
+        }
+        (model.ports ?? []).forEach(port => {
+            this.threeSceneService.setPortState(model.id, port.name, port.status, port.blinking, port.blinkPattern);
+        });
+    }
+
+    private applyPortChanges(modelId: string, prevPorts: PortState[], nextPorts: PortState[]): void {
+        const prevByName = new Map(prevPorts.map(port => [port.name, port]));
+        const nextNames = new Set(nextPorts.map(port => port.name));
+
+        nextPorts.forEach(port => {
+            const prevPort = prevByName.get(port.name);
+            if (!prevPort || prevPort.status !== port.status || prevPort.blinking !== port.blinking
+                || !isSameBlinkPattern(prevPort.blinkPattern, port.blinkPattern)) {
+                this.threeSceneService.setPortState(modelId, port.name, port.status, port.blinking, port.blinkPattern);
+            }
+        });
+        // Ports dropped from the data go back to the state addModelToScene initialises them with
+        prevPorts.forEach(port => {
+            if (!nextNames.has(port.name)) {
+                this.threeSceneService.setPortState(modelId, port.name, 'inactive', false);
+            }
+        });
+    }
+
+    private isSameTransform(a: ModelInstance | RackInstance, b: ModelInstance | RackInstance): boolean {
+        return a.position.x === b.position.x && a.position.y === b.position.y && a.position.z === b.position.z
+            && a.rotation.x === b.rotation.x && a.rotation.y === b.rotation.y && a.rotation.z === b.rotation.z
+            && a.rotation.order === b.rotation.order;
+    }
+
+    private isSameCable(a: CableConnection, b: CableConnection): boolean {
+        return a.cableModelUrl === b.cableModelUrl
+            && a.source.modelId === b.source.modelId && a.source.portAttachName === b.source.portAttachName
+            && a.target.modelId === b.target.modelId && a.target.portAttachName === b.target.portAttachName;
+    }
+
+    private indexById<T extends { id: string }>(items: T[]): Map<string, T> {
+        return new Map(items.map(item => [item.id, item]));
+    }
+}
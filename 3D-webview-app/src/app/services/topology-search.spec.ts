@@ -0,0 +1,62 @@
+import { ModelInstance, TopologyLayout } from './topology-state.service';
+import { EMPTY_SEARCH_QUERY, isEmptySearchQuery, searchTopology } from './topology-search';
+import { createTestDevice, createTestPort } from '../testing/topology-fixtures';
+
+function model(id: string, displayName: string | undefined, ports: [string, string][]): ModelInstance {
+  return createTestDevice(id, { displayName, ports: ports.map(([name, status]) => createTestPort(name, status)) });
+}
+
+describe('searchTopology', () => {
+  const layout: TopologyLayout = {
+    id: 'layout',
+    name: 'Layout',
+    models: [
+      model('core-1', 'Core Router', [['Port1_Indicator', 'up'], ['Port2_Indicator', 'down']]),
+      model('edge-1', undefined, [['Port1_Indicator', 'up'], ['Uplink_Indicator', 'warning']])
+    ],
+    connections: []
+  };
+
+  it('matches every device for an empty query', () => {
+    const matches = searchTopology(layout, EMPTY_SEARCH_QUERY);
+    expect(matches.map(match => match.modelId)).toEqual(['core-1', 'edge-1']);
+    expect(matches[1].displayName).toBe('edge-1');
+    expect(matches.every(match => match.fields.length === 0 && match.portNames.length === 0)).toBeTrue();
+  });
+
+  it('matches text case-insensitively and reports the matched fields', () => {
+    const matches = searchTopology(layout, { text: ' core ', portStatuses: [] });
+    expect(matches.length).toBe(1);
+    expect(matches[0].modelId).toBe('core-1');
+    expect(matches[0].fields).toEqual(['id', 'displayName']);
+  });
+
+  it('lists the ports a text matched', () => {
+    const matches = searchTopology(layout, { text: 'uplink', portStatuses: [] });
+    expect(matches.map(match => match.modelId)).toEqual(['edge-1']);
+    expect(matches[0].fields).toEqual(['port']);
+    expect(matches[0].portNames).toEqual(['Uplink_Indicator']);
+  });
+
+  it('keeps only devices with a port in one of the statuses', () => {
+    const matches = searchTopology(layout, { text: '', portStatuses: ['down', 'warning'] });
+    expect(matches.map(match => match.modelId)).toEqual(['core-1', 'edge-1']);
+    expect(matches[0].portNames).toEqual(['Port2_Indicator']);
+    expect(matches[1].portNames).toEqual(['Uplink_Indicator']);
+  });
+
+  it('applies the status filter to the matched ports of a device found by port name', () => {
+    expect(searchTopology(layout, { text: 'port1', portStatuses: ['down'] })).toEqual([]);
+    const matches = searchTopology(layout, { text: 'core', portStatuses: ['down'] });
+    expect(matches[0].portNames).toEqual(['Port2_Indicator']);
+  });
+});
+
+describe('isEmptySearchQuery', () => {
+  it('treats blank text without statuses as empty', () => {
+    expect(isEmptySearchQuery(EMPTY_SEARCH_QUERY)).toBeTrue();
+    expect(isEmptySearchQuery({ text: '   ', portStatuses: [] })).toBeTrue();
+    expect(isEmptySearchQuery({ text: 'a', portStatuses: [] })).toBeFalse();
+    expect(isEmptySearchQuery({ text: '', portStatuses: ['up'] })).toBeFalse();
+  });
+});
@@ -0,0 +1,59 @@
+import type { TopologyLayout } from './topology-state.service';
+
+export interface TopologySearchQuery {
+    text: string; // Case-insensitive; matched against device id, display name, model definition and port names
+    portStatuses: string[]; // Only devices with a port in one of these statuses; empty for any status
+}
+
+export type TopologySearchField = 'id' | 'displayName' | 'modelDefinitionId' | 'port';
+
+export interface TopologySearchMatch {
+    modelId: string;
+    displayName: string;
+    modelDefinitionId: string;
+    fields: TopologySearchField[]; // What the text matched; empty when there is no text
+    portNames: string[]; // Ports that match the text (when it matched ports) and the status filter
+}
+
+export const EMPTY_SEARCH_QUERY: TopologySearchQuery = { text: '', portStatuses: [] };
+
+export function isEmptySearchQuery(query: TopologySearchQuery): boolean {
+    return query.text.trim() === '' && query.portStatuses.length === 0;
+}
+
+/**
+ * Devices of a layout matching a search, in layout order. An empty query matches every device.
+ */
+export function searchTopology(layout: TopologyLayout, query: TopologySearchQuery): TopologySearchMatch[] {
+    const text = query.text.trim().toLowerCase();
+    const statuses = new Set(query.portStatuses);
+    const matches: TopologySearchMatch[] = [];
+
+    layout.models.forEach(model => {
+        const displayName = model.displayName || model.id;
+        const fields: TopologySearchField[] = [];
+        let textPorts = model.ports;
+        if (text) {
+            if (model.id.toLowerCase().includes(text)) fields.push('id');
+            if (model.displayName?.toLowerCase().includes(text)) fields.push('displayName');
+            if (model.modelDefinitionId.toLowerCase().includes(text)) fields.push('modelDefinitionId');
+            textPorts = model.ports.filter(port => port.name.toLowerCase().includes(text));
+            if (textPorts.length > 0) fields.push('port');
+            if (fields.length === 0) {
+                return;
+            }
+        }
+
+        let portNames: string[] = text ? textPorts.map(port => port.name) : [];
+        if (statuses.size > 0) {
+            // A device matched by name counts with any of its ports, one matched by port names only with those
+            const candidates = fields.length === 0 || fields.some(field => field !== 'port') ? model.ports : textPorts;
+            portNames = candidates.filter(port => statuses.has(port.status)).map(port => port.name);
+            if (portNames.length === 0) {
+                return;
+            }
+        }
+        matches.push({ modelId: model.id, displayName, modelDefinitionId: model.modelDefinitionId, fields, portNames });
+    });
+    return matches;
+}
@@ -0,0 +1,194 @@
+import { HttpClient, HttpErrorResponse, HttpHeaders, HttpResponse } from '@angular/common/http';
+import { of, throwError } from 'rxjs';
+import { ModelCatalogService } from './model-catalog.service';
+import { TopologyDataSourceConfig } from './topology-data-source';
+import { DEFAULT_AUTOSAVE_DELAY, SaveState, TopologyStateService } from './topology-state.service';
+import { TopologyValidatorService } from './topology-validator.service';
+import { createTestCable, createTestDevice, createTestLayout, createTestPort } from '../testing/topology-fixtures';
+
+const LAYOUT = createTestLayout({
+  models: ['a', 'b'].map(id => createTestDevice(id, { ports: [createTestPort('Port1_Indicator')] })),
+  connections: [createTestCable('ab', 'a', 'Port1', 'b', 'Port1')]
+});
+
+// With a validator that finds no problems, and LAYOUT loaded
+function createService(
+  dataSourceConfig: TopologyDataSourceConfig = { type: 'memory', layouts: [LAYOUT] },
+  http = {} as HttpClient // The memory data source makes no requests
+): TopologyStateService {
+  const validator = jasmine.createSpyObj<TopologyValidatorService>('TopologyValidatorService', ['validate']);
+  validator.validate.and.callFake(layout => ({ topologyId: layout.id, issues: [], errorCount: 0, warningCount: 0, validatedAt: 0 }));
+  const service = new TopologyStateService(http, validator, {} as ModelCatalogService, dataSourceConfig);
+  service.loadTopology('lab');
+  return service;
+}
+
+describe('TopologyStateService undo/redo', () => {
+  let service: TopologyStateService;
+
+  const current = () => service.getCurrentTopologyValue()!;
+
+  beforeEach(() => {
+    service = createService();
+  });
+
+  it('undoes and redoes single edits', () => {
+    service.renameModel('a', 'Core');
+    expect(service.getUndoLabel()).toBe('Rename device');
+
+    service.undo();
+    expect(current().models[0].displayName).toBeUndefined();
+    expect(service.getRedoLabel()).toBe('Rename device');
+
+    service.redo();
+    expect(current().models[0].displayName).toBe('Core');
+    expect(service.getRedoLabel()).toBeNull();
+  });
+
+  it('records grouped edits as one step', () => {
+    service.removeModelInstance('a');
+    expect(current().models.map(m => m.id)).toEqual(['b']);
+    expect(current().connections).toEqual([]);
+
+    service.undo();
+    expect(current()).toBe(LAYOUT);
+    expect(service.getUndoLabel()).toBeNull();
+  });
+
+  it('keeps nested groups in the outermost step', () => {
+    service.groupEdits('Tidy up', () => {
+      service.renameModel('a', 'Core');
+      service.removeModelInstances(['b']);
+    });
+    expect(service.getUndoLabel()).toBe('Tidy up');
+    service.undo();
+    expect(current()).toBe(LAYOUT);
+  });
+
+  it('restores the topology when a group fails and records nothing', () => {
+    expect(() => service.groupEdits('Broken', () => {
+      service.renameModel('a', 'Core');
+      throw new Error('boom');
+    })).toThrowError('boom');
+    expect(current()).toBe(LAYOUT);
+    expect(service.getUndoLabel()).toBeNull();
+  });
+
+  it('does not record a group that changed nothing', () => {
+    service.groupEdits('Nothing', () => service.renameModel('a', ''));
+    expect(service.getUndoLabel()).toBeNull();
+  });
+
+  it('does not record unmounting a device that is not mounted', () => {
+    service.unmountModel('a');
+    expect(current()).toBe(LAYOUT);
+    expect(service.getUndoLabel()).toBeNull();
+  });
+
+  it('drops the redo steps on a new edit', () => {
+    service.renameModel('a', 'Core');
+    service.undo();
+    service.renameModel('b', 'Edge');
+    expect(service.getRedoLabel()).toBeNull();
+  });
+
+  it('starts a new history when a layout is loaded or imported', () => {
+    service.renameModel('a', 'Core');
+    service.loadTopology('lab');
+    expect(service.getUndoLabel()).toBeNull();
+
+    service.renameModel('a', 'Core');
+    service.importTopology({ ...LAYOUT, id: 'other' });
+    expect(service.getUndoLabel()).toBeNull();
+  });
+
+  it('applies live port states to the history without recording them', () => {
+    service.renameModel('a', 'Core');
+    service.applyLiveStatusUpdates([{ modelId: 'a', portName: 'Port1_Indicator', status: 'down', blinking: true }]);
+    expect(service.getUndoLabel()).toBe('Rename device');
+
+    service.undo();
+    expect(current().models[0].displayName).toBeUndefined();
+    expect(current().models[0].ports[0].status).toBe('down');
+    service.redo();
+    expect(current().models[0].ports[0].status).toBe('down');
+  });
+});
+
+describe('TopologyStateService saving', () => {
+  let service: TopologyStateService;
+  let saveState: SaveState;
+
+  // A backend that serves LAYOUT and answers every save with the given status
+  function createHttpService(saveErrorStatus: number): { service: TopologyStateService, http: jasmine.SpyObj<HttpClient> } {
+    const http = jasmine.createSpyObj<HttpClient>('HttpClient', ['get', 'put']);
+    http.get.and.returnValue(of(new HttpResponse({ body: LAYOUT, headers: new HttpHeaders({ ETag: '"1"' }) })));
+    http.put.and.returnValue(throwError(() => new HttpErrorResponse({ status: saveErrorStatus })));
+    return { service: createService({ type: 'http', apiUrl: '/api' }, http), http };
+  }
+
+  beforeEach(() => {
+    jasmine.clock().install();
+    jasmine.clock().mockDate(); // debounceTime goes by Date.now()
+    spyOn(console, 'error'); // Failed saves are logged
+    service = createService();
+    service.saveStatus$.subscribe(status => saveState = status.state);
+  });
+
+  afterEach(() => {
+    service.setAutosave(false);
+    jasmine.clock().uninstall();
+  });
+
+  it('is dirty after an edit and clean again once it is undone', () => {
+    expect(service.isDirty()).toBeFalse();
+    service.renameModel('a', 'Core');
+    expect(service.isDirty()).toBeTrue();
+    service.undo();
+    expect(service.isDirty()).toBeFalse();
+  });
+
+  it('stays clean when live port states arrive', () => {
+    service.applyLiveStatusUpdates([{ modelId: 'a', portName: 'Port1_Indicator', status: 'down', blinking: true }]);
+    expect(service.getCurrentTopologyValue()!.models[0].ports[0].status).toBe('down');
+    expect(service.isDirty()).toBeFalse();
+  });
+
+  it('autosaves once no edit has been made for the delay', () => {
+    service.setAutosave(true);
+    service.renameModel('a', 'Core');
+    jasmine.clock().tick(DEFAULT_AUTOSAVE_DELAY - 1);
+    service.renameModel('b', 'Edge'); // Restarts the delay
+    jasmine.clock().tick(DEFAULT_AUTOSAVE_DELAY - 1);
+    expect(saveState).toBe('idle');
+
+    jasmine.clock().tick(1);
+    expect(saveState).toBe('saved');
+    expect(service.isDirty()).toBeFalse();
+  });
+
+  [409, 412].forEach(status => {
+    it(`reports a ${status} from the backend as a conflict`, () => {
+      ({ service } = createHttpService(status));
+      service.saveStatus$.subscribe(saveStatus => saveState = saveStatus.state);
+      service.renameModel('a', 'Core');
+      service.saveCurrentTopology();
+      expect(saveState).toBe('conflict');
+      expect(service.isDirty()).toBeTrue();
+    });
+  });
+
+  it('does not autosave while there is a conflict', () => {
+    const { service: httpService, http } = createHttpService(412);
+    service = httpService;
+    service.setAutosave(true);
+    service.renameModel('a', 'Core');
+    jasmine.clock().tick(DEFAULT_AUTOSAVE_DELAY);
+    expect(http.put).toHaveBeenCalledTimes(1);
+    expect((http.put.calls.mostRecent().args[2]?.headers as HttpHeaders).get('If-Match')).toBe('"1"');
+
+    service.renameModel('b', 'Edge');
+    jasmine.clock().tick(DEFAULT_AUTOSAVE_DELAY);
+    expect(http.put).toHaveBeenCalledTimes(1);
+  });
+});
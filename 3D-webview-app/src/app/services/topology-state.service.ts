@@ -1,7 +1,17 @@
-import { Injectable } from '@angular/core';
-import { BehaviorSubject, Observable, of } from 'rxjs';
-import { map, catchError, tap, first } from 'rxjs/operators';
+import { Inject, Injectable } from '@angular/core';
+import { BehaviorSubject, Observable, Subscription, combineLatest, from, of } from 'rxjs';
+import { map, catchError, tap, first, debounceTime, distinctUntilChanged, filter, finalize } from 'rxjs/operators';
 import { HttpClient } from '@angular/common/http'; // For backend interaction
+import { DEFAULT_RACK_DEFINITIONS, computeMountedTransform, findMountConflict } from './rack-placement';
+import { BlinkPattern } from './blink-patterns';
+import { getPortBaseName, indicatorToAttachName } from './port-naming';
+import { TopologyValidatorService, ValidationReport } from './topology-validator.service';
+import { ModelCatalogService } from './model-catalog.service';
+import { LayoutPlacements, LayoutStrategy, applyLayoutPlacements, computeLayout } from './layout-strategies';
+import {
+    TOPOLOGY_DATA_SOURCE_CONFIG, TopologyConflictError, TopologyDataSource, TopologyDataSourceConfig, TopologyRevision,
+    createTopologyDataSource, layoutVersionTag
+} from './topology-data-source';
 
 // --- Interfaces to define the shape of your topology data ---
 // (These should match what your backend expects/provides and what ThreeSceneService uses)
@@ -21,8 +31,9 @@ export interface EulerRotation {
 
 export interface PortState {
     name: string; // e.g., 'Switch_ModelA_Port01_Indicator' (matches Blender name)
-    status: 'active' | 'inactive' | 'error' | string; // string for custom hex colors
+    status: 'active' | 'inactive' | 'error' | string; // Any status from the port status theme, or a hex color
     blinking: boolean;
+    blinkPattern?: BlinkPattern; // How the LED blinks while `blinking`; defaults to the status' pattern, then 'slow'
     connectedCableId?: string; // Optional: ID of the cable connected to this port
     // ... other port-specific data
 }
@@ -32,12 +43,39 @@ export interface ModelInstance {
     modelDefinitionId: string; // Reference to a model type (e.g., "Switch_ModelA")
     assetUrl: string; // URL to the .glb file (e.g., 'assets/models/Switch_ModelA.glb')
     displayName?: string;
-    position: Vector3D;
+    position: Vector3D; // For rack-mounted devices this is derived from the rack and U position
     rotation: EulerRotation;
     ports: PortState[];
+    uHeight?: number; // Height in rack units (taken from the model definition), 1 if omitted
+    mount?: RackMount; // Set when the device is mounted in a rack
+    room?: string; // Room/hall the device stands in, used by the automatic layout
     // ... other model-specific data
 }
 
+export interface RackMount {
+    rackId: string; // RackInstance.id
+    uIndex: number; // Lowest U the device occupies (1 = bottom of the rack)
+}
+
+export interface RackDefinition {
+    id: string; // e.g., "Rack_42U"
+    name: string;
+    heightU: number; // Usable height in rack units
+    uHeight: number; // Height of one U in scene units
+    width: number;
+    depth: number;
+    baseHeight: number; // Space below the first U (and above the last one)
+}
+
+export interface RackInstance {
+    id: string; // Unique rack ID in the topology (e.g., "floor1-row2-rack5")
+    rackDefinitionId: string;
+    displayName?: string;
+    position: Vector3D; // Bottom center of the rack footprint
+    rotation: EulerRotation; // Devices face the same way as the rack front (+Z)
+    room?: string; // Room/hall the rack stands in, used by the automatic layout
+}
+
 export interface CableConnection {
     id: string; // Unique cable instance ID
     cableModelUrl?: string; // Optional: URL if using a specific GLB for the cable
@@ -52,40 +90,172 @@ export interface CableConnection {
     // ... other cable-specific data (e.g., type, color override)
 }
 
+export interface Viewpoint {
+    name: string; // Unique within a layout (e.g., "Row B racks")
+    position: Vector3D; // Camera position
+    target: Vector3D; // Point the camera looks at / orbits around
+}
+
 export interface TopologyLayout {
     id: string; // ID of this specific layout (e.g., "main-data-center")
     name: string;
     models: ModelInstance[];
     connections: CableConnection[];
+    racks?: RackInstance[];
+    viewpoints?: Viewpoint[]; // Saved camera positions
+    version?: number; // Revision assigned by the backend on every save, used to detect conflicting saves
     // ... other layout-specific metadata
 }
 
-interface SelectedObjectInfo {
+/**
+ * Raised when an edit is rejected because it would make the topology inconsistent.
+ * The message is meant to be shown to the user as-is.
+ */
+export class TopologyEditError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TopologyEditError';
+    }
+}
+
+// New state for one port, e.g. from the live status feed
+export interface PortStatusUpdate {
     modelId: string;
-    objectName: string; // Could be a port name or the modelId itself
-    objectType: 'port' | 'device';
+    portName: string;
+    status: PortState['status'];
+    blinking: boolean;
+    blinkPattern?: BlinkPattern;
 }
 
+// One end of a cable as picked in the scene: a device and the `_Indicator` name of one of its ports
+export interface PortRef {
+    modelId: string;
+    portName: string;
+}
+
+// One undoable step: the layout as it was before the edit
+interface HistoryEntry {
+    label: string; // e.g. 'Move device'
+    snapshot: TopologyLayout;
+}
+
+const HISTORY_LIMIT = 100; // Oldest entries are dropped beyond this
+
+export const DEFAULT_AUTOSAVE_DELAY = 3000; // ms without edits before an autosave
+
+// 'invalid': not saved because validation found errors, 'conflict': the layout was changed by someone else
+export type SaveState = 'idle' | 'saving' | 'saved' | 'invalid' | 'conflict' | 'error';
+
+export interface SaveStatus {
+    state: SaveState;
+    message?: string; // Shown to the user for 'invalid', 'conflict' and 'error'
+    savedAt?: number;
+}
+
+export interface SaveOptions {
+    ignoreValidationErrors?: boolean;
+    overwrite?: boolean; // Save even if the layout was changed by someone else since it was loaded
+}
+
+export interface SelectedObjectInfo {
+    modelId: string; // For a cable, the device at its source end
+    objectName: string; // Could be a port name, the modelId itself or a cable ID
+    objectType: 'port' | 'device' | 'cable';
+}
+
+function isSameSelectedObject(a: SelectedObjectInfo, b: SelectedObjectInfo): boolean {
+    return a.modelId === b.modelId && a.objectName === b.objectName && a.objectType === b.objectType;
+}
+
+// The layout with live port states applied; models without updates are kept as they are
+function withPortStatusUpdates(layout: TopologyLayout, updatesByModel: Map<string, PortStatusUpdate[]>): TopologyLayout {
+    const models = layout.models.map(model => {
+        const modelUpdates = updatesByModel.get(model.id);
+        if (!modelUpdates) {
+            return model;
+        }
+        const ports = [...model.ports];
+        modelUpdates.forEach(update => {
+            const index = ports.findIndex(p => p.name === update.portName);
+            const state = { status: update.status, blinking: update.blinking, blinkPattern: update.blinkPattern };
+            if (index > -1) {
+                ports[index] = { ...ports[index], ...state };
+            } else {
+                ports.push({ name: update.portName, ...state });
+            }
+        });
+        return { ...model, ports };
+    });
+    return { ...layout, models };
+}
 
 @Injectable({
     providedIn: 'root'
 })
 export class TopologyStateService {
-    // Backend API endpoint (replace with your actual API URL)
-    private apiUrl = '/api/topology'; // Example API base URL
+    // Where layouts are loaded from and saved to; the configured source unless a load picked another one
+    private dataSource: TopologyDataSource;
+    // One source per config, so memory and local-storage sources keep what was saved to them across loads
+    private readonly dataSources = new Map<TopologyDataSourceConfig, TopologyDataSource>();
 
     // BehaviorSubjects to hold and broadcast the current state
     // Initialize with a default empty or placeholder state
     private readonly _currentTopology = new BehaviorSubject<TopologyLayout | null>(null);
-    private readonly _selectedObject = new BehaviorSubject<SelectedObjectInfo | null>(null);
+    private readonly _selectedObject = new BehaviorSubject<SelectedObjectInfo | null>(null); // Last item of the selection
+    private readonly _selection = new BehaviorSubject<SelectedObjectInfo[]>([]);
     private readonly _isLoading = new BehaviorSubject<boolean>(false);
+    private readonly _layoutPreview = new BehaviorSubject<LayoutPlacements | null>(null);
+    private readonly _validationReport = new BehaviorSubject<ValidationReport | null>(null);
+    private readonly _canUndo = new BehaviorSubject<boolean>(false);
+    private readonly _canRedo = new BehaviorSubject<boolean>(false);
+    private readonly _savedTopology = new BehaviorSubject<TopologyLayout | null>(null); // As last loaded or saved
+    private readonly _saveStatus = new BehaviorSubject<SaveStatus>({ state: 'idle' });
+    private readonly _autosaveEnabled = new BehaviorSubject<boolean>(false);
 
     // Expose observables for components to subscribe to
     readonly currentTopology$: Observable<TopologyLayout | null> = this._currentTopology.asObservable();
     readonly selectedObject$: Observable<SelectedObjectInfo | null> = this._selectedObject.asObservable();
+    readonly selection$: Observable<SelectedObjectInfo[]> = this._selection.asObservable();
     readonly isLoading$: Observable<boolean> = this._isLoading.asObservable();
+    // True while the current topology differs from what was last loaded or saved (undoing back to it counts as clean)
+    readonly isDirty$: Observable<boolean> = combineLatest([this.currentTopology$, this._savedTopology]).pipe(
+        map(([current, saved]) => current !== null && current !== saved),
+        distinctUntilChanged()
+    );
+    readonly saveStatus$: Observable<SaveStatus> = this._saveStatus.asObservable();
+    readonly autosaveEnabled$: Observable<boolean> = this._autosaveEnabled.asObservable();
+    readonly canUndo$: Observable<boolean> = this._canUndo.asObservable();
+    readonly canRedo$: Observable<boolean> = this._canRedo.asObservable();
+    // Result of the latest validation (on load, before saving, or on demand)
+    readonly validationReport$: Observable<ValidationReport | null> = this._validationReport.asObservable();
+    readonly isPreviewingLayout$: Observable<boolean> = this._layoutPreview.pipe(map(preview => preview !== null));
+
+    // What the scene should show: the current topology, with a pending layout preview applied on top
+    readonly displayedTopology$: Observable<TopologyLayout | null> = combineLatest([this.currentTopology$, this._layoutPreview]).pipe(
+        map(([topology, preview]) => topology && preview ? applyLayoutPlacements(topology, preview, id => this.getRackDefinition(id)) : topology)
+    );
+
+    // Undo/redo history of local edits. Layouts are immutable, so a snapshot is just a reference.
+    private undoStack: HistoryEntry[] = [];
+    private redoStack: HistoryEntry[] = [];
+    private groupDepth = 0;
+    private groupStart: HistoryEntry | null = null; // Layout before the outermost open group
 
-    constructor(private http: HttpClient) {
+    // Concurrency token of the last loaded/saved revision: the ETag if the backend sends one, else the layout version
+    private etag: string | null = null;
+    private baseVersion: TopologyLayout['version'];
+    private saveQueued = false; // Another save was requested while one was in flight
+    private autosaveSubscription: Subscription | null = null;
+
+    private readonly rackDefinitions = new Map<string, RackDefinition>(DEFAULT_RACK_DEFINITIONS.map(def => [def.id, def]));
+
+    constructor(
+        private http: HttpClient,
+        private validator: TopologyValidatorService,
+        private modelCatalog: ModelCatalogService,
+        @Inject(TOPOLOGY_DATA_SOURCE_CONFIG) private dataSourceConfig: TopologyDataSourceConfig
+    ) {
+        this.dataSource = this.getDataSource(dataSourceConfig);
         // Optionally, load an initial topology when the service is created
         // this.loadTopology('default-layout-id');
     }
@@ -93,52 +263,163 @@ export class TopologyStateService {
     // --- Public API for the Service ---
 
     /**
-     * Loads a topology layout from the backend or a default.
+     * Loads a topology layout from the configured data source, or from `source` if given.
+     * Later saves go back to the source the layout was loaded from.
      * @param layoutId The ID of the topology layout to load.
      */
-    loadTopology(layoutId: string): void {
+    loadTopology(layoutId: string, source?: TopologyDataSourceConfig): void {
+        this.dataSource = this.getDataSource(source ?? this.dataSourceConfig);
         this._isLoading.next(true);
-        this.http.get<TopologyLayout>(`${this.apiUrl}/layouts/${layoutId}`)
+        this.dataSource.load(layoutId)
             .pipe(
-                tap(topology => {
+                tap(revision => {
+                    const topology = revision.layout;
+                    this.resetForNewLayout();
+                    this.setSavedRevision(revision);
+                    this._saveStatus.next({ state: 'idle' });
                     this._currentTopology.next(topology);
-                    console.log('Topology loaded:', topology);
+                    this.validateCurrentTopology();
+                    console.log(`Topology loaded from ${this.dataSource.description}:`, topology);
                 }),
                 catchError(error => {
-                    console.error('Error loading topology:', error);
-                    this._currentTopology.next(this.getFallbackTopology()); // Provide a fallback or empty state
+                    console.error(`Error loading topology ${layoutId} from ${this.dataSource.description}:`, error);
+                    const fallback = this.getFallbackTopology();
+                    this.resetForNewLayout();
+                    this.setSavedRevision({ layout: fallback, etag: null });
+                    this._currentTopology.next(fallback); // Provide a fallback or empty state
                     return of(null); // Or re-throw, or handle more gracefully
                 }),
                 tap(() => this._isLoading.next(false))
             ).subscribe();
     }
 
+    // Whenever the layout is replaced: previews, history and selection all refer to the old one
+    private resetForNewLayout(): void {
+        this._layoutPreview.next(null);
+        this.clearHistory();
+        this.clearSelectedObject();
+    }
+
+    private getDataSource(config: TopologyDataSourceConfig): TopologyDataSource {
+        let dataSource = this.dataSources.get(config);
+        if (!dataSource) {
+            dataSource = createTopologyDataSource(config, this.http);
+            this.dataSources.set(config, dataSource);
+        }
+        return dataSource;
+    }
+
+    /**
+     * Replaces the current topology with an imported one (e.g. from a file). Like a load, this starts a new
+     * history, but the import counts as unsaved. Saving it goes to the current data source; if it has the ID of
+     * the loaded layout it replaces that one (still conditional on the loaded revision), otherwise it is stored as a new layout.
+     */
+    importTopology(layout: TopologyLayout): void {
+        const currentTopology = this._currentTopology.getValue();
+        if (currentTopology?.id !== layout.id) {
+            // Nothing of this ID has been loaded, so there is no revision to base the save on
+            this.etag = null;
+            this.baseVersion = undefined;
+            this._savedTopology.next(null);
+        }
+        this.resetForNewLayout();
+        this._saveStatus.next({ state: 'idle' });
+        this._currentTopology.next({ ...layout, version: this.baseVersion });
+        this.validateCurrentTopology();
+    }
+
     /**
-     * Saves the current topology state to the backend.
+     * Saves the current topology to the data source it was loaded from; progress and failures are reported on saveStatus$.
+     * Validates it first and refuses to save a topology with errors unless `ignoreValidationErrors` is set.
+     * The save is conditional on the revision that was loaded (If-Match), so a layout changed by someone
+     * else in the meantime is reported as a conflict instead of being overwritten, unless `overwrite` is set.
      */
-    saveCurrentTopology(): void {
+    saveCurrentTopology(options: SaveOptions = {}): void {
         const currentTopology = this._currentTopology.getValue();
         if (!currentTopology) {
             console.warn('No topology data to save.');
             return;
         }
+        if (this._saveStatus.getValue().state === 'saving') {
+            this.saveQueued = true; // Saved again with whatever is current once this one is done
+            return;
+        }
+        const report = this.validateCurrentTopology();
+        if (report && report.errorCount > 0 && !options.ignoreValidationErrors) {
+            console.warn(`Not saving topology ${currentTopology.id}: validation found ${report.errorCount} error(s).`, report.issues);
+            this._saveStatus.next({ state: 'invalid', message: `Not saved: the topology has ${report.errorCount} validation error(s).` });
+            return;
+        }
+
+        const body: TopologyLayout = { ...currentTopology, version: this.baseVersion };
+        const ifMatch = options.overwrite ? null : this.etag ?? layoutVersionTag(body);
         this._isLoading.next(true);
-        // Assuming PUT to update an existing layout, or POST if it's new
-        this.http.put<TopologyLayout>(`${this.apiUrl}/layouts/${currentTopology.id}`, currentTopology)
+        this._saveStatus.next({ state: 'saving' });
+        this.dataSource.save(body, ifMatch)
             .pipe(
-                tap(savedTopology => {
-                    this._currentTopology.next(savedTopology); // Update with response from backend (e.g., if it adds timestamps)
+                tap(revision => {
+                    const savedTopology = revision.layout;
+                    this.setSavedRevision(revision);
+                    // Edits made while the request was in flight stay, and keep the topology dirty
+                    if (this._currentTopology.getValue() === currentTopology) {
+                        this._currentTopology.next(savedTopology); // Update with response from backend (e.g., if it adds timestamps)
+                    }
+                    this._saveStatus.next({ state: 'saved', savedAt: Date.now() });
                     console.log('Topology saved:', savedTopology);
                 }),
                 catchError(error => {
-                    console.error('Error saving topology:', error);
-                    // Potentially revert to previous state or notify user
+                    console.error(`Error saving topology to ${this.dataSource.description}:`, error);
+                    this.saveQueued = false;
+                    if (error instanceof TopologyConflictError) {
+                        this._saveStatus.next({
+                            state: 'conflict',
+                            message: 'Someone else has changed this topology since it was loaded. Reload it, or overwrite their changes.'
+                        });
+                    } else {
+                        this._saveStatus.next({ state: 'error', message: `Saving failed: ${error.message}` });
+                    }
                     return of(null);
                 }),
-                tap(() => this._isLoading.next(false))
+                finalize(() => {
+                    this._isLoading.next(false);
+                    if (this.saveQueued) {
+                        this.saveQueued = false;
+                        if (this.isDirty()) {
+                            this.saveCurrentTopology(options);
+                        }
+                    }
+                })
             ).subscribe();
     }
 
+    isDirty(): boolean {
+        const currentTopology = this._currentTopology.getValue();
+        return currentTopology !== null && currentTopology !== this._savedTopology.getValue();
+    }
+
+    /**
+     * Saves automatically once no edit has been made for `delayMs`. Autosave pauses after a
+     * conflict until the next successful (manual) save or load.
+     */
+    setAutosave(enabled: boolean, delayMs: number = DEFAULT_AUTOSAVE_DELAY): void {
+        this.autosaveSubscription?.unsubscribe();
+        this.autosaveSubscription = null;
+        this._autosaveEnabled.next(enabled);
+        if (enabled) {
+            this.autosaveSubscription = this.currentTopology$.pipe(
+                debounceTime(delayMs),
+                filter(() => this.isDirty() && this._saveStatus.getValue().state !== 'conflict')
+            ).subscribe(() => this.saveCurrentTopology());
+        }
+    }
+
+    // Remembers a loaded/saved revision as the clean state and the base for the next conditional save
+    private setSavedRevision(revision: TopologyRevision): void {
+        this.etag = revision.etag;
+        this.baseVersion = revision.layout.version;
+        this._savedTopology.next(revision.layout);
+    }
+
     /**
      * Adds a new model instance to the current topology.
      * This is a local update; call saveCurrentTopology() to persist.
@@ -147,7 +428,7 @@ export class TopologyStateService {
         const currentTopology = this._currentTopology.getValue();
         if (currentTopology) {
             const updatedModels = [...currentTopology.models, model];
-            this._currentTopology.next({ ...currentTopology, models: updatedModels });
+            this.applyEdit({ ...currentTopology, models: updatedModels }, 'Add device');
             // Optionally, auto-save or provide a "dirty" flag
         } else {
             // Handle case where no topology is loaded yet - perhaps initialize one
@@ -157,29 +438,82 @@ export class TopologyStateService {
     }
 
     /**
-     * Removes a model instance from the current topology.
+     * Removes a model instance and its cables from the current topology, as one undo step.
      * This is a local update; call saveCurrentTopology() to persist.
      */
     removeModelInstance(modelId: string): void {
         const currentTopology = this._currentTopology.getValue();
         if (currentTopology) {
-            const updatedModels = currentTopology.models.filter(m => m.id !== modelId);
-            // Also remove any connections associated with this model
-            const updatedConnections = currentTopology.connections.filter(
-                conn => conn.source.modelId !== modelId && conn.target.modelId !== modelId
+            this.groupEdits('Remove device', () => {
+                // Cables first, so ports at their other end stop referencing them
+                currentTopology.connections
+                    .filter(conn => conn.source.modelId === modelId || conn.target.modelId === modelId)
+                    .forEach(conn => this.removeCableConnection(conn.id));
+                const withoutCables = this._currentTopology.getValue()!;
+                this.applyEdit({ ...withoutCables, models: withoutCables.models.filter(m => m.id !== modelId) }, 'Remove device');
+            });
+            this.pruneSelection();
+        }
+    }
+
+    /**
+     * Removes several devices and their cables as one undo step.
+     * This is a local update; call saveCurrentTopology() to persist.
+     */
+    removeModelInstances(modelIds: string[]): void {
+        if (modelIds.length > 0) {
+            this.groupEdits(modelIds.length === 1 ? 'Remove device' : `Remove ${modelIds.length} devices`, () => {
+                modelIds.forEach(modelId => this.removeModelInstance(modelId));
+            });
+        }
+    }
+
+    /**
+     * Moves and/or rotates a model instance.
+     * This is a local update; call saveCurrentTopology() to persist.
+     */
+    updateModelTransform(modelId: string, position: Vector3D, rotation: EulerRotation): void {
+        const currentTopology = this._currentTopology.getValue();
+        if (currentTopology) {
+            // A device moved by hand leaves its rack slot
+            const updatedModels = currentTopology.models.map(m =>
+                m.id === modelId ? { ...m, position: { ...position }, rotation: { ...rotation }, mount: undefined } : m
             );
-            this._currentTopology.next({ ...currentTopology, models: updatedModels, connections: updatedConnections });
-            if (this._selectedObject.getValue()?.modelId === modelId) {
-                this.clearSelectedObject();
-            }
+            this.applyEdit({ ...currentTopology, models: updatedModels }, 'Move device');
         }
     }
 
     /**
-     * Updates the state of a specific port on a model.
+     * Moves and/or rotates several model instances as one undo step, e.g. a selection dragged together.
      * This is a local update; call saveCurrentTopology() to persist.
      */
-    updatePortState(modelId: string, portName: string, newStatus: PortState['status'], newBlinking: boolean): void {
+    updateModelTransforms(transforms: { modelId: string, position: Vector3D, rotation: EulerRotation }[]): void {
+        if (transforms.length > 0) {
+            this.groupEdits(transforms.length === 1 ? 'Move device' : `Move ${transforms.length} devices`, () => {
+                transforms.forEach(t => this.updateModelTransform(t.modelId, t.position, t.rotation));
+            });
+        }
+    }
+
+    /**
+     * Sets the name shown for a device; an empty name falls back to its ID.
+     * This is a local update; call saveCurrentTopology() to persist.
+     */
+    renameModel(modelId: string, displayName: string): void {
+        const currentTopology = this._currentTopology.getValue();
+        const model = currentTopology?.models.find(m => m.id === modelId);
+        const name = displayName.trim() || undefined;
+        if (currentTopology && model && model.displayName !== name) {
+            const updatedModels = currentTopology.models.map(m => m.id === modelId ? { ...m, displayName: name } : m);
+            this.applyEdit({ ...currentTopology, models: updatedModels }, 'Rename device');
+        }
+    }
+
+    /**
+     * Updates the state of a specific port on a model. A port the model doesn't list yet is added.
+     * This is a local update; call saveCurrentTopology() to persist.
+     */
+    updatePortState(modelId: string, portName: string, newStatus: PortState['status'], newBlinking: boolean, newBlinkPattern?: BlinkPattern): void {
         const currentTopology = this._currentTopology.getValue();
         if (currentTopology) {
             const modelIndex = currentTopology.models.findIndex(m => m.id === modelId);
@@ -193,14 +527,75 @@ export class TopologyStateService {
                     updatedTopology.models[modelIndex].ports[portIndex] = { // New port object
                         ...updatedTopology.models[modelIndex].ports[portIndex],
                         status: newStatus,
-                        blinking: newBlinking
+                        blinking: newBlinking,
+                        blinkPattern: newBlinkPattern
+                    };
+                    this.applyEdit(updatedTopology, 'Change port state');
+                } else {
+                    // A port of the device's GLB that the layout doesn't list yet
+                    const updatedModels = [...currentTopology.models];
+                    updatedModels[modelIndex] = {
+                        ...updatedModels[modelIndex],
+                        ports: [...updatedModels[modelIndex].ports, { name: portName, status: newStatus, blinking: newBlinking, blinkPattern: newBlinkPattern }]
                     };
-                    this._currentTopology.next(updatedTopology);
+                    this.applyEdit({ ...currentTopology, models: updatedModels }, 'Change port state');
                 }
             }
         }
     }
 
+    /**
+     * Sets the status of several ports as one undo step. Each port keeps its blinking state.
+     * This is a local update; call saveCurrentTopology() to persist.
+     */
+    setPortStatuses(ports: PortRef[], status: PortState['status']): void {
+        if (ports.length > 0) {
+            this.groupEdits(ports.length === 1 ? 'Change port state' : `Change state of ${ports.length} ports`, () => {
+                ports.forEach(ref => {
+                    const port = this._currentTopology.getValue()?.models.find(m => m.id === ref.modelId)?.ports.find(p => p.name === ref.portName);
+                    this.updatePortState(ref.modelId, ref.portName, status, port?.blinking ?? false, port?.blinkPattern);
+                });
+            });
+        }
+    }
+
+    /**
+     * Applies port states reported by the network (see LiveStatusFeedService) in one update.
+     * This is not an edit: it isn't recorded for undo and doesn't make a clean topology dirty.
+     * The undo/redo snapshots get the same states, so undoing an edit doesn't bring back older port states.
+     * Ports not listed in a model's `ports` yet are added.
+     */
+    applyLiveStatusUpdates(updates: PortStatusUpdate[]): void {
+        const currentTopology = this._currentTopology.getValue();
+        if (!currentTopology || updates.length === 0) {
+            return;
+        }
+        const updatesByModel = new Map<string, PortStatusUpdate[]>();
+        updates.forEach(update => updatesByModel.set(update.modelId, [...(updatesByModel.get(update.modelId) ?? []), update]));
+
+        // Snapshots are shared between the stacks and the saved topology, so each is patched once and stays shared
+        const patched = new Map<TopologyLayout, TopologyLayout>();
+        const patch = (layout: TopologyLayout): TopologyLayout => {
+            let result = patched.get(layout);
+            if (!result) {
+                result = withPortStatusUpdates(layout, updatesByModel);
+                patched.set(layout, result);
+            }
+            return result;
+        };
+        const updatedTopology = patch(currentTopology);
+        this.undoStack = this.undoStack.map(entry => ({ ...entry, snapshot: patch(entry.snapshot) }));
+        this.redoStack = this.redoStack.map(entry => ({ ...entry, snapshot: patch(entry.snapshot) }));
+        if (this.groupStart) {
+            this.groupStart = { ...this.groupStart, snapshot: patch(this.groupStart.snapshot) };
+        }
+        const savedTopology = this._savedTopology.getValue();
+        if (savedTopology && patched.has(savedTopology)) {
+            this._savedTopology.next(patched.get(savedTopology)!); // Still clean
+        }
+        this._currentTopology.next(updatedTopology);
+    }
+
     /**
      * Adds a cable connection to the topology.
      * This is a local update; call saveCurrentTopology() to persist.
@@ -213,10 +608,55 @@ export class TopologyStateService {
                 connection.id = `cable_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`;
             }
             const updatedConnections = [...currentTopology.connections, connection];
-            this._currentTopology.next({ ...currentTopology, connections: updatedConnections });
+            this.applyEdit({ ...currentTopology, connections: updatedConnections }, 'Add cable');
         }
     }
 
+    /**
+     * Connects two ports with a new cable, mapping their `_Indicator` names to `_Attach` points.
+     * Throws a TopologyEditError if a device is unknown, both ends are the same port, or either port already has a cable.
+     * This is a local update; call saveCurrentTopology() to persist.
+     */
+    connectPorts(source: PortRef, target: PortRef, cableModelUrl?: string): CableConnection {
+        const currentTopology = this._currentTopology.getValue();
+        if (!currentTopology) {
+            throw new TopologyEditError('No topology loaded.');
+        }
+        [source, target].forEach(end => {
+            if (!currentTopology.models.some(m => m.id === end.modelId)) {
+                throw new TopologyEditError(`Device ${end.modelId} not found.`);
+            }
+        });
+        if (source.modelId === target.modelId && source.portName === target.portName) {
+            throw new TopologyEditError('A cable needs two different ports.');
+        }
+        [source, target].forEach(end => {
+            const existing = this.findCableAtPort(currentTopology, end);
+            if (existing) {
+                const model = currentTopology.models.find(m => m.id === end.modelId)!;
+                throw new TopologyEditError(
+                    `Port ${getPortBaseName(end.portName)} on ${model.displayName || model.id} is already in use by cable ${existing.id}.`
+                );
+            }
+        });
+
+        const connection: CableConnection = {
+            id: `cable_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`,
+            cableModelUrl,
+            source: { modelId: source.modelId, portAttachName: indicatorToAttachName(source.portName) },
+            target: { modelId: target.modelId, portAttachName: indicatorToAttachName(target.portName) }
+        };
+        const updatedModels = currentTopology.models.map(m => {
+            const ends = [source, target].filter(end => end.modelId === m.id).map(end => end.portName);
+            return ends.length === 0 ? m : {
+                ...m,
+                ports: m.ports.map(p => ends.includes(p.name) ? { ...p, connectedCableId: connection.id } : p)
+            };
+        });
+        this.applyEdit({ ...currentTopology, models: updatedModels, connections: [...currentTopology.connections, connection] }, 'Connect ports');
+        return connection;
+    }
+
     /**
      * Removes a cable connection from the topology.
      * This is a local update; call saveCurrentTopology() to persist.
@@ -225,24 +665,359 @@ export class TopologyStateService {
         const currentTopology = this._currentTopology.getValue();
         if (currentTopology) {
             const updatedConnections = currentTopology.connections.filter(c => c.id !== cableId);
-            this._currentTopology.next({ ...currentTopology, connections: updatedConnections });
+            const updatedModels = currentTopology.models.map(m => m.ports.some(p => p.connectedCableId === cableId)
+                ? { ...m, ports: m.ports.map(p => p.connectedCableId === cableId ? { ...p, connectedCableId: undefined } : p) }
+                : m
+            );
+            this.applyEdit({ ...currentTopology, models: updatedModels, connections: updatedConnections }, 'Remove cable');
         }
     }
 
+    /**
+     * The cable plugged into a port, if any.
+     */
+    getCableAtPort(port: PortRef): CableConnection | undefined {
+        const currentTopology = this._currentTopology.getValue();
+        return currentTopology ? this.findCableAtPort(currentTopology, port) : undefined;
+    }
+
+    /**
+     * Removes several cables as one undo step.
+     * This is a local update; call saveCurrentTopology() to persist.
+     */
+    removeCableConnections(cableIds: string[]): void {
+        if (cableIds.length > 0) {
+            this.groupEdits(cableIds.length === 1 ? 'Remove cable' : `Remove ${cableIds.length} cables`, () => {
+                cableIds.forEach(cableId => this.removeCableConnection(cableId));
+            });
+            this.pruneSelection();
+        }
+    }
+
+    private findCableAtPort(topology: TopologyLayout, port: PortRef): CableConnection | undefined {
+        const attachName = indicatorToAttachName(port.portName);
+        return topology.connections.find(c =>
+            (c.source.modelId === port.modelId && c.source.portAttachName === attachName)
+            || (c.target.modelId === port.modelId && c.target.portAttachName === attachName)
+        );
+    }
+
+    // --- Racks ---
+    getRackDefinition(rackDefinitionId: string): RackDefinition | undefined {
+        return this.rackDefinitions.get(rackDefinitionId);
+    }
+
+    getRackDefinitions(): RackDefinition[] {
+        return [...this.rackDefinitions.values()];
+    }
+
+    registerRackDefinition(definition: RackDefinition): void {
+        this.rackDefinitions.set(definition.id, definition);
+    }
+
+    /**
+     * Adds a rack to the current topology.
+     * This is a local update; call saveCurrentTopology() to persist.
+     */
+    addRack(rack: RackInstance): void {
+        const currentTopology = this._currentTopology.getValue();
+        if (currentTopology) {
+            if (!this.rackDefinitions.has(rack.rackDefinitionId)) {
+                throw new TopologyEditError(`Unknown rack definition ${rack.rackDefinitionId}.`);
+            }
+            if (currentTopology.racks?.some(r => r.id === rack.id)) {
+                throw new TopologyEditError(`A rack with ID ${rack.id} already exists.`);
+            }
+            this.applyEdit({ ...currentTopology, racks: [...(currentTopology.racks ?? []), rack] }, 'Add rack');
+        }
+    }
+
+    /**
+     * Removes a rack. Devices mounted in it stay where they are, unmounted.
+     * This is a local update; call saveCurrentTopology() to persist.
+     */
+    removeRack(rackId: string): void {
+        const currentTopology = this._currentTopology.getValue();
+        if (currentTopology && currentTopology.racks) {
+            const updatedRacks = currentTopology.racks.filter(r => r.id !== rackId);
+            const updatedModels = currentTopology.models.map(m => m.mount?.rackId === rackId ? { ...m, mount: undefined } : m);
+            this.applyEdit({ ...currentTopology, racks: updatedRacks, models: updatedModels }, 'Remove rack');
+        }
+    }
+
+    /**
+     * Moves/rotates a rack together with every device mounted in it.
+     * This is a local update; call saveCurrentTopology() to persist.
+     */
+    updateRackTransform(rackId: string, position: Vector3D, rotation: EulerRotation): void {
+        const currentTopology = this._currentTopology.getValue();
+        const rack = currentTopology?.racks?.find(r => r.id === rackId);
+        const definition = rack && this.rackDefinitions.get(rack.rackDefinitionId);
+        if (currentTopology && rack && definition) {
+            const movedRack: RackInstance = { ...rack, position: { ...position }, rotation: { ...rotation } };
+            const updatedRacks = currentTopology.racks!.map(r => r.id === rackId ? movedRack : r);
+            const updatedModels = currentTopology.models.map(m =>
+                m.mount?.rackId === rackId ? { ...m, ...computeMountedTransform(movedRack, definition, m.mount.uIndex) } : m
+            );
+            this.applyEdit({ ...currentTopology, racks: updatedRacks, models: updatedModels }, 'Move rack');
+        }
+    }
+
+    /**
+     * Mounts a device in a rack at the given U position and places it accordingly.
+     * Throws a TopologyEditError if the rack is unknown or the U range is out of bounds or taken.
+     * This is a local update; call saveCurrentTopology() to persist.
+     */
+    mountModel(modelId: string, rackId: string, uIndex: number): void {
+        const currentTopology = this._currentTopology.getValue();
+        if (!currentTopology) {
+            return;
+        }
+        const model = currentTopology.models.find(m => m.id === modelId);
+        const rack = currentTopology.racks?.find(r => r.id === rackId);
+        const definition = rack && this.rackDefinitions.get(rack.rackDefinitionId);
+        if (!model) {
+            throw new TopologyEditError(`Device ${modelId} not found.`);
+        }
+        if (!rack || !definition) {
+            throw new TopologyEditError(`Rack ${rackId} not found.`);
+        }
+        const conflict = findMountConflict(currentTopology, definition, model, rackId, uIndex);
+        if (conflict) {
+            throw new TopologyEditError(conflict);
+        }
+        const mountedModel: ModelInstance = { ...model, ...computeMountedTransform(rack, definition, uIndex), mount: { rackId, uIndex } };
+        const updatedModels = currentTopology.models.map(m => m.id === modelId ? mountedModel : m);
+        this.applyEdit({ ...currentTopology, models: updatedModels }, 'Mount device');
+    }
+
+    /**
+     * Frees a device from its rack slot, leaving it where it is. Does nothing if the device isn't mounted.
+     * This is a local update; call saveCurrentTopology() to persist.
+     */
+    unmountModel(modelId: string): void {
+        const currentTopology = this._currentTopology.getValue();
+        const model = currentTopology?.models.find(m => m.id === modelId);
+        if (!currentTopology || !model?.mount) {
+            return;
+        }
+        const updatedModels = currentTopology.models.map(m => m.id === modelId ? { ...m, mount: undefined } : m);
+        this.applyEdit({ ...currentTopology, models: updatedModels }, 'Unmount device');
+    }
+
+    /**
+     * Stores a named camera viewpoint in the topology, replacing one with the same name.
+     * This is a local update; call saveCurrentTopology() to persist.
+     */
+    saveViewpoint(viewpoint: Viewpoint): void {
+        const currentTopology = this._currentTopology.getValue();
+        if (currentTopology) {
+            const otherViewpoints = (currentTopology.viewpoints ?? []).filter(v => v.name !== viewpoint.name);
+            this.applyEdit({ ...currentTopology, viewpoints: [...otherViewpoints, viewpoint] }, 'Save viewpoint');
+        }
+    }
+
+    /**
+     * Removes a named camera viewpoint from the topology.
+     * This is a local update; call saveCurrentTopology() to persist.
+     */
+    removeViewpoint(name: string): void {
+        const currentTopology = this._currentTopology.getValue();
+        if (currentTopology && currentTopology.viewpoints) {
+            const updatedViewpoints = currentTopology.viewpoints.filter(v => v.name !== name);
+            this.applyEdit({ ...currentTopology, viewpoints: updatedViewpoints }, 'Remove viewpoint');
+        }
+    }
+
+    // --- Automatic layout ---
+    /**
+     * Computes positions for all models (or only `modelIds`) with the given strategy and shows them
+     * in displayedTopology$ without touching the topology. Replaces any pending preview.
+     */
+    previewLayout(strategy: LayoutStrategy, modelIds?: string[]): void {
+        const currentTopology = this._currentTopology.getValue();
+        if (currentTopology) {
+            this._layoutPreview.next(computeLayout(strategy, currentTopology, id => this.getRackDefinition(id), modelIds));
+        }
+    }
+
+    /**
+     * Applies the pending layout preview to the topology.
+     * This is a local update; call saveCurrentTopology() to persist.
+     */
+    acceptLayoutPreview(): void {
+        const currentTopology = this._currentTopology.getValue();
+        const preview = this._layoutPreview.getValue();
+        this._layoutPreview.next(null);
+        if (currentTopology && preview) {
+            this.applyEdit(applyLayoutPlacements(currentTopology, preview, id => this.getRackDefinition(id)), 'Apply automatic layout');
+        }
+    }
+
+    discardLayoutPreview(): void {
+        this._layoutPreview.next(null);
+    }
+
+    // --- Undo / redo ---
+    /**
+     * Runs several edits as one undo step (e.g. "remove device and its cables").
+     * If an edit throws, the topology is restored to how it was before the group and the error rethrown.
+     */
+    groupEdits<T>(label: string, edits: () => T): T {
+        const currentTopology = this._currentTopology.getValue();
+        if (this.groupDepth === 0 && currentTopology) {
+            this.groupStart = { label, snapshot: currentTopology };
+        }
+        this.groupDepth++;
+        try {
+            return edits();
+        } catch (error) {
+            if (this.groupDepth === 1 && this.groupStart) {
+                this._currentTopology.next(this.groupStart.snapshot);
+                this.groupStart = null;
+            }
+            throw error;
+        } finally {
+            this.groupDepth--;
+            if (this.groupDepth === 0 && this.groupStart) {
+                if (this.groupStart.snapshot !== this._currentTopology.getValue()) {
+                    this.pushUndo(this.groupStart);
+                }
+                this.groupStart = null;
+            }
+        }
+    }
+
+    undo(): void {
+        const entry = this.undoStack.pop();
+        const currentTopology = this._currentTopology.getValue();
+        if (entry && currentTopology) {
+            this.redoStack.push({ label: entry.label, snapshot: currentTopology });
+            this.restoreSnapshot(entry.snapshot);
+        }
+    }
+
+    redo(): void {
+        const entry = this.redoStack.pop();
+        const currentTopology = this._currentTopology.getValue();
+        if (entry && currentTopology) {
+            this.undoStack.push({ label: entry.label, snapshot: currentTopology });
+            this.restoreSnapshot(entry.snapshot);
+        }
+    }
+
+    // Labels of the steps undo()/redo() would revert/repeat, e.g. for tooltips
+    getUndoLabel(): string | null {
+        return this.undoStack[this.undoStack.length - 1]?.label ?? null;
+    }
+
+    getRedoLabel(): string | null {
+        return this.redoStack[this.redoStack.length - 1]?.label ?? null;
+    }
+
+    clearHistory(): void {
+        this.undoStack = [];
+        this.redoStack = [];
+        this.updateHistoryState();
+    }
+
+    // Every local edit goes through here so it can be undone
+    private applyEdit(next: TopologyLayout, label: string): void {
+        const previous = this._currentTopology.getValue();
+        if (previous && this.groupDepth === 0) {
+            this.pushUndo({ label, snapshot: previous });
+        }
+        this._currentTopology.next(next);
+    }
+
+    private pushUndo(entry: HistoryEntry): void {
+        this.undoStack.push(entry);
+        if (this.undoStack.length > HISTORY_LIMIT) {
+            this.undoStack.shift();
+        }
+        this.redoStack = []; // A new edit branches off; the undone steps can't be redone anymore
+        this.updateHistoryState();
+    }
+
+    private restoreSnapshot(snapshot: TopologyLayout): void {
+        this._currentTopology.next(snapshot);
+        const selected = this._selectedObject.getValue();
+        if (selected && !snapshot.models.some(m => m.id === selected.modelId)) {
+            this.clearSelectedObject();
+        }
+        this.updateHistoryState();
+    }
+
+    private updateHistoryState(): void {
+        this._canUndo.next(this.undoStack.length > 0);
+        this._canRedo.next(this.redoStack.length > 0);
+    }
+
+    // --- Validation ---
+    /**
+     * Validates the current topology and publishes the result on validationReport$.
+     */
+    validateCurrentTopology(): ValidationReport | null {
+        const currentTopology = this._currentTopology.getValue();
+        const report = currentTopology ? this.validator.validate(currentTopology, id => this.getRackDefinition(id)) : null;
+        this._validationReport.next(report);
+        return report;
+    }
 
     // --- Selected Object Management ---
-    setSelectedObject(modelId: string, objectName: string, objectType: 'port' | 'device'): void {
-        this._selectedObject.next({ modelId, objectName, objectType });
+    // The selection is a set of devices, ports and cables; selectedObject$ is its last item (e.g. for the inspector)
+    setSelectedObject(modelId: string, objectName: string, objectType: SelectedObjectInfo['objectType']): void {
+        this.setSelection([{ modelId, objectName, objectType }]);
+    }
+
+    /**
+     * Adds an object to the selection, or removes it if it is already selected (shift/ctrl-click).
+     */
+    toggleSelectedObject(modelId: string, objectName: string, objectType: SelectedObjectInfo['objectType']): void {
+        const item: SelectedObjectInfo = { modelId, objectName, objectType };
+        const selection = this._selection.getValue();
+        this.setSelection(selection.some(other => isSameSelectedObject(other, item))
+            ? selection.filter(other => !isSameSelectedObject(other, item))
+            : [...selection, item]);
+    }
+
+    addToSelection(items: SelectedObjectInfo[]): void {
+        this.setSelection([...this._selection.getValue(), ...items]);
+    }
+
+    /**
+     * Replaces the whole selection. Duplicates are dropped; the last item becomes selectedObject$.
+     */
+    setSelection(items: SelectedObjectInfo[]): void {
+        const unique = items.filter((item, i) => !items.slice(i + 1).some(later => isSameSelectedObject(later, item)));
+        this._selection.next(unique);
+        this._selectedObject.next(unique[unique.length - 1] ?? null);
     }
 
     clearSelectedObject(): void {
-        this._selectedObject.next(null);
+        this.setSelection([]);
     }
 
     getSelectedObjectValue(): SelectedObjectInfo | null {
         return this._selectedObject.getValue();
     }
 
+    getSelectionValue(): SelectedObjectInfo[] {
+        return this._selection.getValue();
+    }
+
+    // Drops selected devices, ports and cables that are no longer in the topology
+    private pruneSelection(): void {
+        const topology = this._currentTopology.getValue();
+        const selection = this._selection.getValue();
+        const remaining = selection.filter(item => item.objectType === 'cable'
+            ? topology?.connections.some(c => c.id === item.objectName)
+            : topology?.models.some(m => m.id === item.modelId));
+        if (remaining.length !== selection.length) {
+            this.setSelection(remaining);
+        }
+    }
+
     // --- Utility / Getter ---
     getCurrentTopologyValue(): TopologyLayout | null {
         return this._currentTopology.getValue();
@@ -259,17 +1034,20 @@ export class TopologyStateService {
     }
 
     /**
-     * Retrieves a specific model definition (e.g., its GLB URL, default ports)
-     * This might fetch from another endpoint or a local config.
+     * Instance defaults of a catalog model (GLB URL, U height, and the ports found in its GLB);
+     * null if the catalog doesn't have it or its GLB can't be loaded.
      */
     getModelDefinition(modelDefinitionId: string): Observable<Partial<ModelInstance> | null> {
-        // Example: Fetch from a definitions endpoint
-        // return this.http.get<ModelInstance>(`/api/models/definitions/${modelDefinitionId}`);
-        // Or from a local map if definitions are static
-        const definitions: { [key: string]: Partial<ModelInstance> } = {
-            'Switch_ModelA': { assetUrl: 'assets/models/Switch_ModelA.glb', ports: [/* default ports */] },
-            'Router_ModelB': { assetUrl: 'assets/models/Router_ModelB.glb', ports: [/* default ports */] },
-        };
-        return of(definitions[modelDefinitionId] || null);
+        const definition = this.modelCatalog.getDefinition(modelDefinitionId);
+        if (!definition) {
+            return of(null);
+        }
+        return from(this.modelCatalog.getDefaultPorts(modelDefinitionId)).pipe(
+            map(ports => ({ modelDefinitionId, assetUrl: definition.assetUrl, uHeight: definition.uHeight, ports })),
+            catchError(error => {
+                console.error(`Could not read the ports of ${modelDefinitionId}:`, error);
+                return of(null);
+            })
+        );
     }
-}
\ No newline at end of file
+}
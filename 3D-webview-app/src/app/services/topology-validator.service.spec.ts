@@ -0,0 +1,99 @@
+import * as THREE from 'three';
+import { ModelAssetCacheService } from './model-asset-cache.service';
+import { PortStatusThemeService } from './port-status-theme.service';
+import { DEFAULT_RACK_DEFINITIONS } from './rack-placement';
+import { TopologyLayout } from './topology-state.service';
+import { TopologyValidatorService } from './topology-validator.service';
+import { createTestDevice, createTestLayout } from '../testing/topology-fixtures';
+
+const getRackDefinition = (id: string) => DEFAULT_RACK_DEFINITIONS.find(definition => definition.id === id);
+
+describe('TopologyValidatorService', () => {
+  let assetCache: jasmine.SpyObj<ModelAssetCacheService>;
+  let validator: TopologyValidatorService;
+
+  const codes = (topology: TopologyLayout) => validator.validate(topology, getRackDefinition).issues.map(issue => issue.code);
+
+  beforeEach(() => {
+    assetCache = jasmine.createSpyObj<ModelAssetCacheService>('ModelAssetCacheService', ['getLoadedTemplate']);
+    assetCache.getLoadedTemplate.and.returnValue(undefined);
+    const portStatusTheme = jasmine.createSpyObj<PortStatusThemeService>('PortStatusThemeService', ['isKnownStatus']);
+    portStatusTheme.isKnownStatus.and.callFake(status => ['up', 'down'].includes(status));
+    validator = new TopologyValidatorService(assetCache, portStatusTheme);
+  });
+
+  it('finds nothing wrong with a consistent layout', () => {
+    const report = validator.validate(createTestLayout({
+      models: [createTestDevice('a'), createTestDevice('b')],
+      connections: [{ id: 'ab', source: { modelId: 'a', portAttachName: 'Port1_Attach' }, target: { modelId: 'b', portAttachName: 'Port1_Attach' } }]
+    }), getRackDefinition);
+    expect(report.issues).toEqual([]);
+    expect(report.errorCount).toBe(0);
+    expect(report.topologyId).toBe('lab');
+  });
+
+  it('reports device problems', () => {
+    const report = validator.validate(createTestLayout({
+      models: [
+        createTestDevice('a', { ports: [{ name: 'Port1_Indicator', status: 'up', blinking: false }, { name: 'Port1_Indicator', status: 'weird', blinking: false }] }),
+        createTestDevice('a', { assetUrl: '', position: { x: NaN, y: 0, z: 0 } })
+      ]
+    }), getRackDefinition);
+    expect(report.issues.map(issue => issue.code)).toEqual([
+      'duplicate-model-id', 'duplicate-port', 'unknown-port-status', 'missing-asset', 'invalid-transform'
+    ]);
+    expect(report.errorCount).toBe(3);
+    expect(report.warningCount).toBe(2);
+  });
+
+  it('reports cables that lead nowhere or share a port', () => {
+    expect(codes(createTestLayout({
+      models: [createTestDevice('a'), createTestDevice('b')],
+      connections: [
+        { id: 'loop', source: { modelId: 'a', portAttachName: 'Port1_Attach' }, target: { modelId: 'a', portAttachName: 'Port1_Attach' } },
+        { id: 'x', source: { modelId: 'a', portAttachName: 'Port2_Indicator' }, target: { modelId: 'gone', portAttachName: 'Port1_Attach' } },
+        { id: 'x', source: { modelId: 'b', portAttachName: 'Port2_Attach' }, target: { modelId: 'a', portAttachName: 'Port1_Attach' } }
+      ]
+    }))).toEqual(['duplicate-cable-id', 'cable-loop', 'cable-attach-name', 'cable-missing-model', 'port-multiple-cables']);
+  });
+
+  it('checks attach names once the model has been loaded', () => {
+    const template = new THREE.Group();
+    const attach = new THREE.Object3D();
+    attach.name = 'Port1_Attach';
+    template.add(attach);
+    assetCache.getLoadedTemplate.and.returnValue(template);
+
+    const issues = validator.validate(createTestLayout({
+      models: [createTestDevice('a'), createTestDevice('b')],
+      connections: [{ id: 'ab', source: { modelId: 'a', portAttachName: 'Port1_Attach' }, target: { modelId: 'b', portAttachName: 'Port9_Attach' } }]
+    }), getRackDefinition).issues;
+    expect(issues.map(issue => issue.code)).toEqual(['cable-missing-attach']);
+    expect(issues[0].portName).toBe('Port9_Indicator');
+  });
+
+  it('checks the cables ports refer to', () => {
+    expect(codes(createTestLayout({
+      models: [
+        createTestDevice('a', { ports: [{ name: 'Port1_Indicator', status: 'up', blinking: false, connectedCableId: 'gone' }] }),
+        createTestDevice('b', { ports: [{ name: 'Port2_Indicator', status: 'up', blinking: false, connectedCableId: 'ab' }] })
+      ],
+      connections: [{ id: 'ab', source: { modelId: 'a', portAttachName: 'Port1_Attach' }, target: { modelId: 'b', portAttachName: 'Port1_Attach' } }]
+    }))).toEqual(['port-missing-cable', 'port-cable-mismatch']);
+  });
+
+  it('reports rack problems and each overlap once', () => {
+    expect(codes(createTestLayout({
+      racks: [
+        { id: 'rack-1', rackDefinitionId: 'Rack_12U', position: { x: 0, y: 0, z: 0 }, rotation: { x: 0, y: 0, z: 0 } },
+        { id: 'rack-2', rackDefinitionId: 'Rack_99U', position: { x: 0, y: 0, z: 0 }, rotation: { x: 0, y: 0, z: 0 } }
+      ],
+      models: [
+        createTestDevice('a', { uHeight: 2, mount: { rackId: 'rack-1', uIndex: 1 } }),
+        createTestDevice('b', { mount: { rackId: 'rack-1', uIndex: 2 } }),
+        createTestDevice('c', { mount: { rackId: 'rack-1', uIndex: 12 } }),
+        createTestDevice('d', { mount: { rackId: 'rack-3', uIndex: 1 } })
+      ]
+    }))).toEqual(['unknown-rack-definition', 'mount-conflict', 'mount-missing-rack']);
+  });
+});
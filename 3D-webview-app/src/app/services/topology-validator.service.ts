@@ -0,0 +1,234 @@
+import { Injectable } from '@angular/core';
+import * as THREE from 'three';
+import { CableConnection, ModelInstance, RackDefinition, TopologyLayout, Vector3D } from './topology-state.service';
+import { ModelAssetCacheService } from './model-asset-cache.service';
+import { PortStatusThemeService } from './port-status-theme.service';
+import { findMountConflict } from './rack-placement';
+import { attachToIndicatorName, isPortAttachName } from './port-naming';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+    severity: ValidationSeverity;
+    code: string; // Stable identifier of the check, e.g. 'duplicate-model-id'
+    message: string;
+    // What the issue is about, so the viewer can highlight it
+    modelId?: string;
+    portName?: string; // `_Indicator` name
+    cableId?: string;
+    rackId?: string;
+}
+
+export interface ValidationReport {
+    topologyId: string;
+    issues: ValidationIssue[];
+    errorCount: number;
+    warningCount: number;
+    validatedAt: number; // Date.now()
+}
+
+/**
+ * Checks a topology for inconsistencies the services would otherwise accept silently:
+ * duplicate IDs, dangling references, ports with more than one cable, bad rack mounts and so on.
+ *
+ * Attach names can only be checked for models whose GLB has already been loaded; others are skipped.
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class TopologyValidatorService {
+    constructor(
+        private assetCache: ModelAssetCacheService,
+        private portStatusTheme: PortStatusThemeService
+    ) { }
+
+    validate(layout: TopologyLayout, getRackDefinition: (rackDefinitionId: string) => RackDefinition | undefined): ValidationReport {
+        const issues: ValidationIssue[] = [
+            ...this.checkModels(layout),
+            ...this.checkConnections(layout),
+            ...this.checkPortCableReferences(layout),
+            ...this.checkRacks(layout, getRackDefinition)
+        ];
+        return {
+            topologyId: layout.id,
+            issues,
+            errorCount: issues.filter(issue => issue.severity === 'error').length,
+            warningCount: issues.filter(issue => issue.severity === 'warning').length,
+            validatedAt: Date.now()
+        };
+    }
+
+    private checkModels(layout: TopologyLayout): ValidationIssue[] {
+        const issues: ValidationIssue[] = [];
+        this.findDuplicates(layout.models.map(m => m.id)).forEach(modelId => {
+            issues.push({ severity: 'error', code: 'duplicate-model-id', message: `More than one device has the ID ${modelId}.`, modelId });
+        });
+
+        layout.models.forEach(model => {
+            if (!model.assetUrl) {
+                issues.push({ severity: 'error', code: 'missing-asset', message: `${this.name(model)} has no asset URL.`, modelId: model.id });
+            }
+            if (!this.isFiniteVector(model.position) || !this.isFiniteVector(model.rotation)) {
+                issues.push({ severity: 'error', code: 'invalid-transform', message: `${this.name(model)} has a non-numeric position or rotation.`, modelId: model.id });
+            }
+            this.findDuplicates((model.ports ?? []).map(p => p.name)).forEach(portName => {
+                issues.push({ severity: 'warning', code: 'duplicate-port', message: `${this.name(model)} lists port ${portName} more than once.`, modelId: model.id, portName });
+            });
+            (model.ports ?? []).forEach(port => {
+                if (!this.portStatusTheme.isKnownStatus(port.status)) {
+                    issues.push({
+                        severity: 'warning', code: 'unknown-port-status',
+                        message: `Port ${port.name} on ${this.name(model)} has unknown status "${port.status}".`,
+                        modelId: model.id, portName: port.name
+                    });
+                }
+            });
+        });
+        return issues;
+    }
+
+    private checkConnections(layout: TopologyLayout): ValidationIssue[] {
+        const issues: ValidationIssue[] = [];
+        const modelsById = new Map(layout.models.map(m => [m.id, m]));
+
+        this.findDuplicates(layout.connections.map(c => c.id)).forEach(cableId => {
+            issues.push({ severity: 'error', code: 'duplicate-cable-id', message: `More than one cable has the ID ${cableId}.`, cableId });
+        });
+
+        const cablesByPort = new Map<string, CableConnection[]>();
+        layout.connections.forEach(cable => {
+            if (cable.source.modelId === cable.target.modelId && cable.source.portAttachName === cable.target.portAttachName) {
+                issues.push({ severity: 'error', code: 'cable-loop', message: `Cable ${cable.id} starts and ends at the same port.`, cableId: cable.id });
+            }
+            [cable.source, cable.target].forEach(end => {
+                const model = modelsById.get(end.modelId);
+                if (!model) {
+                    issues.push({ severity: 'error', code: 'cable-missing-model', message: `Cable ${cable.id} references missing device ${end.modelId}.`, cableId: cable.id });
+                    return;
+                }
+                const portName = attachToIndicatorName(end.portAttachName);
+                if (!isPortAttachName(end.portAttachName)) {
+                    issues.push({
+                        severity: 'warning', code: 'cable-attach-name',
+                        message: `Cable ${cable.id} plugs into "${end.portAttachName}", which is not an _Attach name.`,
+                        cableId: cable.id, modelId: model.id
+                    });
+                } else {
+                    const attachNames = this.getAttachNames(model);
+                    if (attachNames && !attachNames.has(end.portAttachName)) {
+                        issues.push({
+                            severity: 'error', code: 'cable-missing-attach',
+                            message: `Cable ${cable.id} plugs into ${end.portAttachName}, which ${this.name(model)} doesn't have.`,
+                            cableId: cable.id, modelId: model.id, portName
+                        });
+                    }
+                }
+                const key = `${end.modelId}\u0000${end.portAttachName}`;
+                cablesByPort.set(key, [...(cablesByPort.get(key) ?? []), cable]);
+            });
+        });
+
+        cablesByPort.forEach((cables, key) => {
+            const unique = [...new Set(cables.map(c => c.id))];
+            if (unique.length > 1) {
+                const [modelId, attachName] = key.split('\u0000');
+                issues.push({
+                    severity: 'error', code: 'port-multiple-cables',
+                    message: `Port ${attachName} on ${this.name(modelsById.get(modelId)!)} has ${unique.length} cables: ${unique.join(', ')}.`,
+                    modelId, portName: attachToIndicatorName(attachName), cableId: unique[0]
+                });
+            }
+        });
+        return issues;
+    }
+
+    // PortState.connectedCableId must point at a cable that actually ends at that port
+    private checkPortCableReferences(layout: TopologyLayout): ValidationIssue[] {
+        const issues: ValidationIssue[] = [];
+        const cablesById = new Map(layout.connections.map(c => [c.id, c]));
+        layout.models.forEach(model => {
+            (model.ports ?? []).forEach(port => {
+                if (!port.connectedCableId) {
+                    return;
+                }
+                const cable = cablesById.get(port.connectedCableId);
+                const base = { modelId: model.id, portName: port.name };
+                if (!cable) {
+                    issues.push({
+                        ...base, severity: 'warning', code: 'port-missing-cable',
+                        message: `Port ${port.name} on ${this.name(model)} references missing cable ${port.connectedCableId}.`
+                    });
+                } else if (![cable.source, cable.target].some(end => end.modelId === model.id && attachToIndicatorName(end.portAttachName) === port.name)) {
+                    issues.push({
+                        ...base, severity: 'warning', code: 'port-cable-mismatch', cableId: cable.id,
+                        message: `Port ${port.name} on ${this.name(model)} references cable ${cable.id}, which isn't plugged into it.`
+                    });
+                }
+            });
+        });
+        return issues;
+    }
+
+    private checkRacks(layout: TopologyLayout, getRackDefinition: (rackDefinitionId: string) => RackDefinition | undefined): ValidationIssue[] {
+        const issues: ValidationIssue[] = [];
+        const racks = layout.racks ?? [];
+        this.findDuplicates(racks.map(r => r.id)).forEach(rackId => {
+            issues.push({ severity: 'error', code: 'duplicate-rack-id', message: `More than one rack has the ID ${rackId}.`, rackId });
+        });
+        racks.forEach(rack => {
+            if (!getRackDefinition(rack.rackDefinitionId)) {
+                issues.push({ severity: 'error', code: 'unknown-rack-definition', message: `Rack ${rack.id} uses unknown definition ${rack.rackDefinitionId}.`, rackId: rack.id });
+            }
+        });
+
+        const racksById = new Map(racks.map(r => [r.id, r]));
+        // Check each mount against the devices before it only, so an overlap is reported once
+        const checked: ModelInstance[] = [];
+        layout.models.forEach(model => {
+            if (!model.mount) {
+                return;
+            }
+            const rack = racksById.get(model.mount.rackId);
+            const definition = rack && getRackDefinition(rack.rackDefinitionId);
+            if (!rack) {
+                issues.push({ severity: 'error', code: 'mount-missing-rack', message: `${this.name(model)} is mounted in missing rack ${model.mount.rackId}.`, modelId: model.id });
+            } else if (definition) {
+                const conflict = findMountConflict({ ...layout, models: checked }, definition, model, rack.id, model.mount.uIndex);
+                if (conflict) {
+                    issues.push({ severity: 'error', code: 'mount-conflict', message: conflict, modelId: model.id, rackId: rack.id });
+                }
+            }
+            checked.push(model);
+        });
+        return issues;
+    }
+
+    private getAttachNames(model: ModelInstance): Set<string> | undefined {
+        const template = this.assetCache.getLoadedTemplate(model.assetUrl);
+        if (!template) {
+            return undefined;
+        }
+        const names = new Set<string>();
+        template.traverse((child: THREE.Object3D) => {
+            if (isPortAttachName(child.name)) {
+                names.add(child.name);
+            }
+        });
+        return names;
+    }
+
+    private findDuplicates(values: string[]): string[] {
+        const seen = new Set<string>();
+        const duplicates = new Set<string>();
+        values.forEach(value => seen.has(value) ? duplicates.add(value) : seen.add(value));
+        return [...duplicates];
+    }
+
+    private isFiniteVector(vector: Vector3D | undefined): boolean {
+        return !!vector && [vector.x, vector.y, vector.z].every(Number.isFinite);
+    }
+
+    private name(model: ModelInstance): string {
+        return model.displayName || model.id;
+    }
+}
@@ -1,22 +1,39 @@
 import { Injectable, ElementRef, NgZone } from '@angular/core';
 import * as THREE from 'three';
-import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
-import { Subject } from 'rxjs';
-import { EulerRotation, Vector3D } from './topology-state.service';
+import { TransformControls } from 'three/examples/jsm/controls/TransformControls.js';
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
+import { OutlinePass } from 'three/examples/jsm/postprocessing/OutlinePass.js';
+import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { Subject, Subscription } from 'rxjs';
+import { EulerRotation, RackDefinition, Vector3D, Viewpoint } from './topology-state.service';
+import { buildCableGeometry, estimateCableRadius, DEFAULT_CABLE_COLOR, DEFAULT_CABLE_RADIUS } from './cable-geometry';
+import { ModelAssetCacheService } from './model-asset-cache.service';
+import { InstancedChassisRenderer } from './instanced-chassis-renderer';
+import { SceneDimmer } from './scene-dimmer';
+import { buildRackFrame, buildSlotMarkers, disposeRackObject } from './rack-geometry';
+import { PortStatusStyle, PortStatusThemeService } from './port-status-theme.service';
+import { BlinkPattern, isBlinkOn, msUntilBlinkToggle, resolveBlinkPattern } from './blink-patterns';
+import { attachToIndicatorName, indicatorToAttachName, isPortAttachName, isPortIndicatorName } from './port-naming';
 
 interface PortInfo {
     mesh: THREE.Mesh;
     originalColor: THREE.Color;
     originalEmissive: THREE.Color;
     blinking?: boolean;
+    blinkRequested?: boolean; // PortState.blinking as given; the status style decides whether it blinks
+    blinkPattern?: BlinkPattern; // PortState.blinkPattern as given
+    blinkSequence?: number[]; // Resolved on/off durations the port blinks with
     blinkOn?: boolean;
-    lastBlinkTime?: number;
     currentState?: string;
+    style?: PortStatusStyle;
 }
 
 interface LoadedModel {
     id: string; // Unique instance ID
+    assetUrl: string;
     object: THREE.Group; // The root THREE.Object3D for this model instance
     portIndicators: { [portName: string]: PortInfo };
     portAttachPoints: { [attachName: string]: THREE.Object3D };
@@ -24,12 +41,110 @@ interface LoadedModel {
 
 interface CableInfo {
     id: string;
-    object: THREE.Group; // or THREE.LineSegments, THREE.Mesh
+    object: THREE.Mesh; // Tube routed between the two attach points
     source: { modelId: string, portAttachName: string };
     target: { modelId: string, portAttachName: string };
+    radius: number;
+    // World positions the tube was last built for, to detect moved devices
+    sourcePos: THREE.Vector3;
+    targetPos: THREE.Vector3;
 }
 
-const BLINK_INTERVAL = 500;
+interface LoadedRack {
+    id: string;
+    definition: RackDefinition;
+    object: THREE.Group; // Frame and slot markers, positioned like the rack
+    slotMarkers: THREE.Group;
+    freeUs: number[];
+}
+
+// Look of a cable taken from a cable GLB (material and thickness)
+interface CableTemplate {
+    material: THREE.Material;
+    radius: number;
+}
+
+// A device, port or cable in the scene, as reported by picking
+export interface SceneObjectInfo {
+    modelId: string; // For a cable, the device at its source end
+    objectName: string; // Port indicator name, the modelId for a device, or the cable ID
+    objectType: 'port' | 'device' | 'cable';
+}
+
+export interface PickedObjectInfo extends SceneObjectInfo {
+    additive: boolean; // Shift, Ctrl or Cmd was held: add to (or remove from) the selection
+}
+
+export interface HoveredObjectInfo extends SceneObjectInfo {
+    // Pointer position in CSS pixels relative to the canvas' top-left corner
+    canvasX: number;
+    canvasY: number;
+}
+
+// Final placement of a model after it was moved with the transform gizmo (with the other selected models)
+export interface ModelTransformInfo {
+    modelId: string;
+    position: Vector3D;
+    rotation: EulerRotation;
+}
+
+// Something to flag in the scene (e.g. a validation issue): a port, else a device, plus optionally a cable
+export interface SceneHighlightTarget {
+    modelId?: string;
+    portName?: string;
+    cableId?: string;
+}
+
+export type SceneFilterMode = 'dim' | 'hide';
+
+// Devices to keep as they are; everything else (and cables not between two of them) is dimmed or hidden
+export interface SceneFilter {
+    modelIds: string[];
+    cableIds?: string[]; // Only keep these cables, e.g. those on a traced path
+    mode: SceneFilterMode;
+}
+
+export type TransformGizmoMode = 'translate' | 'rotate';
+
+export interface TransformSnapOptions {
+    translation: number | null; // Grid step in scene units, null to move freely
+    rotationDegrees: number | null; // Angle step, null to rotate freely
+}
+
+// Camera placement, without the name a saved Viewpoint has
+export type CameraView = Omit<Viewpoint, 'name'>;
+
+export type CameraViewPreset = 'top' | 'front' | 'side';
+
+export interface SnapshotOptions {
+    scale?: number; // Size relative to the canvas in CSS pixels (2 = twice as wide and high)
+    transparent?: boolean; // Leave out the background
+    labels?: { [modelId: string]: string }; // Text drawn above devices, e.g. their display names
+}
+
+// Direction from the framed content towards the camera for each preset view
+const VIEW_PRESET_DIRECTIONS: { [preset in CameraViewPreset]: THREE.Vector3 } = {
+    // Not exactly vertical: OrbitControls can't orbit from the pole itself
+    top: new THREE.Vector3(0, 1, 0.001).normalize(),
+    front: new THREE.Vector3(0, 0, 1),
+    side: new THREE.Vector3(1, 0, 0)
+};
+const GIZMO_CLICK_GRACE_PERIOD = 250; // ms
+const CAMERA_FLIGHT_DURATION = 800; // ms
+const FRAMING_MARGIN = 1.2; // Leave some room around framed objects
+
+const HOVER_OUTLINE_COLOR = 0x4fc3f7;
+const SELECTION_OUTLINE_COLOR = 0xffa000;
+const CABLE_PREVIEW_COLOR = 0x1e88e5;
+const ISSUE_OUTLINE_COLOR = 0xe53935;
+const PATH_OUTLINE_COLOR = 0x43a047;
+
+const DEFAULT_SNAPSHOT_SCALE = 2;
+const MAX_SNAPSHOT_SIZE = 8192; // px per side; larger drawing buffers fail on many GPUs
+const SNAPSHOT_LABEL_FONT_SIZE = 12; // CSS px, scaled like the image
+
+// Shortest wait between two blink-driven renders, so a burst of due ports costs one frame
+const MIN_BLINK_RENDER_DELAY = 16;
 
 @Injectable({
     providedIn: 'root'
@@ -39,21 +154,108 @@ export class ThreeSceneService {
     private camera!: THREE.PerspectiveCamera;
     private renderer!: THREE.WebGLRenderer;
     private controls!: OrbitControls;
-    private loader = new GLTFLoader();
     private raycaster = new THREE.Raycaster();
     private mouse = new THREE.Vector2();
 
     private loadedModels: { [modelInstanceId: string]: LoadedModel } = {};
     private cables: { [cableId: string]: CableInfo } = {}; // Manage cables
+    private cableTemplates = new Map<string, Promise<CableTemplate>>(); // Look derived from each cable GLB
+
+    // Racks live in their own group so they never get in the way of picking devices
+    private racks: { [rackId: string]: LoadedRack } = {};
+    private rackLayer: THREE.Group | null = null;
+    private rackFrameMaterial: THREE.MeshStandardMaterial | null = null;
+    private slotMarkerMaterial: THREE.MeshBasicMaterial | null = null;
+    private showFreeSlots = false;
+
+    // GPU instancing of identical chassis (opt-in, see setInstancedRendering)
+    private instancingEnabled = false;
+    private instancedChassis: InstancedChassisRenderer | null = null;
+
+    // On-demand rendering: a frame is only drawn after requestRender()
+    private renderLoopActive = false;
+    private animationFrameId: number | null = null;
+    private blinkTimerId: ReturnType<typeof setTimeout> | null = null;
+
+    // Re-styles every port when the status theme changes (e.g. once its config has loaded)
+    private themeSubscription: Subscription | null = null;
+
+    // Bound once so dispose() can remove exactly these listeners
+    private readonly resizeListener = () => this.onWindowResize();
+    private readonly clickListener = (event: MouseEvent) => this.onCanvasClick(event);
+    private readonly pointerMoveListener = (event: PointerEvent) => this.onCanvasPointerMove(event);
+    private readonly pointerLeaveListener = () => this.setHoveredObject(null);
+    private readonly controlsChangeListener = () => this.requestRender();
 
-    public onObjectSelected = new Subject<{ modelId: string, objectName: string, objectType: 'port' | 'device' }>();
+    // Post-processing, used for the hover and selection outlines
+    private composer: EffectComposer | null = null;
+    private hoverOutlinePass: OutlinePass | null = null;
+    private selectionOutlinePass: OutlinePass | null = null;
+    private issueOutlinePass: OutlinePass | null = null;
+    private issueHighlights: SceneHighlightTarget[] = [];
+    private pathOutlinePass: OutlinePass | null = null;
+    private pathHighlights: SceneHighlightTarget[] = [];
 
+    // Search and path filter
+    private sceneFilter: SceneFilter | null = null;
+    private sceneDimmer = new SceneDimmer();
+    private filteredOutObjects = new Set<THREE.Object3D>(); // Model roots and cables; not pickable
+    private dimmedModelIds = new Set<string>();
 
-    constructor(private ngZone: NgZone) { }
+    // Smooth camera moves started by flyToView()
+    private cameraFlight: {
+        fromPosition: THREE.Vector3,
+        toPosition: THREE.Vector3,
+        fromTarget: THREE.Vector3,
+        toTarget: THREE.Vector3,
+        startTime: number
+    } | null = null;
+    private readonly controlsStartListener = () => this.cameraFlight = null; // User input wins over a flight
+
+    // Edit mode: transform gizmo on the selected model
+    private transformControls: TransformControls | null = null;
+    private editGrid: THREE.GridHelper | null = null;
+    private editMode = false;
+    private snapOptions: TransformSnapOptions = { translation: null, rotationDegrees: null };
+    private lastGizmoDragEnd = 0; // The click that ends a gizmo drag must not change the selection
+    // Other selected models, moved along with the one the gizmo is attached to; matrices as the drag started
+    private gizmoDrag: { start: THREE.Matrix4, companions: { object: THREE.Object3D, start: THREE.Matrix4 }[] } | null = null;
+    private gizmoMovedModelIds = new Set<string>(); // Models moved by the gizmo since the last frame; their cables are re-routed then
+    private readonly transformChangeListener = () => this.onGizmoChange();
+    private readonly transformDraggingListener = (event: { value: unknown }) => this.onGizmoDraggingChanged(event.value === true);
+    private readonly transformMouseUpListener = () => this.onGizmoDragEnd();
+
+    // Hover picking runs at most once per animation frame
+    private pendingPointer: { clientX: number, clientY: number } | null = null;
+    private hoverFrameId: number | null = null;
+    private hoveredObject: SceneObjectInfo | null = null;
+    private selectedObjects: SceneObjectInfo[] = []; // The last one gets the gizmo
+
+    // Rubber-band line shown while connecting two ports
+    private cablePreview: { line: THREE.Line, start: THREE.Vector3 } | null = null;
+
+    public onObjectSelected = new Subject<PickedObjectInfo>();
+    // Emits whenever the device or port under the pointer changes (null when there is none)
+    public onObjectHovered = new Subject<HoveredObjectInfo | null>();
+    // Emits when the user finishes moving or rotating models with the gizmo: the one it is attached to, then the other selected ones
+    public onModelsTransformed = new Subject<ModelTransformInfo[]>();
+
+
+    constructor(
+        private ngZone: NgZone,
+        private assetCache: ModelAssetCacheService,
+        private portStatusTheme: PortStatusThemeService
+    ) { }
 
     initScene(canvas: HTMLCanvasElement): void {
         this.scene = new THREE.Scene();
         this.scene.background = new THREE.Color(0xf0f0f0);
+        this.instancedChassis = new InstancedChassisRenderer(this.scene);
+        this.rackLayer = new THREE.Group();
+        this.rackLayer.name = 'Racks';
+        this.scene.add(this.rackLayer);
+        this.rackFrameMaterial = new THREE.MeshStandardMaterial({ color: 0x37474f, metalness: 0.4, roughness: 0.6 });
+        this.slotMarkerMaterial = new THREE.MeshBasicMaterial({ color: 0x66bb6a, transparent: true, opacity: 0.35, side: THREE.DoubleSide, depthWrite: false });
 
         this.camera = new THREE.PerspectiveCamera(15, canvas.clientWidth / canvas.clientHeight, 0.1, 1000);
         // Adjust these X, Y, Z values as needed.
@@ -73,9 +275,344 @@ export class ThreeSceneService {
 
         this.controls = new OrbitControls(this.camera, this.renderer.domElement);
         this.controls.enableDamping = true;
+        // Fired on user input and on every damping step of controls.update(), so the camera
+        // keeps rendering until it has settled and then stops
+        this.controls.addEventListener('change', this.controlsChangeListener);
+        this.controls.addEventListener('start', this.controlsStartListener);
+
+        this.initPostProcessing(canvas);
+        this.initTransformControls();
+
+        window.addEventListener('resize', this.resizeListener);
+        canvas.addEventListener('click', this.clickListener);
+        canvas.addEventListener('pointermove', this.pointerMoveListener);
+        canvas.addEventListener('pointerleave', this.pointerLeaveListener);
+
+        this.themeSubscription = this.portStatusTheme.styles$.subscribe(() => this.restyleAllPorts());
+    }
+
+    private initPostProcessing(canvas: HTMLCanvasElement): void {
+        const width = canvas.clientWidth;
+        const height = canvas.clientHeight;
+        const pixelRatio = window.devicePixelRatio;
+        // Multisampled target, otherwise going through the composer loses the renderer's antialiasing
+        const renderTarget = new THREE.WebGLRenderTarget(width * pixelRatio, height * pixelRatio, {
+            samples: 4,
+            type: THREE.HalfFloatType
+        });
+        this.composer = new EffectComposer(this.renderer, renderTarget);
+        this.composer.setPixelRatio(pixelRatio);
+        this.composer.setSize(width, height);
+        this.composer.addPass(new RenderPass(this.scene, this.camera));
+
+        const resolution = new THREE.Vector2(width, height);
+        this.hoverOutlinePass = new OutlinePass(resolution, this.scene, this.camera);
+        this.hoverOutlinePass.visibleEdgeColor.set(HOVER_OUTLINE_COLOR);
+        this.hoverOutlinePass.hiddenEdgeColor.set(HOVER_OUTLINE_COLOR);
+        this.hoverOutlinePass.edgeStrength = 2;
+        this.composer.addPass(this.hoverOutlinePass);
+
+        this.issueOutlinePass = new OutlinePass(resolution, this.scene, this.camera);
+        this.issueOutlinePass.visibleEdgeColor.set(ISSUE_OUTLINE_COLOR);
+        this.issueOutlinePass.hiddenEdgeColor.set(ISSUE_OUTLINE_COLOR);
+        this.issueOutlinePass.edgeStrength = 3;
+        this.issueOutlinePass.pulsePeriod = 0; // A pulsing outline would need continuous rendering
+        this.composer.addPass(this.issueOutlinePass);
+
+        this.pathOutlinePass = new OutlinePass(resolution, this.scene, this.camera);
+        this.pathOutlinePass.visibleEdgeColor.set(PATH_OUTLINE_COLOR);
+        this.pathOutlinePass.hiddenEdgeColor.set(PATH_OUTLINE_COLOR);
+        this.pathOutlinePass.edgeStrength = 3;
+        this.composer.addPass(this.pathOutlinePass);
+
+        this.selectionOutlinePass = new OutlinePass(resolution, this.scene, this.camera);
+        this.selectionOutlinePass.visibleEdgeColor.set(SELECTION_OUTLINE_COLOR);
+        this.selectionOutlinePass.hiddenEdgeColor.set(SELECTION_OUTLINE_COLOR);
+        this.selectionOutlinePass.edgeStrength = 4;
+        this.selectionOutlinePass.edgeThickness = 2;
+        this.composer.addPass(this.selectionOutlinePass);
+
+        this.composer.addPass(new OutputPass()); // Color space conversion, normally done by the renderer
+    }
+
+    private initTransformControls(): void {
+        this.transformControls = new TransformControls(this.camera, this.renderer.domElement);
+        this.transformControls.addEventListener('change', this.transformChangeListener);
+        this.transformControls.addEventListener('dragging-changed', this.transformDraggingListener);
+        this.transformControls.addEventListener('mouseUp', this.transformMouseUpListener);
+        this.scene.add(this.transformControls.getHelper());
+    }
+
+    // --- Editing ---
+    /**
+     * In edit mode the selected model gets a translate/rotate gizmo and a snapping grid is shown.
+     */
+    setEditMode(enabled: boolean): void {
+        this.editMode = enabled;
+        this.updateEditGrid();
+        this.updateGizmoAttachment();
+    }
+
+    setTransformMode(mode: TransformGizmoMode): void {
+        this.transformControls?.setMode(mode);
+        this.requestRender();
+    }
+
+    setTransformSnap(options: TransformSnapOptions): void {
+        this.snapOptions = { ...options };
+        this.transformControls?.setTranslationSnap(options.translation);
+        this.transformControls?.setRotationSnap(options.rotationDegrees !== null ? THREE.MathUtils.degToRad(options.rotationDegrees) : null);
+        this.updateEditGrid();
+    }
+
+    private updateGizmoAttachment(): void {
+        if (!this.transformControls) {
+            return;
+        }
+        const modelData = this.getSelectedModels()[0];
+        if (this.editMode && modelData) {
+            if (this.transformControls.object !== modelData.object) {
+                this.transformControls.attach(modelData.object);
+            }
+        } else {
+            this.transformControls.detach();
+        }
+        this.requestRender();
+    }
+
+    // The grid shows the translation snap step on the floor while editing
+    private updateEditGrid(): void {
+        if (this.editGrid) {
+            this.scene.remove(this.editGrid);
+            this.editGrid.dispose();
+            this.editGrid = null;
+        }
+        if (this.editMode && this.scene) {
+            const step = this.snapOptions.translation ?? 0.1;
+            const divisions = 100;
+            this.editGrid = new THREE.GridHelper(step * divisions, divisions, 0x888888, 0xcccccc);
+            this.scene.add(this.editGrid);
+        }
+        this.requestRender();
+    }
+
+    private onGizmoDraggingChanged(dragging: boolean): void {
+        this.controls.enabled = !dragging; // Don't orbit while dragging the gizmo
+        const object = this.transformControls?.object;
+        if (dragging && object) {
+            object.updateMatrix();
+            this.gizmoDrag = {
+                start: object.matrix.clone(),
+                companions: this.getSelectedModels().slice(1).map(modelData => {
+                    modelData.object.updateMatrix();
+                    return { object: modelData.object, start: modelData.object.matrix.clone() };
+                })
+            };
+        }
+        if (!dragging) {
+            this.lastGizmoDragEnd = performance.now();
+        }
+    }
+
+    // Other selected models follow the gizmo as if they were one rigid group
+    private onGizmoChange(): void {
+        const object = this.transformControls?.object;
+        if (this.gizmoDrag && object && this.gizmoDrag.companions.length > 0) {
+            object.updateMatrix();
+            const delta = object.matrix.clone().multiply(this.gizmoDrag.start.clone().invert());
+            this.gizmoDrag.companions.forEach(companion => {
+                companion.object.matrix.multiplyMatrices(delta, companion.start);
+                companion.object.matrix.decompose(companion.object.position, companion.object.quaternion, companion.object.scale);
+                companion.object.updateMatrixWorld(true);
+            });
+        }
+        if (object) {
+            [object, ...(this.gizmoDrag?.companions.map(companion => companion.object) ?? [])]
+                .forEach(moved => this.gizmoMovedModelIds.add(moved.name));
+        }
+        this.requestRender();
+    }
+
+    private onGizmoDragEnd(): void {
+        const object = this.transformControls?.object;
+        const companions = this.gizmoDrag?.companions.map(companion => companion.object) ?? [];
+        this.gizmoDrag = null;
+        if (!object || !this.loadedModels[object.name]) {
+            return;
+        }
+        const transforms: ModelTransformInfo[] = [object, ...companions].map(moved => ({
+            modelId: moved.name,
+            position: { x: moved.position.x, y: moved.position.y, z: moved.position.z },
+            rotation: { x: moved.rotation.x, y: moved.rotation.y, z: moved.rotation.z, order: moved.rotation.order }
+        }));
+        this.ngZone.run(() => this.onModelsTransformed.next(transforms));
+    }
+
+    // --- Rendering ---
+    /**
+     * Starts rendering on demand: frames are only drawn when something requested one
+     * (camera movement, scene or port state changes, blinking ports).
+     */
+    startRenderLoop(): void {
+        this.renderLoopActive = true;
+        this.requestRender();
+    }
+
+    stopRenderLoop(): void {
+        this.renderLoopActive = false;
+        if (this.animationFrameId !== null) {
+            cancelAnimationFrame(this.animationFrameId);
+            this.animationFrameId = null;
+        }
+        if (this.blinkTimerId !== null) {
+            clearTimeout(this.blinkTimerId);
+            this.blinkTimerId = null;
+        }
+    }
+
+    /**
+     * Schedules one frame. Calls made before that frame is drawn are merged into it.
+     */
+    requestRender(): void {
+        if (!this.renderLoopActive || this.animationFrameId !== null) {
+            return;
+        }
+        this.ngZone.runOutsideAngular(() => {
+            this.animationFrameId = requestAnimationFrame(() => this.renderFrame());
+        });
+    }
+
+    private renderFrame(): void {
+        this.animationFrameId = null;
+        this.advanceCameraFlight();
+        this.updateScene();
+        this.render();
+        this.scheduleBlinkRender();
+    }
+
+    // --- Camera navigation ---
+    getCameraView(): CameraView {
+        const { x, y, z } = this.camera.position;
+        const target = this.controls.target;
+        return { position: { x, y, z }, target: { x: target.x, y: target.y, z: target.z } };
+    }
+
+    /**
+     * Moves the camera smoothly to the given placement. User input cancels the flight.
+     */
+    flyToView(view: CameraView): void {
+        if (!this.camera) {
+            return;
+        }
+        this.cameraFlight = {
+            fromPosition: this.camera.position.clone(),
+            toPosition: new THREE.Vector3(view.position.x, view.position.y, view.position.z),
+            fromTarget: this.controls.target.clone(),
+            toTarget: new THREE.Vector3(view.target.x, view.target.y, view.target.z),
+            startTime: performance.now()
+        };
+        this.requestRender();
+    }
+
+    /**
+     * Flies to a model so that its bounding box fills the view. Returns false if it isn't loaded.
+     */
+    focusOnModel(modelInstanceId: string): boolean {
+        const modelData = this.loadedModels[modelInstanceId];
+        if (!modelData) {
+            return false;
+        }
+        this.frameBox(new THREE.Box3().setFromObject(modelData.object));
+        return true;
+    }
+
+    /**
+     * Flies to a view of the whole layout, keeping the current viewing direction.
+     */
+    frameAll(): void {
+        const box = this.getLayoutBounds();
+        if (box) {
+            this.frameBox(box);
+        }
+    }
+
+    /**
+     * Looks at the whole layout from above, the front or the side.
+     */
+    setViewPreset(preset: CameraViewPreset): void {
+        const box = this.getLayoutBounds();
+        if (box) {
+            this.frameBox(box, VIEW_PRESET_DIRECTIONS[preset]);
+        }
+    }
+
+    private getLayoutBounds(): THREE.Box3 | null {
+        const box = new THREE.Box3();
+        Object.values(this.loadedModels).forEach(modelData => box.expandByObject(modelData.object));
+        return box.isEmpty() ? null : box;
+    }
+
+    // direction: from the box towards the camera; defaults to the current viewing direction
+    private frameBox(box: THREE.Box3, direction?: THREE.Vector3): void {
+        if (!this.camera) {
+            return;
+        }
+        const sphere = box.getBoundingSphere(new THREE.Sphere());
+        const viewDirection = direction?.clone()
+            ?? new THREE.Vector3().subVectors(this.camera.position, this.controls.target).normalize();
+
+        // Fit the bounding sphere into the narrower of the vertical and horizontal field of view
+        const verticalFov = THREE.MathUtils.degToRad(this.camera.fov);
+        const horizontalFov = 2 * Math.atan(Math.tan(verticalFov / 2) * this.camera.aspect);
+        const distance = sphere.radius / Math.sin(Math.min(verticalFov, horizontalFov) / 2) * FRAMING_MARGIN;
+
+        const position = sphere.center.clone().add(viewDirection.multiplyScalar(distance));
+        this.flyToView({
+            position: { x: position.x, y: position.y, z: position.z },
+            target: { x: sphere.center.x, y: sphere.center.y, z: sphere.center.z }
+        });
+    }
 
-        window.addEventListener('resize', this.onWindowResize.bind(this));
-        canvas.addEventListener('click', this.onCanvasClick.bind(this));
+    private advanceCameraFlight(): void {
+        const flight = this.cameraFlight;
+        if (!flight) {
+            return;
+        }
+        const t = Math.min(1, (performance.now() - flight.startTime) / CAMERA_FLIGHT_DURATION);
+        const eased = t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2; // easeInOutCubic
+        this.camera.position.lerpVectors(flight.fromPosition, flight.toPosition, eased);
+        this.controls.target.lerpVectors(flight.fromTarget, flight.toTarget, eased);
+        if (t < 1) {
+            this.requestRender();
+        } else {
+            this.cameraFlight = null;
+        }
+    }
+
+    // Blinking ports only need a new frame when one of them is due to toggle
+    private scheduleBlinkRender(): void {
+        if (this.blinkTimerId !== null) {
+            return;
+        }
+        const currentTime = Date.now();
+        let nextToggle = Infinity;
+        Object.values(this.loadedModels).forEach(modelData => {
+            Object.values(modelData.portIndicators).forEach(portInfo => {
+                if (portInfo.blinking && portInfo.blinkSequence) {
+                    nextToggle = Math.min(nextToggle, currentTime + msUntilBlinkToggle(portInfo.blinkSequence, currentTime) + 1);
+                }
+            });
+        });
+        if (nextToggle === Infinity) {
+            return;
+        }
+        const delay = Math.max(MIN_BLINK_RENDER_DELAY, nextToggle - currentTime);
+        this.ngZone.runOutsideAngular(() => {
+            this.blinkTimerId = setTimeout(() => {
+                this.blinkTimerId = null;
+                this.requestRender();
+            }, delay);
+        });
     }
 
     async addModelToScene(
@@ -89,8 +626,11 @@ export class ThreeSceneService {
             return;
         }
         try {
-            const gltf = await this.loader.loadAsync(modelUrl);
-            const modelRoot = gltf.scene;
+            // Clone of the cached asset: geometry and chassis materials are shared between instances
+            const modelRoot = await this.assetCache.instantiate(modelUrl);
+            if (this.loadedModels[modelInstanceId]) {
+                return; // Loaded by a concurrent call in the meantime
+            }
             modelRoot.name = modelInstanceId;
 
             if (position) {
@@ -105,13 +645,14 @@ export class ThreeSceneService {
 
             const modelEntry: LoadedModel = {
                 id: modelInstanceId,
+                assetUrl: modelUrl,
                 object: modelRoot,
                 portIndicators: {},
                 portAttachPoints: {}
             };
 
             modelRoot.traverse((child) => {
-                if (child instanceof THREE.Mesh && child.name.endsWith('_Indicator')) {
+                if (child instanceof THREE.Mesh && isPortIndicatorName(child.name)) {
                     // Assumes standard naming: ModelType_PortXX_Indicator
                     const portName = child.name; // Use the full unique name from Blender
                     child.material = (child.material as THREE.Material).clone(); // Crucial!
@@ -121,12 +662,20 @@ export class ThreeSceneService {
                         originalEmissive: (child.material as THREE.MeshStandardMaterial).emissive.clone(),
                     };
                     this.setPortState(modelInstanceId, portName, 'inactive', false); // Initialize
-                } else if (child.name.endsWith('_Attach')) {
+                } else if (isPortAttachName(child.name)) {
                     // Assumes standard naming: ModelType_PortXX_Attach
                     modelEntry.portAttachPoints[child.name] = child;
                 }
             });
             this.loadedModels[modelInstanceId] = modelEntry;
+            if (this.instancingEnabled) {
+                await this.instanceChassis(modelEntry);
+            }
+            if (this.sceneFilter) {
+                this.applySceneFilter();
+            }
+            this.updateOutlines(); // The hovered or selected object may just have been loaded
+            this.updateGizmoAttachment();
             console.log(`Model ${modelInstanceId} loaded from ${modelUrl}`, modelEntry);
 
         } catch (error) {
@@ -134,6 +683,124 @@ export class ThreeSceneService {
         }
     }
 
+    /**
+     * Turns GPU instancing of identical chassis on or off. Models sharing an asset URL are then drawn
+     * with one InstancedMesh per chassis part; port indicators always stay individual meshes.
+     */
+    async setInstancedRendering(enabled: boolean): Promise<void> {
+        if (this.instancingEnabled === enabled) {
+            return;
+        }
+        this.instancingEnabled = enabled;
+        for (const modelData of Object.values(this.loadedModels)) {
+            if (enabled) {
+                await this.instanceChassis(modelData);
+            } else {
+                this.instancedChassis?.remove(modelData.id);
+            }
+        }
+        this.updateOutlines();
+    }
+
+    private async instanceChassis(modelData: LoadedModel): Promise<void> {
+        const template = await this.assetCache.getTemplate(modelData.assetUrl);
+        // The model may have been removed, or instancing turned off, while waiting
+        if (this.instancingEnabled && this.loadedModels[modelData.id] === modelData && !this.instancedChassis?.has(modelData.id)) {
+            this.instancedChassis?.add(modelData.assetUrl, template, modelData.id, modelData.object);
+        }
+    }
+
+    // --- Racks ---
+    hasRack(rackId: string): boolean {
+        return !!this.racks[rackId];
+    }
+
+    /**
+     * Draws an (empty) rack frame. Mounted devices are regular models placed by the topology.
+     */
+    addRackToScene(rackId: string, definition: RackDefinition, position: Vector3D, rotation: EulerRotation): void {
+        if (!this.rackLayer || !this.rackFrameMaterial || this.racks[rackId]) {
+            return;
+        }
+        const rackObject = new THREE.Group();
+        rackObject.name = rackId;
+        rackObject.add(buildRackFrame(definition, this.rackFrameMaterial));
+        const slotMarkers = new THREE.Group();
+        slotMarkers.visible = this.showFreeSlots;
+        rackObject.add(slotMarkers);
+        this.rackLayer.add(rackObject);
+
+        this.racks[rackId] = { id: rackId, definition, object: rackObject, slotMarkers, freeUs: [] };
+        this.updateRackTransform(rackId, position, rotation);
+    }
+
+    updateRackTransform(rackId: string, position: Vector3D, rotation: EulerRotation): void {
+        const rack = this.racks[rackId];
+        if (!rack) {
+            return;
+        }
+        rack.object.position.set(position.x, position.y, position.z);
+        rack.object.rotation.set(rotation.x, rotation.y, rotation.z, rotation.order as THREE.EulerOrder);
+        this.requestRender();
+    }
+
+    removeRackFromScene(rackId: string): void {
+        const rack = this.racks[rackId];
+        if (rack) {
+            this.rackLayer?.remove(rack.object);
+            disposeRackObject(rack.object);
+            delete this.racks[rackId];
+            this.requestRender();
+        }
+    }
+
+    /**
+     * Sets which U positions of a rack get a free-slot marker.
+     */
+    setRackFreeSlots(rackId: string, freeUs: number[]): void {
+        const rack = this.racks[rackId];
+        if (!rack || !this.slotMarkerMaterial
+            || (rack.freeUs.length === freeUs.length && rack.freeUs.every((u, i) => u === freeUs[i]))) {
+            return;
+        }
+        rack.object.remove(rack.slotMarkers);
+        disposeRackObject(rack.slotMarkers);
+        rack.slotMarkers = buildSlotMarkers(rack.definition, freeUs, this.slotMarkerMaterial);
+        rack.slotMarkers.visible = this.showFreeSlots;
+        rack.object.add(rack.slotMarkers);
+        rack.freeUs = [...freeUs];
+        this.requestRender();
+    }
+
+    setFreeSlotMarkersVisible(visible: boolean): void {
+        this.showFreeSlots = visible;
+        Object.values(this.racks).forEach(rack => rack.slotMarkers.visible = visible);
+        this.requestRender();
+    }
+
+    hasModel(modelInstanceId: string): boolean {
+        return !!this.loadedModels[modelInstanceId];
+    }
+
+    hasCable(cableId: string): boolean {
+        return !!this.cables[cableId];
+    }
+
+    /**
+     * Moves/rotates an already loaded model and re-routes any cable attached to it.
+     */
+    updateModelTransform(modelInstanceId: string, position: Vector3D, rotation: EulerRotation): void {
+        const modelData = this.loadedModels[modelInstanceId];
+        if (!modelData) {
+            return;
+        }
+        modelData.object.position.set(position.x, position.y, position.z);
+        modelData.object.rotation.set(rotation.x, rotation.y, rotation.z, rotation.order as THREE.EulerOrder);
+        modelData.object.updateMatrixWorld(true); // Attach points must report their new world positions
+        this.routeCablesOf(new Set([modelInstanceId]));
+        this.requestRender();
+    }
+
     removeModelFromScene(modelInstanceId: string): void {
         const modelData = this.loadedModels[modelInstanceId];
         if (modelData) {
@@ -145,25 +812,37 @@ export class ThreeSceneService {
                 }
             });
 
+            this.instancedChassis?.remove(modelInstanceId);
+            this.sceneDimmer.restore(modelData.object);
+            this.filteredOutObjects.delete(modelData.object);
+            this.dimmedModelIds.delete(modelInstanceId);
+            if (this.transformControls?.object === modelData.object) {
+                this.transformControls.detach();
+            }
             this.scene.remove(modelData.object);
-            // Proper disposal of geometries and materials is important for memory
-            modelData.object.traverse(child => {
-                if (child instanceof THREE.Mesh) {
-                    child.geometry.dispose();
-                    if (Array.isArray(child.material)) {
-                        child.material.forEach(material => material.dispose());
-                    } else {
-                        child.material.dispose();
-                    }
-                }
+            // Geometry and chassis materials are shared through the asset cache; only the
+            // per-instance port indicator materials belong to this model
+            Object.values(modelData.portIndicators).forEach(portInfo => {
+                (portInfo.mesh.material as THREE.Material).dispose();
             });
             delete this.loadedModels[modelInstanceId];
+            this.updateOutlines();
             console.log(`Model ${modelInstanceId} removed.`);
         }
     }
 
 
-    setPortState(modelInstanceId: string, portName: string, state: 'active' | 'inactive' | 'error' | string, blinking: boolean): void {
+    /**
+     * Styles a port indicator from the status theme. A blinking port uses `blinkPattern`, else the
+     * status' own pattern, else the default one.
+     */
+    setPortState(
+        modelInstanceId: string,
+        portName: string,
+        state: 'active' | 'inactive' | 'error' | string,
+        blinking: boolean,
+        blinkPattern?: BlinkPattern
+    ): void {
         const modelData = this.loadedModels[modelInstanceId];
         if (!modelData || !modelData.portIndicators[portName]) {
             // console.warn(`Port ${portName} on model ${modelInstanceId} not found for setting state.`);
@@ -173,178 +852,250 @@ export class ThreeSceneService {
         const portInfo = modelData.portIndicators[portName];
         const material = portInfo.mesh.material as THREE.MeshStandardMaterial; // Or MeshBasicMaterial
 
-        portInfo.blinking = blinking;
+        // Colors and blink behavior come from the status theme; unknown statuses get its fallback style
+        const style = this.portStatusTheme.getStyle(state);
+        portInfo.style = style;
         portInfo.currentState = state;
+        portInfo.blinkRequested = blinking;
+        portInfo.blinkPattern = blinkPattern;
+        portInfo.blinking = this.portStatusTheme.shouldBlink(style, blinking);
+        portInfo.blinkSequence = resolveBlinkPattern(blinkPattern ?? style.blinkPattern);
+        // Start in the current phase of the pattern so the port joins the others in sync
+        portInfo.blinkOn = portInfo.blinking && isBlinkOn(portInfo.blinkSequence, Date.now());
 
-        switch (state) {
-            case 'active':
-                material.color.set(0x00ff00); // Green
-                material.emissive.set(blinking ? 0x003300 : 0x008800); // Slightly different for blinking base
-                break;
-            case 'inactive':
-                material.color.set(0x808080); // Gray
-                material.emissive.set(0x000000);
-                portInfo.blinking = false; // Inactive ports usually don't blink
-                break;
-            case 'error':
-                material.color.set(0xff0000); // Red
-                material.emissive.set(blinking ? 0x330000 : 0x880000);
-                break;
-            default: // Custom color/state
-                material.color.set(state); // Assuming state is a hex color string if not predefined
-                material.emissive.set(0x000000); // Default no emission
-        }
+        material.color.set(style.color);
+        material.emissive.set(portInfo.blinkOn ? style.blinkEmissive : style.emissive);
         // Update any connected cable
         this.updateCableVisualsForPort(modelInstanceId, portName);
+        this.requestRender();
+    }
+
+    private restyleAllPorts(): void {
+        Object.values(this.loadedModels).forEach(modelData => {
+            Object.entries(modelData.portIndicators).forEach(([portName, portInfo]) => {
+                this.setPortState(modelData.id, portName, portInfo.currentState ?? 'inactive', portInfo.blinkRequested ?? false, portInfo.blinkPattern);
+            });
+        });
     }
 
+    // All ports read the same clock, so ports with the same pattern switch together
     private updateBlinkingPorts(): void {
         const currentTime = Date.now();
         for (const modelId in this.loadedModels) {
             const modelData = this.loadedModels[modelId];
             for (const portName in modelData.portIndicators) {
                 const portInfo = modelData.portIndicators[portName];
-                if (portInfo.blinking && portInfo.mesh) {
-                    const material = portInfo.mesh.material as THREE.MeshStandardMaterial;
-                    if (!portInfo.lastBlinkTime || (currentTime - portInfo.lastBlinkTime > BLINK_INTERVAL)) {
-                        portInfo.lastBlinkTime = currentTime;
-                        portInfo.blinkOn = !portInfo.blinkOn;
-
-                        if (portInfo.blinkOn) {
-                            if (portInfo.currentState === 'active') material.emissive.set(0x00ff00);
-                            else if (portInfo.currentState === 'error') material.emissive.set(0xff0000);
-                            // Add other blinking states
-                        } else {
-                            if (portInfo.currentState === 'active') material.emissive.set(0x003300);
-                            else if (portInfo.currentState === 'error') material.emissive.set(0x330000);
-                            // Add other blinking states
-                        }
+                if (portInfo.blinking && portInfo.blinkSequence && portInfo.style) {
+                    const on = isBlinkOn(portInfo.blinkSequence, currentTime);
+                    if (on !== portInfo.blinkOn) {
+                        portInfo.blinkOn = on;
+                        const material = portInfo.mesh.material as THREE.MeshStandardMaterial;
+                        material.emissive.set(on ? portInfo.style.blinkEmissive : portInfo.style.emissive);
                     }
                 }
             }
         }
     }
 
-    // --- Cable Logic --- (More advanced, needs careful implementation)
+    // --- Cable Logic ---
+    /**
+     * Draws a cable as a sagging tube between two `_Attach` points.
+     * A cable GLB is optional: when given, its material and thickness are used for the tube;
+     * the geometry itself is always generated along the route so it fits any distance.
+     */
     async connectCable(
-        cableModelUrl: string, // URL for the cable model GLB itself
+        cableModelUrl: string | undefined, // URL for the cable model GLB itself (optional)
         cableInstanceId: string,
         source: { modelId: string, portAttachName: string },
         target: { modelId: string, portAttachName: string }
     ): Promise<void> {
-        const sourceModel = this.loadedModels[source.modelId];
-        const targetModel = this.loadedModels[target.modelId];
-
-        if (!sourceModel || !targetModel) {
-            console.error("Source or target model for cable not found.");
+        if (!this.findAttachPoint(source) || !this.findAttachPoint(target)) {
+            console.error(`Source or target attachment point for cable ${cableInstanceId} not found.`);
             return;
         }
 
-        const sourceAttachPoint = sourceModel.portAttachPoints[source.portAttachName];
-        const targetAttachPoint = targetModel.portAttachPoints[target.portAttachName];
+        let material: THREE.Material = new THREE.MeshStandardMaterial({ color: DEFAULT_CABLE_COLOR, roughness: 0.7 });
+        let radius = DEFAULT_CABLE_RADIUS;
+        if (cableModelUrl) {
+            try {
+                const template = await this.loadCableTemplate(cableModelUrl);
+                material.dispose();
+                material = template.material.clone(); // Per cable, since cables get colored by port state
+                radius = template.radius;
+            } catch (error) {
+                console.error(`Error loading cable model ${cableModelUrl}, using the default cable:`, error);
+            }
+        }
 
-        if (!sourceAttachPoint || !targetAttachPoint) {
-            console.error("Source or target attachment point for cable not found.");
+        // The models may have been removed, or the cable connected, while the GLB was loading
+        const sourceAttachPoint = this.findAttachPoint(source);
+        const targetAttachPoint = this.findAttachPoint(target);
+        if (!sourceAttachPoint || !targetAttachPoint || this.cables[cableInstanceId]) {
+            material.dispose();
             return;
         }
 
-        // For simple line cables:
-        // const material = new THREE.LineBasicMaterial({ color: 0x555555, linewidth: 2 }); // Linewidth might not work on all systems
-        // const points = [];
-        // const sourcePos = sourceAttachPoint.getWorldPosition(new THREE.Vector3());
-        // const targetPos = targetAttachPoint.getWorldPosition(new THREE.Vector3());
-        // points.push(sourcePos);
-        // points.push(targetPos);
-        // const geometry = new THREE.BufferGeometry().setFromPoints(points);
-        // const line = new THREE.Line(geometry, material);
-        // line.name = cableInstanceId;
-        // this.scene.add(line);
-        // this.cables[cableInstanceId] = { id: cableInstanceId, object: line, source, target };
-
-        // For GLB cables (more complex positioning/scaling/deformation needed):
-        try {
-            const gltf = await this.loader.loadAsync(cableModelUrl);
-            const cableObject = gltf.scene;
-            cableObject.name = cableInstanceId;
-
-            // --- This is the tricky part: Orienting and scaling the cable model ---
-            // You'll need to:
-            // 1. Get world positions of source and target attach points.
-            // 2. Calculate the vector between them.
-            // 3. Set the cable's position (e.g., midpoint or one end).
-            // 4. Orient the cable to align with the vector.
-            // 5. Scale the cable along its length to fit.
-            // This might involve a "bone" or specific orientation of your cable model in Blender.
-            // A common approach is to have the cable model aligned along an axis (e.g., X)
-            // and its origin at one end.
-            const sourcePos = sourceAttachPoint.getWorldPosition(new THREE.Vector3());
-            const targetPos = targetAttachPoint.getWorldPosition(new THREE.Vector3());
-
-            const direction = new THREE.Vector3().subVectors(targetPos, sourcePos);
-            const length = direction.length();
-            cableObject.position.copy(sourcePos);
-            cableObject.lookAt(targetPos); // Orients it
-
-            // Assuming cable model is 1 unit long and aligned to its local Z axis
-            // You'd adjust this based on your cable model's actual dimensions and orientation
-            // For instance, if your cable model's length is along X and it's 1 unit long:
-            // cableObject.scale.set(length, 1, 1); 
-            // This is a simplification. True deformation or IK is more complex.
-            // For now, let's just place it and you can refine:
-            // A simple cylinder cable might be easier to start with programmatically.
-            const cylinderGeo = new THREE.CylinderGeometry(0.05, 0.05, length, 8); // radiusTop, radiusBottom, height, radialSegments
-            const cylinderMat = new THREE.MeshStandardMaterial({ color: 0x555555 });
-            const cableMesh = new THREE.Mesh(cylinderGeo, cylinderMat);
-
-            // Position cylinder at midpoint and orient it
-            cableMesh.position.copy(sourcePos).add(direction.multiplyScalar(0.5));
-            // Align cylinder's Y-axis with the direction vector
-            cableMesh.quaternion.setFromUnitVectors(new THREE.Vector3(0, 1, 0), direction.normalize());
-            cableMesh.name = cableInstanceId;
-
-            this.scene.add(cableMesh);
-            this.cables[cableInstanceId] = { id: cableInstanceId, object: cableMesh as any, source, target }; // Cast for simplicity
-            this.updateCableVisualsForPort(source.modelId, source.portAttachName.replace('_Attach', '_Indicator'));
+        const sourcePos = sourceAttachPoint.getWorldPosition(new THREE.Vector3());
+        const targetPos = targetAttachPoint.getWorldPosition(new THREE.Vector3());
+        const cableMesh = new THREE.Mesh(buildCableGeometry(sourcePos, targetPos, radius), material);
+        cableMesh.name = cableInstanceId;
 
+        this.scene.add(cableMesh);
+        this.cables[cableInstanceId] = { id: cableInstanceId, object: cableMesh, source, target, radius, sourcePos, targetPos };
+        this.updateCableVisualsForPort(source.modelId, attachToIndicatorName(source.portAttachName));
+        this.updateCableVisualsForPort(target.modelId, attachToIndicatorName(target.portAttachName));
+        if (this.sceneFilter) {
+            this.applySceneFilter();
+        }
+        this.updateOutlines(); // In case the cable is highlighted
+        this.requestRender();
+    }
 
-        } catch (error) {
-            console.error("Error loading cable model:", error);
+    private loadCableTemplate(cableModelUrl: string): Promise<CableTemplate> {
+        let template = this.cableTemplates.get(cableModelUrl);
+        if (!template) {
+            template = this.assetCache.getTemplate(cableModelUrl).then(cableScene => {
+                let material: THREE.Material | null = null;
+                cableScene.traverse(child => {
+                    if (!material && child instanceof THREE.Mesh) {
+                        material = Array.isArray(child.material) ? child.material[0] : child.material;
+                    }
+                });
+                if (!material) {
+                    throw new Error(`Cable model ${cableModelUrl} contains no mesh.`);
+                }
+                return { material, radius: estimateCableRadius(cableScene) };
+            });
+            // Don't keep failed downloads around, so a later cable can retry
+            template.catch(() => this.cableTemplates.delete(cableModelUrl));
+            this.cableTemplates.set(cableModelUrl, template);
+        }
+        return template;
+    }
+
+    private findAttachPoint(end: { modelId: string, portAttachName: string }): THREE.Object3D | undefined {
+        return this.loadedModels[end.modelId]?.portAttachPoints[end.portAttachName];
+    }
+
+    hasAttachPoint(modelId: string, portAttachName: string): boolean {
+        return !!this.findAttachPoint({ modelId, portAttachName });
+    }
+
+    // --- Cable preview (connect mode) ---
+    /**
+     * Shows a rubber-band line from a port's attach point to the pointer, snapping to the
+     * attach point of whatever port is hovered. Returns false if the port has no attach point.
+     */
+    startCablePreview(source: { modelId: string, portAttachName: string }): boolean {
+        this.stopCablePreview();
+        const attachPoint = this.findAttachPoint(source);
+        if (!attachPoint) {
+            return false;
+        }
+        const start = attachPoint.getWorldPosition(new THREE.Vector3());
+        const geometry = new THREE.BufferGeometry().setFromPoints([start, start.clone()]);
+        const material = new THREE.LineDashedMaterial({ color: CABLE_PREVIEW_COLOR, dashSize: 0.02, gapSize: 0.01, depthTest: false });
+        const line = new THREE.Line(geometry, material);
+        line.renderOrder = 1; // Drawn over the devices it passes
+        line.frustumCulled = false; // The end point keeps moving
+        this.scene.add(line);
+        this.cablePreview = { line, start };
+        this.requestRender();
+        return true;
+    }
+
+    stopCablePreview(): void {
+        if (!this.cablePreview) {
+            return;
+        }
+        this.scene.remove(this.cablePreview.line);
+        this.cablePreview.line.geometry.dispose();
+        (this.cablePreview.line.material as THREE.Material).dispose();
+        this.cablePreview = null;
+        this.requestRender();
+    }
+
+    private updateCablePreview(clientX: number, clientY: number): void {
+        if (!this.cablePreview) {
+            return;
+        }
+        const { line, start } = this.cablePreview;
+        let end: THREE.Vector3 | null = null;
+        const hovered = this.hoveredObject;
+        if (hovered?.objectType === 'port') {
+            end = this.findAttachPoint({ modelId: hovered.modelId, portAttachName: indicatorToAttachName(hovered.objectName) })
+                ?.getWorldPosition(new THREE.Vector3()) ?? null;
+        }
+        if (!end) {
+            // Follow the pointer on the plane through the source port that faces the camera
+            this.setRayFromPointer(clientX, clientY);
+            const plane = new THREE.Plane().setFromNormalAndCoplanarPoint(this.camera.getWorldDirection(new THREE.Vector3()), start);
+            end = this.raycaster.ray.intersectPlane(plane, new THREE.Vector3());
+        }
+        if (end) {
+            line.geometry.setFromPoints([start, end]);
+            line.computeLineDistances();
+            this.requestRender();
         }
     }
 
     disconnectCable(cableId: string): void {
         const cableInfo = this.cables[cableId];
         if (cableInfo) {
+            this.sceneDimmer.restore(cableInfo.object);
+            this.filteredOutObjects.delete(cableInfo.object);
             this.scene.remove(cableInfo.object);
             // Dispose geometry/material if it's a custom cable mesh
-            if (cableInfo.object instanceof THREE.Mesh || cableInfo.object instanceof THREE.Line) {
-                cableInfo.object.geometry.dispose();
-                if (Array.isArray(cableInfo.object.material)) {
-                    cableInfo.object.material.forEach(m => m.dispose());
-                } else {
-                    cableInfo.object.material.dispose();
-                }
+            cableInfo.object.geometry.dispose();
+            if (Array.isArray(cableInfo.object.material)) {
+                cableInfo.object.material.forEach(m => m.dispose());
+            } else {
+                cableInfo.object.material.dispose();
             }
             delete this.cables[cableId];
+            this.requestRender();
+        }
+    }
+
+    private routeCablesOf(modelIds: Set<string>): void {
+        Object.values(this.cables).forEach(cable => {
+            if (modelIds.has(cable.source.modelId) || modelIds.has(cable.target.modelId)) {
+                this.routeCable(cable);
+            }
+        });
+    }
+
+    // Rebuilds the tube of a cable if either of its attach points moved since it was last built
+    private routeCable(cableInfo: CableInfo): void {
+        const sourceAttachPoint = this.findAttachPoint(cableInfo.source);
+        const targetAttachPoint = this.findAttachPoint(cableInfo.target);
+        if (!sourceAttachPoint || !targetAttachPoint) {
+            return;
+        }
+        const sourcePos = sourceAttachPoint.getWorldPosition(new THREE.Vector3());
+        const targetPos = targetAttachPoint.getWorldPosition(new THREE.Vector3());
+        if (sourcePos.equals(cableInfo.sourcePos) && targetPos.equals(cableInfo.targetPos)) {
+            return;
         }
+
+        cableInfo.object.geometry.dispose();
+        cableInfo.object.geometry = buildCableGeometry(sourcePos, targetPos, cableInfo.radius);
+        cableInfo.sourcePos = sourcePos;
+        cableInfo.targetPos = targetPos;
     }
 
     // Call this when a port's state changes
     updateCableVisualsForPort(modelInstanceId: string, portIndicatorName: string): void {
+        const attachName = indicatorToAttachName(portIndicatorName); // Exact name, so Port1 doesn't also match Port10
         Object.values(this.cables).forEach(cable => {
-            if ((cable.source.modelId === modelInstanceId && cable.source.portAttachName.startsWith(portIndicatorName.replace('_Indicator', ''))) ||
-                (cable.target.modelId === modelInstanceId && cable.target.portAttachName.startsWith(portIndicatorName.replace('_Indicator', '')))) {
+            if ((cable.source.modelId === modelInstanceId && cable.source.portAttachName === attachName) ||
+                (cable.target.modelId === modelInstanceId && cable.target.portAttachName === attachName)) {
 
                 const modelData = this.loadedModels[modelInstanceId];
                 const portInfo = modelData?.portIndicators[portIndicatorName];
-                if (portInfo && cable.object instanceof THREE.Mesh) { // Assuming cable is a Mesh
+                if (portInfo?.style && cable.object instanceof THREE.Mesh) { // Assuming cable is a Mesh
                     const cableMaterial = cable.object.material as THREE.MeshStandardMaterial;
-                    switch (portInfo.currentState) {
-                        case 'active': cableMaterial.color.set(0x00aa00); break;
-                        case 'inactive': cableMaterial.color.set(0x505050); break; // Or hide: cable.object.visible = false;
-                        case 'error': cableMaterial.color.set(0xaa0000); break;
-                        default: cableMaterial.color.set(0x505050);
-                    }
+                    cableMaterial.color.set(portInfo.style.cableColor);
                 }
             }
         });
@@ -356,125 +1107,486 @@ export class ThreeSceneService {
         this.camera.aspect = canvas.clientWidth / canvas.clientHeight;
         this.camera.updateProjectionMatrix();
         this.renderer.setSize(canvas.clientWidth, canvas.clientHeight);
+        this.composer?.setSize(canvas.clientWidth, canvas.clientHeight);
+        this.requestRender();
     }
 
     private onCanvasClick(event: MouseEvent): void {
-        const canvas = this.renderer.domElement;
-        const rect = canvas.getBoundingClientRect();
-        this.mouse.x = ((event.clientX - rect.left) / canvas.clientWidth) * 2 - 1;
-        this.mouse.y = -((event.clientY - rect.top) / canvas.clientHeight) * 2 + 1;
+        if (performance.now() - this.lastGizmoDragEnd < GIZMO_CLICK_GRACE_PERIOD) {
+            return;
+        }
+        const picked = this.pickSceneObject(event.clientX, event.clientY);
+        if (!picked?.info) {
+            return; // Nothing hit, or not a device, port or cable
+        }
+        const info: PickedObjectInfo = { ...picked.info, additive: event.shiftKey || event.ctrlKey || event.metaKey };
+        this.ngZone.run(() => { // Run inside Angular zone to trigger UI updates
+            this.onObjectSelected.next(info);
+        });
+    }
 
-        this.raycaster.setFromCamera(this.mouse, this.camera);
-        const intersects = this.raycaster.intersectObjects(this.scene.children, true); // true for recursive
-
-        if (intersects.length > 0) {
-            let selectedObject = intersects[0].object;
-            // Traverse up to find the named model root or port indicator
-            let modelInstanceId: string | null = null;
-            let portName: string | null = null;
-            let objectType: 'port' | 'device' | null = null;
-
-            let current: THREE.Object3D | null = selectedObject;
-            while (current) {
-                if (this.loadedModels[current.name]) { // Check if it's a model root
-                    modelInstanceId = current.name;
-                    objectType = 'device';
-                    break;
+    private onCanvasPointerMove(event: PointerEvent): void {
+        this.pendingPointer = { clientX: event.clientX, clientY: event.clientY };
+        if (this.hoverFrameId !== null) {
+            return;
+        }
+        this.ngZone.runOutsideAngular(() => {
+            this.hoverFrameId = requestAnimationFrame(() => {
+                this.hoverFrameId = null;
+                const pointer = this.pendingPointer;
+                this.pendingPointer = null;
+                if (pointer && this.renderer) {
+                    this.updateHover(pointer.clientX, pointer.clientY);
+                    this.updateCablePreview(pointer.clientX, pointer.clientY);
+                }
+            });
+        });
+    }
+
+    private updateHover(clientX: number, clientY: number): void {
+        const info = this.pickSceneObject(clientX, clientY)?.info ?? null;
+        if (this.isSameSceneObject(info, this.hoveredObject)) {
+            return;
+        }
+        const rect = this.renderer.domElement.getBoundingClientRect();
+        this.setHoveredObject(info ? { ...info, canvasX: clientX - rect.left, canvasY: clientY - rect.top } : null);
+    }
+
+    private setHoveredObject(hovered: HoveredObjectInfo | null): void {
+        if (!hovered && !this.hoveredObject) {
+            return;
+        }
+        this.hoveredObject = hovered ? { modelId: hovered.modelId, objectName: hovered.objectName, objectType: hovered.objectType } : null;
+        this.updateOutlines();
+        this.ngZone.run(() => this.onObjectHovered.next(hovered));
+    }
+
+    /**
+     * Outlines the given devices, ports and cables persistently (an empty list clears it).
+     * In edit mode the gizmo goes on the device of the last one; the other selected devices move with it.
+     */
+    setSelectedObjects(selected: SceneObjectInfo[]): void {
+        this.selectedObjects = selected.map(info => ({ ...info }));
+        this.updateOutlines();
+        this.updateGizmoAttachment();
+    }
+
+    // Loaded models of the selected devices and ports, the one that gets the gizmo first
+    private getSelectedModels(): LoadedModel[] {
+        const modelIds = new Set<string>();
+        [...this.selectedObjects].reverse().forEach(info => {
+            if (info.objectType !== 'cable') { // A selected cable has nothing to move
+                modelIds.add(info.modelId);
+            }
+        });
+        return [...modelIds].map(modelId => this.loadedModels[modelId]).filter(modelData => !!modelData);
+    }
+
+    /**
+     * Devices whose center is inside a rectangle given in client coordinates, e.g. drawn for box selection.
+     * Devices dimmed or hidden by the search filter are left out.
+     */
+    getModelsInRect(left: number, top: number, right: number, bottom: number): string[] {
+        const rect = this.renderer.domElement.getBoundingClientRect();
+        const box = new THREE.Box3();
+        const center = new THREE.Vector3();
+        return Object.values(this.loadedModels)
+            .filter(modelData => {
+                if (this.filteredOutObjects.has(modelData.object) || box.setFromObject(modelData.object).isEmpty()) {
+                    return false;
+                }
+                box.getCenter(center).project(this.camera);
+                if (center.z < -1 || center.z > 1) {
+                    return false; // Behind the camera
+                }
+                const x = rect.left + (center.x + 1) / 2 * rect.width;
+                const y = rect.top + (1 - center.y) / 2 * rect.height;
+                return x >= left && x <= right && y >= top && y <= bottom;
+            })
+            .map(modelData => modelData.id);
+    }
+
+    /**
+     * Outlines devices, ports and cables in red (e.g. validation issues); an empty list clears it.
+     * Targets that aren't in the scene yet are outlined once they are.
+     */
+    setIssueHighlights(targets: SceneHighlightTarget[]): void {
+        this.issueHighlights = [...targets];
+        this.updateOutlines();
+    }
+
+    /**
+     * Outlines devices, ports and cables in green, e.g. a traced path; an empty list clears it.
+     */
+    setPathHighlights(targets: SceneHighlightTarget[]): void {
+        this.pathHighlights = [...targets];
+        this.updateOutlines();
+    }
+
+    private updateOutlines(): void {
+        if (!this.hoverOutlinePass || !this.selectionOutlinePass || !this.issueOutlinePass || !this.pathOutlinePass) {
+            return;
+        }
+        const selected = this.selectedObjects
+            .map(info => ({ info, object: this.findSceneObject(info) }))
+            .filter((entry): entry is { info: SceneObjectInfo, object: THREE.Object3D } => !!entry.object);
+        const hovered = this.selectedObjects.some(info => this.isSameSceneObject(this.hoveredObject, info)) ? undefined : this.findSceneObject(this.hoveredObject);
+        this.selectionOutlinePass.selectedObjects = selected.map(entry => entry.object);
+        this.hoverOutlinePass.selectedObjects = hovered ? [hovered] : [];
+        const issueObjects = this.findHighlightObjects(this.issueHighlights);
+        this.issueOutlinePass.selectedObjects = issueObjects.map(entry => entry.object);
+        const pathObjects = this.findHighlightObjects(this.pathHighlights);
+        this.pathOutlinePass.selectedObjects = pathObjects.map(entry => entry.object);
+
+        // Instanced chassis have no visible meshes of their own, which the outline needs
+        const outlinedModels = new Set<string>();
+        selected.forEach(entry => entry.info.objectType !== 'cable' && outlinedModels.add(entry.info.modelId));
+        if (hovered && this.hoveredObject) outlinedModels.add(this.hoveredObject.modelId);
+        [...issueObjects, ...pathObjects].forEach(entry => entry.modelId && outlinedModels.add(entry.modelId));
+        // Dimmed models need their own meshes too, since those carry the translucent materials
+        this.instancedChassis?.setExcluded(new Set([...outlinedModels, ...this.dimmedModelIds]));
+
+        this.requestRender();
+    }
+
+    /**
+     * Dims or hides everything but the given devices, e.g. to show search results or a traced path;
+     * null shows everything again.
+     * Dimmed and hidden objects can't be hovered or picked.
+     */
+    setSceneFilter(filter: SceneFilter | null): void {
+        this.sceneFilter = filter ? { ...filter, modelIds: [...filter.modelIds], cableIds: filter.cableIds && [...filter.cableIds] } : null;
+        this.applySceneFilter();
+        this.updateOutlines();
+    }
+
+    private applySceneFilter(): void {
+        this.sceneDimmer.restoreAll();
+        this.filteredOutObjects.clear();
+        this.dimmedModelIds.clear();
+        const kept = this.sceneFilter ? new Set(this.sceneFilter.modelIds) : null;
+        const keptCables = this.sceneFilter?.cableIds ? new Set(this.sceneFilter.cableIds) : null;
+        const hide = this.sceneFilter?.mode === 'hide';
+        const filterOut = (object: THREE.Object3D, filteredOut: boolean) => {
+            object.visible = !(filteredOut && hide);
+            if (filteredOut) {
+                this.filteredOutObjects.add(object);
+                if (!hide) {
+                    this.sceneDimmer.dim(object, mesh => mesh === object || isPortIndicatorName(mesh.name));
+                }
+            }
+        };
+
+        Object.values(this.loadedModels).forEach(modelData => {
+            const filteredOut = !!kept && !kept.has(modelData.id);
+            filterOut(modelData.object, filteredOut);
+            if (filteredOut && !hide) {
+                this.dimmedModelIds.add(modelData.id);
+            }
+        });
+        Object.values(this.cables).forEach(cable => {
+            const keptCable = keptCables ? keptCables.has(cable.id) : !!kept && kept.has(cable.source.modelId) && kept.has(cable.target.modelId);
+            filterOut(cable.object, !!kept && !keptCable);
+        });
+        this.requestRender();
+    }
+
+    private findHighlightObjects(targets: SceneHighlightTarget[]): { object: THREE.Object3D, modelId?: string }[] {
+        const found: { object: THREE.Object3D, modelId?: string }[] = [];
+        targets.forEach(target => {
+            if (target.modelId) {
+                const object = this.findSceneObject(target.portName
+                    ? { modelId: target.modelId, objectName: target.portName, objectType: 'port' }
+                    : { modelId: target.modelId, objectName: target.modelId, objectType: 'device' });
+                if (object) {
+                    found.push({ object, modelId: target.modelId });
                 }
-                if (current.name.endsWith('_Indicator')) { // Check if it's a port indicator
-                    portName = current.name;
-                    // Try to find its parent model ID
-                    let parent = current.parent;
-                    while (parent) {
-                        if (this.loadedModels[parent.name]) {
-                            modelInstanceId = parent.name;
-                            break;
-                        }
-                        parent = parent.parent;
+            }
+            const cable = target.cableId ? this.cables[target.cableId] : undefined;
+            if (cable) {
+                found.push({ object: cable.object });
+            }
+        });
+        return found;
+    }
+
+    private findSceneObject(info: SceneObjectInfo | null): THREE.Object3D | undefined {
+        if (!info) {
+            return undefined;
+        }
+        if (info.objectType === 'cable') {
+            return this.cables[info.objectName]?.object;
+        }
+        const modelData = this.loadedModels[info.modelId];
+        return info.objectType === 'port' ? modelData?.portIndicators[info.objectName]?.mesh : modelData?.object;
+    }
+
+    private isSameSceneObject(a: SceneObjectInfo | null, b: SceneObjectInfo | null): boolean {
+        return a === b || (!!a && !!b && a.modelId === b.modelId && a.objectName === b.objectName && a.objectType === b.objectType);
+    }
+
+    /**
+     * Raycasts from a pointer position. Returns null if nothing was hit; `info` is null when the
+     * closest hit is not part of a device, port or cable.
+     */
+    private pickSceneObject(clientX: number, clientY: number): { info: SceneObjectInfo | null, object: THREE.Object3D } | null {
+        this.setRayFromPointer(clientX, clientY);
+        const intersects = this.raycaster.intersectObjects(this.getPickableObjects(), true); // true for recursive
+        // Click through whatever the search filter dimmed or hid
+        const hit = intersects.find(intersection => !this.isFilteredOut(intersection.object));
+        if (!hit) {
+            return null;
+        }
+
+        const selectedObject = hit.object;
+        // Traverse up to find the named model root or port indicator
+        let modelInstanceId: string | null = null;
+        let portName: string | null = null;
+        let objectType: 'port' | 'device' | null = null;
+
+        let current: THREE.Object3D | null = selectedObject;
+        while (current) {
+            if (this.loadedModels[current.name]) { // Check if it's a model root
+                modelInstanceId = current.name;
+                objectType = 'device';
+                break;
+            }
+            if (isPortIndicatorName(current.name)) { // Check if it's a port indicator
+                portName = current.name;
+                // Try to find its parent model ID
+                let parent = current.parent;
+                while (parent) {
+                    if (this.loadedModels[parent.name]) {
+                        modelInstanceId = parent.name;
+                        break;
                     }
-                    objectType = 'port';
-                    break;
+                    parent = parent.parent;
                 }
-                current = current.parent;
+                objectType = 'port';
+                break;
+            }
+            current = current.parent;
+        }
+
+        if (modelInstanceId && (objectType === 'device' || (portName && objectType === 'port'))) {
+            return {
+                info: {
+                    modelId: modelInstanceId,
+                    objectName: portName || modelInstanceId, // If device, objectName is modelId
+                    objectType: objectType!
+                },
+                object: selectedObject
+            };
+        }
+        const cable = this.cables[selectedObject.name];
+        if (cable?.object === selectedObject) {
+            return { info: { modelId: cable.source.modelId, objectName: cable.id, objectType: 'cable' }, object: selectedObject };
+        }
+        return { info: null, object: selectedObject };
+    }
+
+    private isFilteredOut(object: THREE.Object3D): boolean {
+        for (let current: THREE.Object3D | null = object; current; current = current.parent) {
+            if (this.filteredOutObjects.has(current)) {
+                return true;
             }
+        }
+        return false;
+    }
 
-            if (modelInstanceId && (objectType === 'device' || (portName && objectType === 'port'))) {
-                this.ngZone.run(() => { // Run inside Angular zone to trigger UI updates
-                    this.onObjectSelected.next({
-                        modelId: modelInstanceId!,
-                        objectName: portName || modelInstanceId!, // If device, objectName is modelId
-                        objectType: objectType!
-                    });
-                });
-            } else {
-                console.log('Clicked on:', selectedObject.name || 'unnamed object', selectedObject);
+    private setRayFromPointer(clientX: number, clientY: number): void {
+        const canvas = this.renderer.domElement;
+        const rect = canvas.getBoundingClientRect();
+        this.mouse.x = ((clientX - rect.left) / canvas.clientWidth) * 2 - 1;
+        this.mouse.y = -((clientY - rect.top) / canvas.clientHeight) * 2 + 1;
+        this.raycaster.setFromCamera(this.mouse, this.camera);
+    }
+
+    /**
+     * Point on the floor (y = 0) under a pointer position given in client coordinates, e.g. where
+     * something was dropped; null if the pointer is above the horizon.
+     */
+    getFloorPoint(clientX: number, clientY: number): Vector3D | null {
+        this.setRayFromPointer(clientX, clientY);
+        const floor = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
+        const point = this.raycaster.ray.intersectPlane(floor, new THREE.Vector3());
+        return point ? { x: point.x, y: 0, z: point.z } : null;
+    }
+
+    // --- Export ---
+    /**
+     * Renders the current view to a PNG at `scale` times the canvas size. Outlines, the gizmo
+     * and other editing aids are left out.
+     */
+    async captureSnapshot(options: SnapshotOptions = {}): Promise<Blob> {
+        const canvas = this.renderer.domElement;
+        const scale = Math.min(options.scale ?? DEFAULT_SNAPSHOT_SCALE, MAX_SNAPSHOT_SIZE / Math.max(canvas.clientWidth, canvas.clientHeight));
+        const width = Math.round(canvas.clientWidth * scale);
+        const height = Math.round(canvas.clientHeight * scale);
+
+        // A renderer of its own: the on-screen one has no alpha channel and is sized to the page
+        const snapshotRenderer = new THREE.WebGLRenderer({ antialias: true, alpha: true, preserveDrawingBuffer: true });
+        const output = document.createElement('canvas');
+        output.width = width;
+        output.height = height;
+        const context = output.getContext('2d')!;
+        const background = this.scene.background;
+        const hidden = this.getEditingAids().filter(aid => aid.visible);
+        try {
+            snapshotRenderer.setPixelRatio(1);
+            snapshotRenderer.setSize(width, height, false);
+            snapshotRenderer.setClearColor(0x000000, 0);
+            if (options.transparent) {
+                this.scene.background = null;
             }
+            hidden.forEach(aid => aid.visible = false);
+            snapshotRenderer.render(this.scene, this.camera);
+            context.drawImage(snapshotRenderer.domElement, 0, 0);
+        } finally {
+            this.scene.background = background;
+            hidden.forEach(aid => aid.visible = true);
+            snapshotRenderer.dispose();
+            snapshotRenderer.forceContextLoss();
+        }
+        if (options.labels) {
+            this.drawSnapshotLabels(context, options.labels, width, height, scale);
         }
+        return new Promise((resolve, reject) => output.toBlob(
+            blob => blob ? resolve(blob) : reject(new Error('The browser could not encode the snapshot as PNG.')),
+            'image/png'
+        ));
+    }
+
+    /**
+     * Exports the assembled scene (devices with their current port colors, cables and racks) as one binary glTF.
+     */
+    async exportGlb(): Promise<Blob> {
+        const aids = this.getEditingAids();
+        const objects = this.scene.children.filter(child => !aids.includes(child) && !(child instanceof THREE.Light));
+        const result = await new GLTFExporter().parseAsync(objects, { binary: true, onlyVisible: true });
+        return new Blob([result as ArrayBuffer], { type: 'model/gltf-binary' });
+    }
+
+    private drawSnapshotLabels(context: CanvasRenderingContext2D, labels: { [modelId: string]: string }, width: number, height: number, scale: number): void {
+        const fontSize = SNAPSHOT_LABEL_FONT_SIZE * scale;
+        const padding = 3 * scale;
+        const box = new THREE.Box3();
+        const anchor = new THREE.Vector3();
+        context.font = `${fontSize}px sans-serif`;
+        context.textAlign = 'center';
+        context.textBaseline = 'bottom';
+        Object.entries(labels).forEach(([modelId, text]) => {
+            const modelData = this.loadedModels[modelId];
+            if (!modelData || !text || box.setFromObject(modelData.object).isEmpty()) {
+                return;
+            }
+            // Just above the top of the device
+            box.getCenter(anchor);
+            anchor.y = box.max.y;
+            anchor.project(this.camera);
+            if (anchor.z < -1 || anchor.z > 1) {
+                return; // Behind the camera
+            }
+            const x = (anchor.x + 1) / 2 * width;
+            const y = (1 - anchor.y) / 2 * height - padding * 2;
+            const textWidth = context.measureText(text).width;
+            context.fillStyle = 'rgba(255, 255, 255, 0.85)';
+            context.fillRect(x - textWidth / 2 - padding, y - fontSize - padding, textWidth + padding * 2, fontSize + padding * 2);
+            context.fillStyle = '#212121';
+            context.fillText(text, x, y);
+        });
+    }
+
+    // Gizmo, snapping grid and cable preview: shown while editing, never exported
+    private getEditingAids(): THREE.Object3D[] {
+        const aids: (THREE.Object3D | null | undefined)[] = [this.transformControls?.getHelper(), this.editGrid, this.cablePreview?.line];
+        return aids.filter((aid): aid is THREE.Object3D => !!aid);
+    }
+
+    // Everything in the scene except editing helpers (gizmo, grid, cable preview)
+    private getPickableObjects(): THREE.Object3D[] {
+        const helper = this.transformControls?.getHelper();
+        const preview = this.cablePreview?.line;
+        return this.scene.children.filter(child => child !== helper && child !== this.editGrid && child !== this.rackLayer && child !== preview);
     }
 
     updateScene(): void {
         // For animations or continuous updates
         this.updateBlinkingPorts();
-        // Update cable positions if models can be dragged (more complex)
-        Object.values(this.cables).forEach(cableInfo => {
-            if (cableInfo.object instanceof THREE.Line) { // For simple line cables
-                const sourceAttachPoint = this.loadedModels[cableInfo.source.modelId]?.portAttachPoints[cableInfo.source.portAttachName];
-                const targetAttachPoint = this.loadedModels[cableInfo.target.modelId]?.portAttachPoints[cableInfo.target.portAttachName];
-                if (sourceAttachPoint && targetAttachPoint) {
-                    const points = [
-                        sourceAttachPoint.getWorldPosition(new THREE.Vector3()),
-                        targetAttachPoint.getWorldPosition(new THREE.Vector3())
-                    ];
-                    (cableInfo.object.geometry as THREE.BufferGeometry).setFromPoints(points);
-                    cableInfo.object.geometry.attributes.position.needsUpdate = true;
-                }
-            } else if (cableInfo.object instanceof THREE.Mesh && cableInfo.object.geometry instanceof THREE.CylinderGeometry) { // For Cylinder cables
-                const sourceModel = this.loadedModels[cableInfo.source.modelId];
-                const targetModel = this.loadedModels[cableInfo.target.modelId];
-                const sourceAttachPoint = sourceModel?.portAttachPoints[cableInfo.source.portAttachName];
-                const targetAttachPoint = targetModel?.portAttachPoints[cableInfo.target.portAttachName];
-
-                if (sourceAttachPoint && targetAttachPoint) {
-                    const sourcePos = sourceAttachPoint.getWorldPosition(new THREE.Vector3());
-                    const targetPos = targetAttachPoint.getWorldPosition(new THREE.Vector3());
-                    const direction = new THREE.Vector3().subVectors(targetPos, sourcePos);
-                    const length = direction.length();
-
-                    // Update cylinder height
-                    // This requires recreating geometry or using a more flexible approach
-                    // A simpler way is to scale, but CylinderGeometry height is fixed at creation.
-                    // For dynamic length, scaling a unit cylinder is better:
-                    // cableInfo.object.scale.y = length; // If cylinder is oriented along Y
-                    // Or, if your cable model is designed for this, adjust its scale.
-
-                    // Recalculate position and orientation
-                    cableInfo.object.position.copy(sourcePos).add(new THREE.Vector3().copy(direction).multiplyScalar(0.5));
-                    cableInfo.object.quaternion.setFromUnitVectors(new THREE.Vector3(0, 1, 0), direction.clone().normalize());
-
-                    // If you're dynamically changing cylinder length, you need to manage that instance.
-                    // A common way: scale a unit cylinder.
-                    // If the cylinder was created with height 1:
-                    // cableInfo.object.scale.y = length;
-                    // This assumes the cylinder's local Y axis is its length axis.
-                    // If your cable is a GLB, you'd scale the appropriate axis.
-                }
-            }
-        });
+        // Cables follow the devices dragged with the gizmo; other moves go through updateModelTransform()
+        if (this.gizmoMovedModelIds.size > 0) {
+            this.routeCablesOf(this.gizmoMovedModelIds);
+            this.gizmoMovedModelIds.clear();
+        }
+        this.instancedChassis?.update();
     }
 
     render(): void {
         if (this.renderer && this.scene && this.camera) {
             this.controls.update(); // only if damping enabled
-            this.renderer.render(this.scene, this.camera);
+            if (this.composer) {
+                this.composer.render();
+            } else {
+                this.renderer.render(this.scene, this.camera);
+            }
         }
     }
 
     dispose(): void {
-        window.removeEventListener('resize', this.onWindowResize);
+        this.stopRenderLoop();
+        this.themeSubscription?.unsubscribe();
+        this.themeSubscription = null;
+        window.removeEventListener('resize', this.resizeListener);
+        if (this.controls) {
+            this.controls.removeEventListener('change', this.controlsChangeListener);
+            this.controls.removeEventListener('start', this.controlsStartListener);
+            this.controls.dispose();
+        }
+        if (this.transformControls) {
+            this.transformControls.removeEventListener('change', this.transformChangeListener);
+            this.transformControls.removeEventListener('dragging-changed', this.transformDraggingListener);
+            this.transformControls.removeEventListener('mouseUp', this.transformMouseUpListener);
+            this.transformControls.detach();
+            this.scene.remove(this.transformControls.getHelper());
+            this.transformControls.dispose();
+            this.transformControls = null;
+        }
+        this.editGrid?.dispose();
+        this.editGrid = null;
+        this.editMode = false;
         if (this.renderer) {
-            this.renderer.domElement.removeEventListener('click', this.onCanvasClick);
+            this.renderer.domElement.removeEventListener('click', this.clickListener);
+            this.renderer.domElement.removeEventListener('pointermove', this.pointerMoveListener);
+            this.renderer.domElement.removeEventListener('pointerleave', this.pointerLeaveListener);
             this.renderer.dispose();
         }
+        if (this.hoverFrameId !== null) {
+            cancelAnimationFrame(this.hoverFrameId);
+            this.hoverFrameId = null;
+        }
+        this.hoverOutlinePass?.dispose();
+        this.selectionOutlinePass?.dispose();
+        this.issueOutlinePass?.dispose();
+        this.pathOutlinePass?.dispose();
+        this.composer?.dispose();
+        this.composer = null;
+        this.hoverOutlinePass = null;
+        this.selectionOutlinePass = null;
+        this.issueOutlinePass = null;
+        this.issueHighlights = [];
+        this.pathOutlinePass = null;
+        this.pathHighlights = [];
+        this.hoveredObject = null;
+        this.selectedObjects = [];
+        this.gizmoDrag = null;
+        this.stopCablePreview();
+        this.cameraFlight = null;
+        this.instancedChassis?.dispose();
+        this.instancedChassis = null;
+        this.sceneDimmer.dispose(); // Puts the shared chassis materials back before everything is disposed
+        this.sceneFilter = null;
+        this.filteredOutObjects.clear();
+        this.dimmedModelIds.clear();
         // Dispose all scene objects, geometries, materials
         this.scene.traverse(object => {
             if (object instanceof THREE.Mesh) {
@@ -490,6 +1602,12 @@ export class ThreeSceneService {
         });
         this.loadedModels = {};
         this.cables = {};
+        this.racks = {};
+        this.rackLayer = null;
+        this.rackFrameMaterial = null;
+        this.slotMarkerMaterial = null;
+        this.cableTemplates.clear();
+        this.assetCache.clear();
         console.log("ThreeSceneService disposed.");
     }
 }
\ No newline at end of file
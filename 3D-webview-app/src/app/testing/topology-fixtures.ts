@@ -0,0 +1,37 @@
+import { CableConnection, ModelInstance, PortState, TopologyLayout } from '../services/topology-state.service';
+
+// Building blocks for specs: small valid layouts, with only what a test cares about spelled out
+
+/**
+ * A TestRouter (the built-in model) at the origin, without ports unless given.
+ */
+export function createTestDevice(id: string, overrides: Partial<ModelInstance> = {}): ModelInstance {
+  return {
+    id,
+    modelDefinitionId: 'TestRouter',
+    assetUrl: 'assets/models/test-router.glb',
+    position: { x: 0, y: 0, z: 0 },
+    rotation: { x: 0, y: 0, z: 0 },
+    ports: [],
+    ...overrides
+  };
+}
+
+export function createTestPort(name: string, status: PortState['status'] = 'up', overrides: Partial<PortState> = {}): PortState {
+  return { name, status, blinking: false, ...overrides };
+}
+
+/**
+ * A cable between two ports, given by their base names (e.g. 'Port1').
+ */
+export function createTestCable(id: string, source: string, sourcePort: string, target: string, targetPort: string): CableConnection {
+  return {
+    id,
+    source: { modelId: source, portAttachName: `${sourcePort}_Attach` },
+    target: { modelId: target, portAttachName: `${targetPort}_Attach` }
+  };
+}
+
+export function createTestLayout(parts: Partial<TopologyLayout> = {}): TopologyLayout {
+  return { id: 'lab', name: 'Lab', models: [], connections: [], ...parts };
+}